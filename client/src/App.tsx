@@ -2,6 +2,7 @@ import { Switch, Route } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
+import { AuthProvider } from "@/hooks/use-auth";
 import NotFound from "@/pages/not-found";
 import LifeVisualizer from "@/pages/LifeVisualizer";
 
@@ -9,6 +10,7 @@ function Router() {
   return (
     <Switch>
       <Route path="/" component={LifeVisualizer} />
+      <Route path="/s/:slug" component={LifeVisualizer} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -17,8 +19,10 @@ function Router() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <Router />
-      <Toaster />
+      <AuthProvider>
+        <Router />
+        <Toaster />
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
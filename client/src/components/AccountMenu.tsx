@@ -0,0 +1,187 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { LogIn, LogOut, User } from 'lucide-react';
+import { registerUserSchema } from '@shared/schema';
+import { useAuth } from '@/hooks/use-auth';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from '@/components/ui/form';
+
+const loginSchema = z.object({
+  username: z.string().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+type LoginData = z.infer<typeof loginSchema>;
+type RegisterData = z.infer<typeof registerUserSchema>;
+
+export function AccountMenu() {
+  const { user, isLoading, loginMutation, registerMutation, logoutMutation } = useAuth();
+  const [open, setOpen] = useState(false);
+
+  const loginForm = useForm<LoginData>({
+    resolver: zodResolver(loginSchema),
+    defaultValues: { username: '', password: '' },
+  });
+
+  const registerForm = useForm<RegisterData>({
+    resolver: zodResolver(registerUserSchema),
+    defaultValues: { username: '', password: '' },
+  });
+
+  const onLogin = (data: LoginData) => {
+    loginMutation.mutate(data, {
+      onSuccess: () => {
+        loginForm.reset();
+        setOpen(false);
+      }
+    });
+  };
+
+  const onRegister = (data: RegisterData) => {
+    registerMutation.mutate(data, {
+      onSuccess: () => {
+        registerForm.reset();
+        setOpen(false);
+      }
+    });
+  };
+
+  if (isLoading) return null;
+
+  if (user) {
+    return (
+      <div className="flex items-center gap-2">
+        <span className="hidden sm:flex items-center gap-1 text-sm text-gray-600 dark:text-gray-300" data-testid="text-username">
+          <User className="h-4 w-4" aria-hidden="true" />
+          {user.username}
+        </span>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => logoutMutation.mutate()}
+          disabled={logoutMutation.isPending}
+          data-testid="button-logout"
+        >
+          <LogOut className="h-4 w-4 mr-1" aria-hidden="true" />
+          Log out
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" data-testid="button-open-login">
+          <LogIn className="h-4 w-4 mr-1" aria-hidden="true" />
+          Log in
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Your Account</DialogTitle>
+          <DialogDescription>
+            Log in or create an account to keep your saved visualizations private to you.
+          </DialogDescription>
+        </DialogHeader>
+        <Tabs defaultValue="login">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="login">Log in</TabsTrigger>
+            <TabsTrigger value="register">Create account</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="login">
+            <Form {...loginForm}>
+              <form onSubmit={loginForm.handleSubmit(onLogin)} className="space-y-4">
+                <FormField
+                  control={loginForm.control}
+                  name="username"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Username</FormLabel>
+                      <FormControl>
+                        <Input autoComplete="username" {...field} data-testid="input-login-username" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={loginForm.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Password</FormLabel>
+                      <FormControl>
+                        <Input type="password" autoComplete="current-password" {...field} data-testid="input-login-password" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="submit" className="w-full" disabled={loginMutation.isPending} data-testid="button-login">
+                  {loginMutation.isPending ? 'Logging in...' : 'Log in'}
+                </Button>
+              </form>
+            </Form>
+          </TabsContent>
+
+          <TabsContent value="register">
+            <Form {...registerForm}>
+              <form onSubmit={registerForm.handleSubmit(onRegister)} className="space-y-4">
+                <FormField
+                  control={registerForm.control}
+                  name="username"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Username</FormLabel>
+                      <FormControl>
+                        <Input autoComplete="username" {...field} data-testid="input-register-username" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={registerForm.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Password</FormLabel>
+                      <FormControl>
+                        <Input type="password" autoComplete="new-password" {...field} data-testid="input-register-password" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="submit" className="w-full" disabled={registerMutation.isPending} data-testid="button-register">
+                  {registerMutation.isPending ? 'Creating account...' : 'Create account'}
+                </Button>
+              </form>
+            </Form>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -4,13 +4,38 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { ActivityData } from '@/types';
-import { getActivityIcon, getRandomColorHex } from '@/lib/utils';
+import type { RecurrenceFrequency } from '@shared/schema';
+import { ACTIVITY_CATEGORIES, activityCategoryOf, type ActivityCategory } from '@shared/activity-categories';
+import { calculateEffectiveDailyHours, cn, getActivityIcon, getRandomColorHex } from '@/lib/utils';
+
+const ON_ITS_OWN = 'none';
+
+const PERIODS: Record<RecurrenceFrequency, { short: string; long: string; maxDays: number; defaultDays: number }> = {
+  weekly: { short: 'd/wk', long: 'week', maxDays: 7, defaultDays: 7 },
+  monthly: { short: 'd/mo', long: 'month', maxDays: 31, defaultDays: 1 },
+  yearly: { short: 'd/yr', long: 'year', maxDays: 366, defaultDays: 14 },
+};
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const frequencyOf = (activity: ActivityData): RecurrenceFrequency => activity.recurrence?.frequency ?? 'weekly';
+
+const daysOf = (activity: ActivityData) =>
+  frequencyOf(activity) === 'weekly' ? activity.daysPerWeek : activity.recurrence?.daysPerPeriod ?? 1;
+
+// "All year" or the active months in calendar order, e.g. "Jan, Feb, Dec"
+const describeMonths = (activeMonths?: number[]) =>
+  activeMonths ? [...activeMonths].sort((a, b) => a - b).map(month => MONTHS[month - 1]).join(', ') : 'All year';
 
 interface ActivityInputProps {
   activities: ActivityData[];
   onActivitiesChange: (activities: ActivityData[]) => void;
   minProtectedActivities?: number;
+  label?: string;
+  testIdPrefix?: string; // Keeps test ids unique when several lists are on the page
 }
 
 const COLOR_PALETTE = [
@@ -29,9 +54,11 @@ const COLOR_PALETTE = [
 export function ActivityInput({ 
   activities, 
   onActivitiesChange,
-  minProtectedActivities = 3 
+  minProtectedActivities = 3,
+  label = 'Daily Activities (hours)',
+  testIdPrefix = 'activity'
 }: ActivityInputProps) {
-  const effectiveHours = activities.reduce((sum, activity) => sum + (activity.hours * activity.daysPerWeek) / 7, 0);
+  const effectiveHours = calculateEffectiveDailyHours(activities);
 
   const addActivity = () => {
     const colorIndex = (activities.length - minProtectedActivities) % COLOR_PALETTE.length;
@@ -50,16 +77,75 @@ export function ActivityInput({
     ]);
   };
 
+  // Activities that happened alongside the removed one go back to using their own time
   const removeActivity = (id: string) => {
-    onActivitiesChange(activities.filter(activity => activity.id !== id));
+    onActivitiesChange(activities
+      .filter(activity => activity.id !== id)
+      .map(activity => activity.concurrentWith === id ? { ...activity, concurrentWith: undefined } : activity));
+  };
+
+  // Monthly and yearly activities can't be painted in the weekly calendar, so they drop any schedule
+  const setFrequency = (index: number, frequency: RecurrenceFrequency) => {
+    const { recurrence, schedule, ...activity } = activities[index];
+    const activeMonths = recurrence?.activeMonths;
+    const updated: ActivityData = frequency === 'weekly'
+      ? { ...activity, schedule, recurrence: activeMonths ? { frequency, activeMonths } : undefined }
+      : { ...activity, recurrence: { frequency, daysPerPeriod: PERIODS[frequency].defaultDays, activeMonths } };
+    onActivitiesChange(activities.map((existing, i) => i === index ? updated : existing));
+  };
+
+  const setDays = (index: number, days: number) => {
+    const activity = activities[index];
+    const frequency = frequencyOf(activity);
+    if (frequency === 'weekly' || !activity.recurrence) {
+      updateActivity(index, { daysPerWeek: days || 7 });
+      return;
+    }
+    const daysPerPeriod = Math.min(Math.max(1, days || 1), PERIODS[frequency].maxDays);
+    updateActivity(index, { recurrence: { ...activity.recurrence, daysPerPeriod } });
+  };
+
+  // Every month selected is stored as no restriction; the last month can't be turned off
+  const toggleMonth = (index: number, month: number) => {
+    const activity = activities[index];
+    const current = new Set(activity.recurrence?.activeMonths ?? MONTHS.map((_, i) => i + 1));
+    if (current.has(month)) {
+      if (current.size === 1) return;
+      current.delete(month);
+    } else {
+      current.add(month);
+    }
+    const activeMonths = current.size === 12 ? undefined : Array.from(current).sort((a, b) => a - b);
+    const frequency = frequencyOf(activity);
+    updateActivity(index, {
+      recurrence: frequency === 'weekly' && !activeMonths
+        ? undefined
+        : { ...activity.recurrence, frequency, activeMonths }
+    });
+  };
+
+  // A host can't be concurrent itself, so making an activity concurrent frees its own guests
+  const setConcurrentWith = (index: number, hostId: string) => {
+    const id = activities[index].id;
+    const concurrentWith = hostId === ON_ITS_OWN ? undefined : hostId;
+    onActivitiesChange(activities.map((activity, i) => {
+      if (i === index) return { ...activity, concurrentWith };
+      if (concurrentWith && activity.concurrentWith === id) return { ...activity, concurrentWith: undefined };
+      return activity;
+    }));
   };
 
   const updateActivity = (index: number, updates: Partial<ActivityData>) => {
     const newActivities = [...activities];
     newActivities[index] = { ...newActivities[index], ...updates };
     
-    if (updates.name !== undefined) {
-      newActivities[index].icon = getActivityIcon(updates.name);
+    // Name and category pick the icon; until a category is chosen it's guessed from the name
+    if (updates.name !== undefined || updates.category !== undefined) {
+      newActivities[index].icon = getActivityIcon(newActivities[index].name, activityCategoryOf(newActivities[index]));
+    }
+    // Typed hours replace whatever was painted in the weekly calendar
+    if (updates.hours !== undefined || updates.daysPerWeek !== undefined) {
+      delete newActivities[index].schedule;
     }
     
     onActivitiesChange(newActivities);
@@ -69,7 +155,7 @@ export function ActivityInput({
     <div>
       <div className="flex justify-between mb-2">
         <Label className="text-sm font-medium text-muted-foreground">
-          Daily Activities (hours)
+          {label}
         </Label>
         <div className="flex items-center gap-3">
           <div className="flex items-center gap-1 text-xs">
@@ -97,7 +183,7 @@ export function ActivityInput({
                   size="sm" 
                   onClick={addActivity}
                   className="bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white border-0 shadow-md hover:shadow-lg transition-all duration-200 group"
-                  data-testid="button-add-activity"
+                  data-testid={`button-add-${testIdPrefix}`}
                 >
                   <Sparkles className="h-4 w-4 mr-1 group-hover:animate-pulse" />
                   Add Custom
@@ -130,11 +216,79 @@ export function ActivityInput({
                 onChange={(e) => updateActivity(index, { name: e.target.value })}
                 placeholder="Activity name"
                 className="border-0 bg-transparent p-0 font-medium focus-visible:ring-0 dark:text-white"
-                data-testid={`input-activity-name-${index}`}
+                data-testid={`input-${testIdPrefix}-name-${index}`}
               />
               <div className="text-xs text-gray-500 dark:text-gray-400">
-                {activity.hours} {activity.hours === 1 ? 'hour' : 'hours'}, {activity.daysPerWeek} {activity.daysPerWeek === 1 ? 'day' : 'days'}/week
+                {activity.hours} {activity.hours === 1 ? 'hour' : 'hours'}, {daysOf(activity)} {daysOf(activity) === 1 ? 'day' : 'days'}/{PERIODS[frequencyOf(activity)].long}
+                {activity.schedule && ' (from weekly calendar)'}
               </div>
+              <Select
+                value={activityCategoryOf(activity)}
+                onValueChange={(value) => updateActivity(index, { category: value as ActivityCategory })}
+              >
+                <SelectTrigger className="h-6 w-auto gap-1 border-0 bg-transparent p-0 text-xs text-gray-500 dark:text-gray-400 focus:ring-0" data-testid={`select-${testIdPrefix}-category-${index}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ACTIVITY_CATEGORIES.map(category => (
+                    <SelectItem key={category.id} value={category.id}>
+                      <i className={`fas ${category.icon} w-4 mr-1`}></i>
+                      {category.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {frequencyOf(activity) !== 'yearly' && (
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <button
+                      type="button"
+                      className="text-xs text-gray-500 dark:text-gray-400 hover:text-primary"
+                      data-testid={`button-${testIdPrefix}-months-${index}`}
+                    >
+                      {describeMonths(activity.recurrence?.activeMonths)}
+                    </button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-56 p-2">
+                    <p className="text-xs text-muted-foreground mb-2">Months this activity happens in</p>
+                    <div className="grid grid-cols-4 gap-1">
+                      {MONTHS.map((name, monthIndex) => {
+                        const active = activity.recurrence?.activeMonths?.includes(monthIndex + 1) ?? true;
+                        return (
+                          <Button
+                            key={name}
+                            type="button"
+                            variant={active ? 'default' : 'outline'}
+                            size="sm"
+                            className={cn('h-7 px-0 text-xs', !active && 'text-muted-foreground')}
+                            onClick={() => toggleMonth(index, monthIndex + 1)}
+                          >
+                            {name}
+                          </Button>
+                        );
+                      })}
+                    </div>
+                  </PopoverContent>
+                </Popover>
+              )}
+              {activities.length > 1 && (
+                <Select
+                  value={activity.concurrentWith ?? ON_ITS_OWN}
+                  onValueChange={(value) => setConcurrentWith(index, value)}
+                >
+                  <SelectTrigger className="h-6 w-auto gap-1 border-0 bg-transparent p-0 text-xs text-gray-500 dark:text-gray-400 focus:ring-0" data-testid={`select-${testIdPrefix}-concurrent-${index}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ON_ITS_OWN}>Takes its own time</SelectItem>
+                    {activities
+                      .filter(host => host.id !== activity.id && !host.concurrentWith && host.name.trim())
+                      .map(host => (
+                        <SelectItem key={host.id} value={host.id}>While {host.name}</SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              )}
             </div>
             <div className="flex items-center space-x-2">
               <div className="flex items-center space-x-1">
@@ -146,7 +300,7 @@ export function ActivityInput({
                   value={activity.hours}
                   onChange={(e) => updateActivity(index, { hours: parseFloat(e.target.value) || 0 })}
                   className="text-center text-sm w-16"
-                  data-testid={`input-activity-hours-${index}`}
+                  data-testid={`input-${testIdPrefix}-hours-${index}`}
                 />
                 <span className="text-xs text-gray-500 dark:text-gray-400">hrs</span>
               </div>
@@ -154,14 +308,26 @@ export function ActivityInput({
                 <Input
                   type="number"
                   min="1"
-                  max="7"
+                  max={PERIODS[frequencyOf(activity)].maxDays}
                   step="1"
-                  value={activity.daysPerWeek}
-                  onChange={(e) => updateActivity(index, { daysPerWeek: parseInt(e.target.value) || 7 })}
+                  value={daysOf(activity)}
+                  onChange={(e) => setDays(index, parseInt(e.target.value))}
                   className="text-center text-sm w-14"
-                  data-testid={`input-activity-days-${index}`}
+                  data-testid={`input-${testIdPrefix}-days-${index}`}
                 />
-                <span className="text-xs text-gray-500 dark:text-gray-400">d/w</span>
+                <Select
+                  value={frequencyOf(activity)}
+                  onValueChange={(value) => setFrequency(index, value as RecurrenceFrequency)}
+                >
+                  <SelectTrigger className="h-8 w-[4.5rem] px-2 text-xs" data-testid={`select-${testIdPrefix}-frequency-${index}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(PERIODS) as RecurrenceFrequency[]).map(frequency => (
+                      <SelectItem key={frequency} value={frequency}>{PERIODS[frequency].short}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
               {index >= minProtectedActivities && (
                 <Button 
@@ -170,7 +336,7 @@ export function ActivityInput({
                   size="sm"
                   onClick={() => removeActivity(activity.id)}
                   className="opacity-0 group-hover:opacity-100 transition-opacity p-1 h-8 w-8 text-muted-foreground hover:text-destructive"
-                  data-testid={`button-remove-activity-${index}`}
+                  data-testid={`button-remove-${testIdPrefix}-${index}`}
                 >
                   <X className="h-4 w-4" />
                 </Button>
@@ -0,0 +1,55 @@
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { IMPACT_MODEL, getImpactSource } from '@/lib/impact-model';
+
+interface ImpactCitationProps {
+  sources: string[]; // Ids in the impact model's source list
+}
+
+// Small info button next to a modelled number that lists the studies behind it
+export function ImpactCitation({ sources }: ImpactCitationProps) {
+  const cited = Array.from(new Set(sources))
+    .map(id => ({ id, source: getImpactSource(id) }))
+    .filter(entry => entry.source);
+  if (cited.length === 0) return null;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="ml-1 align-baseline text-xs text-gray-400 hover:text-primary"
+          aria-label="Sources for this estimate"
+          data-testid="button-impact-citation"
+        >
+          <i className="fas fa-circle-info"></i>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 p-3 text-left">
+        <p className="text-xs font-medium mb-2">Based on</p>
+        <ul className="space-y-2">
+          {cited.map(({ id, source }) => (
+            <li key={id} className="text-xs text-muted-foreground">
+              {source!.citation}
+              {source!.doi && (
+                <>
+                  {' '}
+                  <a
+                    href={`https://doi.org/${source!.doi}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-primary hover:underline"
+                  >
+                    doi:{source!.doi}
+                  </a>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+        <p className="text-[10px] text-muted-foreground mt-2">
+          Impact model v{IMPACT_MODEL.version}: the studies set each effect's direction and ranges; the sizes are the app's own calibration.
+        </p>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,218 @@
+import { History, Palmtree, Plus, Trash2 } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ActivityInput } from '@/components/ActivityInput';
+import { ActivityData, LifeEraData } from '@/types';
+import { lifeErasSchema } from '@shared/schema';
+import { LIFE_TABLE_MAX_AGE } from '@shared/life-table';
+
+interface LifeErasEditorProps {
+  eras: LifeEraData[];
+  onErasChange: (eras: LifeEraData[]) => void;
+  currentAge: number | null; // Null until a birthdate is entered
+}
+
+type EraTemplate = Omit<LifeEraData, 'id' | 'activities'> & { activities: Omit<ActivityData, 'id'>[] };
+
+// Typical past eras offered as a starting point; users adjust ages and hours to their own story
+const TYPICAL_ERAS: EraTemplate[] = [
+  {
+    name: 'Childhood',
+    startAge: 0,
+    endAge: 6,
+    activities: [
+      { name: 'Sleep', hours: 11, daysPerWeek: 7, icon: 'fa-bed', color: '#3B82F6' },
+      { name: 'Play', hours: 5, daysPerWeek: 7, icon: 'fa-puzzle-piece', color: '#F59E0B' },
+    ]
+  },
+  {
+    name: 'School',
+    startAge: 6,
+    endAge: 18,
+    activities: [
+      { name: 'Sleep', hours: 9, daysPerWeek: 7, icon: 'fa-bed', color: '#3B82F6' },
+      { name: 'School', hours: 7, daysPerWeek: 5, icon: 'fa-school', color: '#10B981' },
+      { name: 'Homework', hours: 1.5, daysPerWeek: 5, icon: 'fa-book', color: '#8B5CF6' },
+      { name: 'Play', hours: 3, daysPerWeek: 7, icon: 'fa-puzzle-piece', color: '#F59E0B' },
+    ]
+  },
+  {
+    name: 'University',
+    startAge: 18,
+    endAge: 22,
+    activities: [
+      { name: 'Sleep', hours: 8, daysPerWeek: 7, icon: 'fa-bed', color: '#3B82F6' },
+      { name: 'Study', hours: 6, daysPerWeek: 5, icon: 'fa-graduation-cap', color: '#10B981' },
+      { name: 'Part-time Work', hours: 4, daysPerWeek: 2, icon: 'fa-briefcase', color: '#EF4444' },
+      { name: 'Social Time', hours: 3, daysPerWeek: 7, icon: 'fa-users', color: '#F472B6' },
+    ]
+  },
+];
+
+const RETIREMENT_AGE = 65;
+
+// Planned era replacing work with retirement activities for the rest of life
+const RETIREMENT_ERA: EraTemplate = {
+  name: 'Retirement',
+  startAge: RETIREMENT_AGE,
+  endAge: LIFE_TABLE_MAX_AGE,
+  activities: [
+    { name: 'Sleep', hours: 8, daysPerWeek: 7, icon: 'fa-bed', color: '#3B82F6' },
+    { name: 'Hobbies', hours: 4, daysPerWeek: 5, icon: 'fa-paint-brush', color: '#10B981' },
+    { name: 'Social Activities', hours: 3, daysPerWeek: 3, icon: 'fa-users', color: '#F59E0B' },
+    { name: 'Exercise', hours: 2, daysPerWeek: 4, icon: 'fa-dumbbell', color: '#8B5CF6' },
+    { name: 'Family Time', hours: 2, daysPerWeek: 7, icon: 'fa-heart', color: '#EF4444' },
+  ]
+};
+
+const fromTemplate = (template: EraTemplate, endAge: number): LifeEraData => ({
+  ...template,
+  id: uuidv4(),
+  endAge,
+  activities: template.activities.map(activity => ({ ...activity, id: uuidv4() }))
+});
+
+export function LifeErasEditor({ eras, onErasChange, currentAge }: LifeErasEditorProps) {
+  const validation = lifeErasSchema.safeParse(eras);
+  const errors = validation.success
+    ? []
+    : Array.from(new Set(validation.error.issues.map(issue => issue.message)));
+
+  // Only eras that have already started are added, cut off at today's age
+  const addTypicalEras = () => {
+    const age = currentAge ?? Infinity;
+    const typical = TYPICAL_ERAS
+      .filter(template => template.startAge < age)
+      .map(template => fromTemplate(template, Math.min(template.endAge, age)));
+    onErasChange(typical);
+  };
+
+  const canAddRetirement = (currentAge === null || currentAge < RETIREMENT_AGE) &&
+    !eras.some(era => era.startAge <= RETIREMENT_AGE && era.endAge > RETIREMENT_AGE);
+
+  const addRetirement = () => {
+    onErasChange([...eras, fromTemplate(RETIREMENT_ERA, RETIREMENT_ERA.endAge)]);
+  };
+
+  const addEra = () => {
+    const startAge = eras.reduce((latest, era) => Math.max(latest, era.endAge), 0);
+    const endAge = currentAge !== null && currentAge > startAge ? Math.min(startAge + 5, currentAge) : startAge + 5;
+    onErasChange([...eras, { id: uuidv4(), name: '', startAge, endAge, activities: [] }]);
+  };
+
+  const updateEra = (index: number, updates: Partial<LifeEraData>) => {
+    const updated = [...eras];
+    updated[index] = { ...updated[index], ...updates };
+    onErasChange(updated);
+  };
+
+  const removeEra = (id: string) => {
+    onErasChange(eras.filter(era => era.id !== id));
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-2">
+        <Label className="text-sm font-medium text-muted-foreground flex items-center gap-1">
+          <History className="h-4 w-4" />
+          Life Eras (optional)
+        </Label>
+        <div className="flex items-center gap-2">
+          {eras.length === 0 && (
+            <Button type="button" variant="outline" size="sm" onClick={addTypicalEras} data-testid="button-add-typical-eras">
+              Use typical eras
+            </Button>
+          )}
+          {canAddRetirement && (
+            <Button type="button" variant="outline" size="sm" onClick={addRetirement} data-testid="button-add-retirement">
+              <Palmtree className="h-4 w-4 mr-1" />
+              Retire at {RETIREMENT_AGE}
+            </Button>
+          )}
+          <Button type="button" variant="outline" size="sm" onClick={addEra} data-testid="button-add-era">
+            <Plus className="h-4 w-4 mr-1" />
+            Add Era
+          </Button>
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+        Describe how your days looked in earlier periods of your life, or plan later ones such as
+        parenthood, a career change or retirement. Any years not covered by an era are counted with
+        your current daily activities.
+      </p>
+
+      {errors.length > 0 && (
+        <div className="text-xs text-red-500 mb-3" data-testid="text-era-errors">
+          {errors.map(error => <p key={error}>{error}</p>)}
+        </div>
+      )}
+
+      <div className="space-y-4">
+        {eras.map((era, index) => (
+          <div
+            key={era.id}
+            className="p-3 rounded-lg border border-gray-200 dark:border-gray-700 space-y-3"
+            data-testid={`era-${index}`}
+          >
+            <div className="flex flex-wrap items-center gap-2">
+              <Input
+                type="text"
+                value={era.name}
+                onChange={(e) => updateEra(index, { name: e.target.value })}
+                placeholder="Era name, e.g. First Job"
+                className="flex-1 min-w-[10rem]"
+                data-testid={`input-era-name-${index}`}
+              />
+              <div className="flex items-center space-x-1">
+                <span className="text-xs text-gray-500 dark:text-gray-400">Age</span>
+                <Input
+                  type="number"
+                  min="0"
+                  max="150"
+                  step="1"
+                  value={era.startAge}
+                  onChange={(e) => updateEra(index, { startAge: parseFloat(e.target.value) || 0 })}
+                  className="text-center text-sm w-16"
+                  data-testid={`input-era-start-${index}`}
+                />
+                <span className="text-xs text-gray-500 dark:text-gray-400">to</span>
+                <Input
+                  type="number"
+                  min="0"
+                  max="150"
+                  step="1"
+                  value={era.endAge}
+                  onChange={(e) => updateEra(index, { endAge: parseFloat(e.target.value) || 0 })}
+                  className="text-center text-sm w-16"
+                  data-testid={`input-era-end-${index}`}
+                />
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => removeEra(era.id)}
+                className="p-1 h-8 w-8 text-muted-foreground hover:text-destructive"
+                data-testid={`button-remove-era-${index}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            {currentAge !== null && era.startAge >= currentAge && (
+              <p className="text-xs text-blue-500">Planned era: used for your future projections.</p>
+            )}
+            <ActivityInput
+              activities={era.activities}
+              onActivitiesChange={(activities) => updateEra(index, { activities })}
+              minProtectedActivities={0}
+              label="Daily activities in this era (hours)"
+              testIdPrefix={`era-${index}-activity`}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import { useEffect, useRef } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import Chart from 'chart.js/auto';
+import type { LifeExpectancyHistory, Sex } from '@shared/schema';
+
+interface LifeExpectancyHistoryChartProps {
+  countryCode: string;
+  countryName?: string;
+  sex: Sex;
+  birthYear: number;
+}
+
+export function LifeExpectancyHistoryChart({ countryCode, countryName, sex, birthYear }: LifeExpectancyHistoryChartProps) {
+  const chartRef = useRef<HTMLCanvasElement | null>(null);
+  const chartInstance = useRef<Chart | null>(null);
+
+  const { data: history, isLoading, isError } = useQuery<LifeExpectancyHistory>({
+    queryKey: [`/api/life-expectancy/${countryCode}/history?sex=${sex}`],
+  });
+
+  // Show the user's lifetime, or the whole series when they were born before it starts
+  const points = history?.points.filter(point => point.year >= birthYear) ?? [];
+  const visiblePoints = points.length >= 2 ? points : history?.points ?? [];
+  const birthPoint = history?.points.find(point => point.year === birthYear);
+  const latestPoint = visiblePoints[visiblePoints.length - 1];
+  const bornBeforeSeries = !!history && history.points.length > 0 && birthYear < history.points[0].year;
+
+  useEffect(() => {
+    if (!chartRef.current || visiblePoints.length < 2) return;
+
+    const labels = visiblePoints.map(point => point.year);
+    const values = visiblePoints.map(point => point.lifeExpectancy);
+    // Single highlighted point marking the birth year
+    const birthMarker = visiblePoints.map(point => point.year === birthYear ? point.lifeExpectancy : null);
+
+    if (chartInstance.current) {
+      chartInstance.current.data.labels = labels;
+      chartInstance.current.data.datasets[0].data = values;
+      chartInstance.current.data.datasets[1].data = birthMarker;
+      chartInstance.current.update('active');
+      return;
+    }
+
+    const ctx = chartRef.current.getContext('2d');
+    if (!ctx) return;
+
+    chartInstance.current = new Chart(ctx, {
+      type: 'line',
+      data: {
+        labels,
+        datasets: [{
+          label: 'Life expectancy at birth',
+          data: values,
+          borderColor: '#3B82F6',
+          backgroundColor: 'rgba(59, 130, 246, 0.1)',
+          fill: true,
+          pointRadius: 0,
+          tension: 0.2
+        }, {
+          label: 'Your birth year',
+          data: birthMarker,
+          borderColor: '#F59E0B',
+          backgroundColor: '#F59E0B',
+          pointRadius: 6,
+          pointHoverRadius: 8,
+          showLine: false
+        }]
+      },
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        animation: {
+          duration: 750,
+          easing: 'easeInOutQuart'
+        },
+        scales: {
+          x: {
+            ticks: {
+              maxTicksLimit: 10
+            },
+            grid: {
+              display: false
+            }
+          },
+          y: {
+            title: {
+              display: true,
+              text: 'Years'
+            }
+          }
+        },
+        plugins: {
+          legend: {
+            position: 'top'
+          }
+        }
+      }
+    });
+  }, [history, birthYear]);
+
+  // Release the canvas on unmount
+  useEffect(() => () => {
+    chartInstance.current?.destroy();
+    chartInstance.current = null;
+  }, []);
+
+  const hasChart = !isLoading && !isError && visiblePoints.length >= 2;
+
+  // The canvas stays mounted (hidden while loading) so the chart instance keeps a live canvas
+  return (
+    <div className="flex flex-col">
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading life expectancy history...</p>
+      ) : !hasChart ? (
+        <p className="text-sm text-muted-foreground">
+          Historical data is not available for this country right now.
+        </p>
+      ) : (
+        <p className="text-gray-600 dark:text-gray-300 mb-4 text-sm">
+          {birthPoint && <>When you were born in {birthYear}, a newborn in {countryName ?? countryCode} could expect to live <span className="font-semibold">{birthPoint.lifeExpectancy.toFixed(1)}</span> years. </>}
+          {bornBeforeSeries && <>World Bank data for {countryName ?? countryCode} does not go back to your birth year ({birthYear}). </>}
+          By {latestPoint.year} that had become <span className="font-semibold text-primary">{latestPoint.lifeExpectancy.toFixed(1)}</span> years.
+        </p>
+      )}
+      <div className={hasChart ? 'h-48 sm:h-64 relative' : 'hidden'}>
+        <canvas ref={chartRef} className="w-full h-full" data-testid="chart-life-expectancy-history"></canvas>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,389 @@
+import { useEffect, useRef, useState } from 'react';
+import { FileText } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { ActivityData, LifeEraData, VisualizeResult } from '@/types';
+import type { CostBenefitResult, LifePhaseResult, TrendAnalysisResult } from '@/hooks/useLifeProjections';
+import type { CountryLifeTable, LifeExpectancyFigure, Sex } from '@shared/schema';
+import { formatNumber } from '@/lib/utils';
+import { REPORT_WIDTH, renderChartImage, renderLifeWeeksImage, renderReportPdf } from '@/lib/life-report';
+import { IMPACT_MODEL } from '@/lib/impact-model';
+
+// Where the numbers behind a result came from, for the methodology appendix
+export interface ReportSources {
+  lifeExpectancy: LifeExpectancyFigure | null; // Null when entered by hand
+  lifeTable: CountryLifeTable['source'];
+}
+
+// Analytics as computed for the Advanced Analytics card
+export interface ReportAnalytics {
+  trendAnalysis: {
+    activity: string;
+    currentHours: string;
+    trends: { change: number; analysis: TrendAnalysisResult }[];
+    color: string;
+  }[];
+  costBenefitAnalysis: {
+    from: string;
+    to: string;
+    analysis: CostBenefitResult;
+  }[];
+  lifePhaseOptimization: LifePhaseResult;
+}
+
+interface LifeReportButtonProps {
+  result: VisualizeResult;
+  birthdate: string;
+  countryName: string;
+  sex: Sex;
+  sexLabel: string;
+  activities: ActivityData[];
+  eras: LifeEraData[];
+  analytics: ReportAnalytics | null;
+  sources: ReportSources | null; // Null for shared results, which don't say
+}
+
+interface ReportImages {
+  weeks: { src: string; height: number };
+  pie: string;
+  projection: string;
+}
+
+const CHART_HEIGHT = 340;
+
+const LIFE_EXPECTANCY_INDICATORS: Record<Sex, string> = {
+  total: 'SP.DYN.LE00.IN',
+  female: 'SP.DYN.LE00.FE.IN',
+  male: 'SP.DYN.LE00.MA.IN'
+};
+
+/**
+ * Builds a paginated A4 PDF of the results in the browser: the report is rendered off screen,
+ * its charts redrawn at print resolution, then rasterised page by page
+ */
+export function LifeReportButton(props: LifeReportButtonProps) {
+  const { result } = props;
+  const { toast } = useToast();
+  const [images, setImages] = useState<ReportImages | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const startReport = () => {
+    const labels = result.futureProjections.map(p => p.concurrentWith ? `${p.activity} (while ${p.concurrentWith})` : p.activity);
+    setImages({
+      weeks: renderLifeWeeksImage(result.weeksLived, result.weeksTotal, REPORT_WIDTH),
+      pie: renderChartImage({
+        type: 'pie',
+        data: {
+          labels: result.activityStats.map(stat => stat.name),
+          datasets: [{
+            data: result.activityStats.map(stat => stat.percentage),
+            backgroundColor: result.activityStats.map(stat => stat.color),
+            borderWidth: 0
+          }]
+        },
+        options: { plugins: { legend: { position: 'right' } } }
+      }, REPORT_WIDTH, CHART_HEIGHT),
+      projection: renderChartImage({
+        type: 'bar',
+        data: {
+          labels,
+          datasets: [{
+            label: 'Years Spent So Far',
+            data: result.futureProjections.map(p => p.yearsSoFar),
+            backgroundColor: '#3B82F6'
+          }, {
+            label: 'Projected Remaining Years',
+            data: result.futureProjections.map(p => p.yearsRemaining),
+            backgroundColor: '#10B981'
+          }]
+        },
+        options: {
+          scales: { x: { grid: { display: false } }, y: { title: { display: true, text: 'Years' } } },
+          plugins: { legend: { position: 'top' } }
+        }
+      }, REPORT_WIDTH, CHART_HEIGHT)
+    });
+  };
+
+  // Once the off-screen report has rendered, rasterise it and download the PDF
+  useEffect(() => {
+    if (!images || !containerRef.current) return;
+    const container = containerRef.current;
+
+    const generate = async () => {
+      try {
+        await Promise.all(Array.from(container.querySelectorAll('img')).map(img => img.decode().catch(() => undefined)));
+        const pdf = await renderReportPdf(container, 'Life Report');
+        const url = URL.createObjectURL(pdf);
+        const link = document.createElement('a');
+        link.download = 'my-life-report.pdf';
+        link.href = url;
+        link.click();
+        URL.revokeObjectURL(url);
+        toast({
+          title: "Report ready",
+          description: "Your life report has been downloaded as a PDF.",
+        });
+      } catch (error) {
+        console.error("Report error:", error);
+        toast({
+          title: "Failed to create report",
+          description: error instanceof Error ? error.message : "Please try again later.",
+          variant: "destructive",
+        });
+      } finally {
+        setImages(null);
+      }
+    };
+
+    generate();
+  }, [images]);
+
+  return (
+    <>
+      <Button variant="outline" onClick={startReport} disabled={images !== null} data-testid="button-download-report">
+        <FileText className="w-4 h-4 mr-2" />
+        {images ? 'Preparing report...' : 'Download PDF Report'}
+      </Button>
+      {images && (
+        <div className="fixed top-0 left-[-10000px]" aria-hidden="true">
+          <div ref={containerRef}>
+            <LifeReportDocument {...props} images={images} />
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
+
+function LifeReportDocument({
+  result,
+  birthdate,
+  countryName,
+  sex,
+  sexLabel,
+  activities,
+  eras,
+  analytics,
+  sources,
+  images
+}: LifeReportButtonProps & { images: ReportImages }) {
+  const generatedOn = new Date().toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+  const costBenefit = analytics
+    ? [...analytics.costBenefitAnalysis].sort((a, b) => b.analysis.netImpact.timeValue - a.analysis.netImpact.timeValue)
+    : [];
+
+  return (
+    <div className="bg-white text-gray-900 text-sm leading-relaxed" style={{ width: REPORT_WIDTH }}>
+      <section data-report-block className="space-y-4 pb-2">
+        <div>
+          <h1 className="text-3xl font-bold">Your Life Report</h1>
+          <p className="text-gray-500">Generated {generatedOn}</p>
+        </div>
+        <div className="grid grid-cols-2 gap-x-8 gap-y-1">
+          <p><span className="text-gray-500">Born:</span> {birthdate}</p>
+          <p><span className="text-gray-500">Country:</span> {countryName}</p>
+          <p><span className="text-gray-500">Sex:</span> {sexLabel}</p>
+          <p><span className="text-gray-500">Age:</span> {result.age} years</p>
+          {result.lifeExpectancyAtBirth !== undefined && (
+            <p><span className="text-gray-500">Life expectancy at birth:</span> {result.lifeExpectancyAtBirth.toFixed(1)} years</p>
+          )}
+          <p><span className="text-gray-500">Expected age at death:</span> {result.lifeExpectancy.toFixed(1)} years</p>
+        </div>
+        <div className="grid grid-cols-3 gap-4">
+          {[
+            { label: 'Weeks lived', value: result.weeksLived },
+            { label: 'Weeks remaining', value: result.weeksRemaining },
+            { label: 'Weeks in total', value: result.weeksTotal }
+          ].map(stat => (
+            <div key={stat.label} className="rounded-lg border border-gray-200 p-3 text-center">
+              <div className="text-2xl font-bold text-blue-600">{formatNumber(stat.value)}</div>
+              <div className="text-xs text-gray-500">{stat.label}</div>
+            </div>
+          ))}
+        </div>
+      </section>
+
+      <section data-report-block className="space-y-2">
+        <h2 className="text-xl font-semibold">Life Timeline</h2>
+        <p className="text-gray-600">
+          Each column is a year of your expected life and each square a week; blue weeks are behind you.
+        </p>
+        <img src={images.weeks.src} alt="" style={{ width: REPORT_WIDTH, height: images.weeks.height }} />
+      </section>
+
+      <section data-report-block className="space-y-2">
+        <h2 className="text-xl font-semibold">Where Your Time Has Gone</h2>
+        <img src={images.pie} alt="" style={{ width: REPORT_WIDTH, height: CHART_HEIGHT }} />
+      </section>
+
+      <section data-report-block className="space-y-2">
+        <h2 className="text-xl font-semibold">Years So Far and Projected</h2>
+        <p className="text-gray-600">Remaining years are weighted by the chance of being alive to live them.</p>
+        <img src={images.projection} alt="" style={{ width: REPORT_WIDTH, height: CHART_HEIGHT }} />
+      </section>
+
+      <h2 data-report-block data-report-break className="text-xl font-semibold">Your Activities</h2>
+      {result.activityStats.map(stat => (
+        <section key={stat.name} data-report-block className="rounded-lg border border-gray-200 p-4 space-y-2">
+          <div className="flex items-center gap-2">
+            <span className="w-3 h-3 rounded-full" style={{ backgroundColor: stat.color }}></span>
+            <h3 className="font-semibold">{stat.name}</h3>
+            <span className="ml-auto font-semibold">{stat.years.toFixed(1)} years · {stat.percentage.toFixed(1)}% of your life</span>
+          </div>
+          {stat.concurrentWith && <p className="text-xs text-gray-500">Spent while {stat.concurrentWith}</p>}
+          <ul className="list-disc list-inside space-y-1 text-gray-700">
+            {stat.comparisons.map(comparison => <li key={comparison.text}>{comparison.text}</li>)}
+          </ul>
+        </section>
+      ))}
+
+      {analytics && (
+        <>
+          <h2 data-report-block data-report-break className="text-xl font-semibold">Trend Analysis</h2>
+          <p data-report-block className="text-gray-600">
+            How changing each activity by a little every day adds up over your remaining years.
+          </p>
+          {analytics.trendAnalysis.map(item => (
+            <section key={item.activity} data-report-block className="rounded-lg border border-gray-200 p-4 space-y-2">
+              <div className="flex items-center gap-2">
+                <span className="w-3 h-3 rounded-full" style={{ backgroundColor: item.color }}></span>
+                <h3 className="font-semibold">{item.activity}</h3>
+                <span className="text-gray-500">currently {item.currentHours}h/day</span>
+              </div>
+              <table className="w-full text-xs">
+                <tbody>
+                  {item.trends.map(trend => (
+                    <tr key={trend.change} className="border-t border-gray-100 align-top">
+                      <td className="py-1 pr-2 whitespace-nowrap font-medium">{trend.change > 0 ? '+' : ''}{trend.change}h/day</td>
+                      <td className="py-1 pr-2 whitespace-nowrap">
+                        {trend.analysis.compoundEffect > 0 ? '+' : ''}{trend.analysis.compoundEffect.toFixed(1)} years over lifetime
+                        <span className="block text-gray-500">
+                          80% range {trend.analysis.uncertainty.compoundEffect.low.toFixed(1)} to {trend.analysis.uncertainty.compoundEffect.high.toFixed(1)}
+                        </span>
+                      </td>
+                      <td className="py-1 text-gray-600">{trend.analysis.recommendations[0]}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+          ))}
+
+          <h2 data-report-block data-report-break className="text-xl font-semibold">Cost-Benefit Analysis</h2>
+          <p data-report-block className="text-gray-600">
+            Moving 30 minutes a day from one activity to another, best trades first.
+          </p>
+          {costBenefit.map(item => (
+            <section key={`${item.from}-${item.to}`} data-report-block className="rounded-lg border border-gray-200 p-4 space-y-1">
+              <div className="flex items-center justify-between">
+                <h3 className="font-semibold">-{item.from} → +{item.to}</h3>
+                <span className="text-xs text-gray-500">
+                  Time value {item.analysis.netImpact.timeValue.toFixed(0)}/100
+                  (80% range {item.analysis.uncertainty.timeValue.low.toFixed(0)} to {item.analysis.uncertainty.timeValue.high.toFixed(0)}),
+                  {' '}{item.analysis.netImpact.confidence} confidence
+                </span>
+              </div>
+              <p className="text-gray-700">{item.analysis.netImpact.recommendation}</p>
+              <p className="text-xs"><strong>Gain:</strong> {item.analysis.benefit.qualitativeImpact}</p>
+              <p className="text-xs"><strong>Cost:</strong> {item.analysis.opportunityCost.qualitativeImpact}</p>
+            </section>
+          ))}
+
+          <h2 data-report-block data-report-break className="text-xl font-semibold">Life Phases</h2>
+          <section data-report-block className="rounded-lg border border-blue-200 bg-blue-50 p-4 space-y-2">
+            <h3 className="font-semibold">Current phase: {analytics.lifePhaseOptimization.currentPhase}</h3>
+            <p>
+              Next phase: {analytics.lifePhaseOptimization.transitionPlanning.nextPhase} (in{' '}
+              {analytics.lifePhaseOptimization.transitionPlanning.timeToTransition.toFixed(0)} years)
+            </p>
+            <ul className="list-disc list-inside space-y-1">
+              {analytics.lifePhaseOptimization.transitionPlanning.preparationSteps.map(step => <li key={step}>{step}</li>)}
+            </ul>
+          </section>
+          {analytics.lifePhaseOptimization.recommendations.map(phase => (
+            <section key={phase.phase} data-report-block className="rounded-lg border border-gray-200 p-4 space-y-2">
+              <div>
+                <h3 className="font-semibold">{phase.phase}</h3>
+                <p className="text-xs text-gray-500">{phase.ageRange} · {phase.priority}</p>
+              </div>
+              <table className="w-full text-xs">
+                <tbody>
+                  {phase.suggestedAllocations.map(allocation => (
+                    <tr key={allocation.activity} className="border-t border-gray-100 align-top">
+                      <td className="py-1 pr-2 font-medium">{allocation.activity}</td>
+                      <td className="py-1 pr-2 whitespace-nowrap">{allocation.hours}h</td>
+                      <td className="py-1 text-gray-600">{allocation.reason}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="text-xs"><strong>Key focus:</strong> {phase.keyFocus.join(', ')}</p>
+            </section>
+          ))}
+        </>
+      )}
+
+      <h2 data-report-block data-report-break className="text-xl font-semibold">Appendix: Methodology</h2>
+      <section data-report-block className="space-y-3 text-gray-700">
+        <div>
+          <h3 className="font-semibold text-gray-900">Life expectancy</h3>
+          {sources?.lifeExpectancy ? (
+            <p>
+              Life expectancy at birth for {countryName} ({sources.lifeExpectancy.lifeExpectancy.toFixed(1)} years) is the
+              World Bank World Development Indicators estimate for {sources.lifeExpectancy.dataYear} (indicator{' '}
+              {LIFE_EXPECTANCY_INDICATORS[sex]}), {sources.lifeExpectancy.source === 'live'
+                ? 'fetched from the World Bank API'
+                : "taken from the app's bundled snapshot of World Bank data"}.
+            </p>
+          ) : sources ? (
+            <p>Life expectancy at birth was entered by hand.</p>
+          ) : (
+            <p>
+              This result was shared or saved without its data sources; life expectancy at birth was{' '}
+              {(result.lifeExpectancyAtBirth ?? result.lifeExpectancy).toFixed(1)} years.
+            </p>
+          )}
+        </div>
+        <div>
+          <h3 className="font-semibold text-gray-900">Survival and remaining years</h3>
+          <p>
+            {sources?.lifeTable === 'dataset'
+              ? `Remaining years use the published period life table for ${countryName}: the probability of dying at each age.`
+              : 'Remaining years use a model period life table (a Siler mortality curve) calibrated so that it reproduces the life expectancy at birth above.'}
+            {' '}Having survived to your age, your expected age at death is computed from that table, and every future
+            year counts only as much as the probability of being alive to live it.
+          </p>
+        </div>
+        <div>
+          <h3 className="font-semibold text-gray-900">Activities</h3>
+          <p>
+            Each activity's daily hours are averaged over the whole year, taking days per week, monthly or yearly
+            recurrence and active months into account, then multiplied by the days lived so far and the expected
+            days remaining. Activities done alongside another one count towards their own total without using up
+            any of the day. Free time is whatever no activity takes up.
+          </p>
+          {eras.length > 0 && (
+            <p className="mt-1">
+              Life eras replace your current activities for their age spans: {eras.map(era => `${era.name || 'Unnamed era'} (${era.startAge}–${era.endAge})`).join(', ')}.
+            </p>
+          )}
+          <p className="mt-1">
+            Current activities: {activities.map(activity => `${activity.name} ${activity.hours}h × ${activity.daysPerWeek} d/wk`).join(', ')}.
+          </p>
+        </div>
+        <div>
+          <h3 className="font-semibold text-gray-900">Comparisons and analytics</h3>
+          <p>
+            Comparisons, cost-benefit and life-phase figures come from rules of thumb built into the app. Trend
+            and health-optimization figures come from impact model v{IMPACT_MODEL.version}, whose effects follow
+            published studies on exercise, sleep, work and social ties, with sizes calibrated by the app.
+            Ranges are the middle 80% of {IMPACT_MODEL.uncertainty.samples} simulations that vary the model's
+            coefficients and life expectancy; confidence is how often the simulations agree a trade helps or hurts.
+            They are meant to prompt reflection and are not medical, financial or professional advice.
+          </p>
+        </div>
+      </section>
+    </div>
+  );
+}
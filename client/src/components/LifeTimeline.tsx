@@ -5,6 +5,7 @@ import { formatNumber } from '@/lib/utils';
 interface LifeTimelineProps {
   age: number;
   lifeExpectancy: number;
+  lifeExpectancyAtBirth?: number;
   weeksLived: number;
   weeksTotal: number;
   weeksRemaining: number;
@@ -17,6 +18,7 @@ interface LifeTimelineProps {
 export function LifeTimeline({
   age,
   lifeExpectancy,
+  lifeExpectancyAtBirth,
   weeksLived,
   weeksTotal,
   weeksRemaining,
@@ -33,6 +35,11 @@ export function LifeTimeline({
       <h3 className="text-lg font-semibold mb-4">Life Timeline</h3>
       <p className="text-gray-600 dark:text-gray-300 mb-4">
         You have approximately <span className="font-semibold text-primary">{formatNumber(weeksRemaining)} weeks</span> remaining in your life.
+        {lifeExpectancyAtBirth !== undefined && lifeExpectancy > lifeExpectancyAtBirth && (
+          <span className="block text-xs text-muted-foreground mt-1">
+            Having reached {age}, you can expect to live to about {lifeExpectancy.toFixed(1)}, beyond the {lifeExpectancyAtBirth}-year expectancy at birth.
+          </span>
+        )}
       </p>
       
       <div className="bg-white dark:bg-gray-800 p-6 rounded-lg border border-gray-200 dark:border-gray-700">
@@ -88,7 +95,7 @@ export function LifeTimeline({
             
             <div className="flex flex-col items-center">
               <div className="h-3 w-1 bg-gray-400 dark:bg-gray-500"></div>
-              <span className="text-xs text-gray-500 dark:text-gray-400 mt-1">{lifeExpectancy} years</span>
+              <span className="text-xs text-gray-500 dark:text-gray-400 mt-1">{lifeExpectancy.toFixed(1)} years</span>
             </div>
           </div>
         </div>
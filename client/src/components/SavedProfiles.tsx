@@ -0,0 +1,392 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { FolderOpen, Save, Trash2, ChevronLeft, ChevronRight, Link2, Link2Off } from 'lucide-react';
+import type { Activity, LifeEra, Sex, UserLifeData, UserLifeDataPage } from '@shared/schema';
+import { activityCategoryOf } from '@shared/activity-categories';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { ActivityData, LifeEraData, VisualizeResult } from '@/types';
+import { getActivityIcon } from '@/lib/utils';
+
+const PAGE_SIZE = 5;
+
+const SHARE_EXPIRY_OPTIONS = [
+  { value: 'never', label: 'Never expires' },
+  { value: '7', label: 'Expires in 7 days' },
+  { value: '30', label: 'Expires in 30 days' },
+];
+
+export interface ProfileSnapshot {
+  birthdate: string;
+  countryCode: string;
+  sex: Sex;
+  activities: ActivityData[];
+  eras: LifeEraData[];
+  result?: VisualizeResult | null;
+}
+
+export const getShareUrl = (shareSlug: string) => `${window.location.origin}/s/${shareSlug}`;
+
+// Stored activities may omit icon/color, the form always has them
+export const toActivityData = (activities: Activity[]): ActivityData[] =>
+  activities.map(activity => ({
+    ...activity,
+    icon: activity.icon || getActivityIcon(activity.name, activityCategoryOf(activity)),
+    color: activity.color || '#3B82F6'
+  }));
+
+export const toLifeEraData = (eras: LifeEra[]): LifeEraData[] =>
+  eras.map(era => ({ ...era, activities: toActivityData(era.activities) }));
+
+const isShareActive = (profile: UserLifeData) =>
+  !!profile.shareSlug && (!profile.shareExpiresAt || new Date(profile.shareExpiresAt).getTime() > Date.now());
+
+interface SavedProfilesProps {
+  getCurrentProfile: () => ProfileSnapshot | null;
+  onLoadProfile: (profile: ProfileSnapshot) => void;
+}
+
+// Refetch every page of the list after a save, update or delete
+const invalidateProfileList = () =>
+  queryClient.invalidateQueries({
+    predicate: (query) => String(query.queryKey[0]).startsWith('/api/life-data?')
+  });
+
+export function SavedProfiles({ getCurrentProfile, onLoadProfile }: SavedProfilesProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [page, setPage] = useState(1);
+  const [profileName, setProfileName] = useState('');
+  const [loadedProfileId, setLoadedProfileId] = useState<number | null>(null);
+  const [shareExpiry, setShareExpiry] = useState('never');
+
+  const { data, isLoading } = useQuery<UserLifeDataPage>({
+    queryKey: [`/api/life-data?page=${page}&pageSize=${PAGE_SIZE}`, user?.id],
+    enabled: !!user,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, snapshot }: { id: number | null; snapshot: ProfileSnapshot }) => {
+      const payload = {
+        name: profileName.trim() || null,
+        birthdate: snapshot.birthdate,
+        countryCode: snapshot.countryCode,
+        sex: snapshot.sex,
+        activities: snapshot.activities,
+        eras: snapshot.eras,
+        result: snapshot.result ? JSON.stringify(snapshot.result) : undefined,
+      };
+      const now = new Date().toISOString();
+      const res = id === null
+        ? await apiRequest('POST', '/api/life-data', { ...payload, createdAt: now, updatedAt: now })
+        : await apiRequest('PUT', `/api/life-data/${id}`, payload);
+      const body = await res.json();
+      return body.data as UserLifeData;
+    },
+    onSuccess: (saved, { id }) => {
+      setLoadedProfileId(saved.id);
+      invalidateProfileList();
+      toast({
+        title: id === null ? "Profile saved" : "Profile updated",
+        description: "You can load it again from My Saved Profiles.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save profile",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/life-data/${id}`);
+    },
+    onSuccess: (_result, id) => {
+      if (loadedProfileId === id) {
+        setLoadedProfileId(null);
+      }
+      // Step back a page if we just removed the last item on this one
+      if (data && data.items.length === 1 && page > 1) {
+        setPage(page - 1);
+      }
+      invalidateProfileList();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to delete profile",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copyShareLink = async (shareSlug: string) => {
+    const url = getShareUrl(shareSlug);
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({
+        title: "Share link copied",
+        description: url,
+      });
+    } catch (error) {
+      toast({
+        title: "Share link",
+        description: url,
+      });
+    }
+  };
+
+  const shareMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const body = shareExpiry === 'never' ? {} : { expiresInDays: parseInt(shareExpiry) };
+      const res = await apiRequest('POST', `/api/life-data/${id}/share`, body);
+      const json = await res.json();
+      return json.data as UserLifeData;
+    },
+    onSuccess: (profile) => {
+      invalidateProfileList();
+      if (profile.shareSlug) {
+        copyShareLink(profile.shareSlug);
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to create share link",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/life-data/${id}/share`);
+    },
+    onSuccess: () => {
+      invalidateProfileList();
+      toast({
+        title: "Share link revoked",
+        description: "Anyone with the old link can no longer view this profile.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to revoke share link",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!user) return null;
+
+  const handleSave = (asNew: boolean) => {
+    const snapshot = getCurrentProfile();
+    if (!snapshot) {
+      toast({
+        title: "Nothing to save yet",
+        description: "Enter your birthdate and country before saving a profile.",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveMutation.mutate({ id: asNew ? null : loadedProfileId, snapshot });
+  };
+
+  const handleLoad = (profile: UserLifeData) => {
+    onLoadProfile({
+      birthdate: profile.birthdate,
+      countryCode: profile.countryCode,
+      sex: profile.sex ?? 'total',
+      activities: toActivityData(profile.activities),
+      eras: toLifeEraData(profile.eras ?? []),
+    });
+    setLoadedProfileId(profile.id);
+    setProfileName(profile.name ?? '');
+  };
+
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1;
+
+  return (
+    <div className="p-4 bg-gray-50 dark:bg-gray-800/50 border border-gray-200 dark:border-gray-700 rounded-lg space-y-3" data-testid="panel-saved-profiles">
+      <div className="flex items-center gap-2">
+        <FolderOpen className="h-4 w-4 text-primary" />
+        <h4 className="font-medium">My Saved Profiles</h4>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Input
+          value={profileName}
+          onChange={(e) => setProfileName(e.target.value)}
+          placeholder="Profile name (optional)"
+          className="flex-1"
+          data-testid="input-profile-name"
+        />
+        {loadedProfileId !== null && (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => handleSave(false)}
+            disabled={saveMutation.isPending}
+            data-testid="button-update-profile"
+          >
+            Update
+          </Button>
+        )}
+        <Button
+          type="button"
+          size="sm"
+          onClick={() => handleSave(true)}
+          disabled={saveMutation.isPending}
+          data-testid="button-save-profile"
+        >
+          <Save className="h-4 w-4 mr-1" />
+          {loadedProfileId !== null ? 'Save as New' : 'Save'}
+        </Button>
+      </div>
+
+      <Select value={shareExpiry} onValueChange={setShareExpiry}>
+        <SelectTrigger className="h-8 text-xs" data-testid="select-share-expiry">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {SHARE_EXPIRY_OPTIONS.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading saved profiles...</p>
+      ) : !data || data.items.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No saved profiles yet.</p>
+      ) : (
+        <ul className="space-y-2">
+          {data.items.map((profile) => (
+            <li
+              key={profile.id}
+              className={`flex items-center justify-between gap-2 p-2 rounded-md border ${
+                profile.id === loadedProfileId
+                  ? 'border-blue-300 dark:border-blue-600 bg-blue-50 dark:bg-blue-900/20'
+                  : 'border-gray-200 dark:border-gray-700'
+              }`}
+              data-testid={`saved-profile-${profile.id}`}
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-medium truncate">
+                  {profile.name || `Born ${profile.birthdate} · ${profile.countryCode}`}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Saved {new Date(profile.createdAt).toLocaleDateString()}
+                </p>
+              </div>
+              <div className="flex items-center gap-1 flex-shrink-0">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleLoad(profile)}
+                  data-testid={`button-load-profile-${profile.id}`}
+                >
+                  Load
+                </Button>
+                {!profile.result ? null : isShareActive(profile) ? (
+                  <>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-1"
+                      onClick={() => copyShareLink(profile.shareSlug!)}
+                      aria-label="Copy share link"
+                      title={profile.shareExpiresAt ? `Link expires ${new Date(profile.shareExpiresAt).toLocaleDateString()}` : 'Copy share link'}
+                      data-testid={`button-copy-share-${profile.id}`}
+                    >
+                      <Link2 className="h-4 w-4 text-primary" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-1 text-muted-foreground"
+                      onClick={() => revokeMutation.mutate(profile.id)}
+                      disabled={revokeMutation.isPending}
+                      aria-label="Revoke share link"
+                      title="Revoke share link"
+                      data-testid={`button-revoke-share-${profile.id}`}
+                    >
+                      <Link2Off className="h-4 w-4" />
+                    </Button>
+                  </>
+                ) : (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => shareMutation.mutate(profile.id)}
+                    disabled={shareMutation.isPending}
+                    data-testid={`button-share-profile-${profile.id}`}
+                  >
+                    Share
+                  </Button>
+                )}
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-1 text-muted-foreground hover:text-destructive"
+                  onClick={() => deleteMutation.mutate(profile.id)}
+                  disabled={deleteMutation.isPending}
+                  aria-label="Delete profile"
+                  data-testid={`button-delete-profile-${profile.id}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {data && data.total > data.pageSize && (
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => setPage(page - 1)}
+            disabled={page <= 1}
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span>Page {page} of {totalPages}</span>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => setPage(page + 1)}
+            disabled={page >= totalPages}
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Slider } from '@/components/ui/slider';
+import { ActivityData } from '@/types';
+import { isWeeklyActivity } from '@/lib/utils';
+import {
+  SCHEDULE_FLEX_HOURS,
+  SCHEDULE_GOALS,
+  defaultScheduleConstraints,
+  optimizeSchedule,
+  scheduleBounds,
+  scheduleDayBounds,
+  type ScheduleConstraint,
+  type ScheduleGoal,
+  type ScheduleGoalWeights
+} from '@/hooks/useLifeProjections';
+
+interface ScheduleOptimizerProps {
+  activities: ActivityData[];
+  currentAge: number;
+  lifeExpectancy: number;
+  // Receives the full activity list with the recommended hours and days
+  onApply: (activities: ActivityData[]) => void;
+}
+
+const DEFAULT_GOALS: ScheduleGoalWeights = { health: 50, career: 50, relationships: 50 };
+
+const formatChange = (hours: number) => `${hours > 0 ? '+' : ''}${hours.toFixed(2)}h`;
+
+export function ScheduleOptimizer({ activities, currentAge, lifeExpectancy, onApply }: ScheduleOptimizerProps) {
+  const [goals, setGoals] = useState<ScheduleGoalWeights>(DEFAULT_GOALS);
+  const [constraints, setConstraints] = useState<Record<string, ScheduleConstraint>>(() => defaultScheduleConstraints(activities));
+
+  const result = useMemo(
+    () => optimizeSchedule(activities, constraints, goals, currentAge, lifeExpectancy),
+    [activities, constraints, goals, currentAge, lifeExpectancy]
+  );
+  const changed = result.allocations.filter(allocation =>
+    Math.abs(allocation.recommendedHours - allocation.currentHours) >= 0.01 || allocation.recommendedDays !== allocation.daysPerWeek
+  );
+  const improvement = result.currentScore > 0 ? (result.recommendedScore / result.currentScore - 1) * 100 : 0;
+
+  const setGoal = (goal: ScheduleGoal, weight: number) => setGoals({ ...goals, [goal]: weight });
+
+  // An empty field falls back to the default room around today's hours, or to today's days
+  const setLimit = (activityId: string, limit: keyof ScheduleConstraint, value: string) => {
+    const isDays = limit === 'minDays' || limit === 'maxDays';
+    const parsed = value === ''
+      ? undefined
+      : isDays
+        ? Math.min(7, Math.max(1, Math.round(parseFloat(value) || 1)))
+        : Math.min(24, Math.max(0, parseFloat(value) || 0));
+    setConstraints({ ...constraints, [activityId]: { ...constraints[activityId], [limit]: parsed } });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="text-sm text-gray-600 dark:text-gray-400">
+        Finds the best way to share the hours your activities take today between them, within the limits you set,
+        for the goals you care about. Empty hour limits allow {SCHEDULE_FLEX_HOURS} hours either side of today, and
+        empty day limits keep today's days a week.
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        {SCHEDULE_GOALS.map(goal => (
+          <div key={goal.id} className="space-y-2" data-testid={`goal-${goal.id}`}>
+            <div className="flex items-center justify-between text-sm font-medium">
+              <span><i className={`fas ${goal.icon} mr-2 text-gray-500`}></i>{goal.label}</span>
+              <span className="text-gray-500">{goals[goal.id]}</span>
+            </div>
+            <Slider
+              value={[goals[goal.id]]}
+              min={0}
+              max={100}
+              step={10}
+              onValueChange={([weight]) => setGoal(goal.id, weight)}
+              data-testid={`slider-goal-${goal.id}`}
+            />
+          </div>
+        ))}
+      </div>
+
+      {!result.feasible && (
+        <div className="text-sm rounded-md border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20 p-3" data-testid="schedule-infeasible">
+          These limits can't all hold within the {result.dailyHours.toFixed(1)} hours a day your activities take now,
+          so this is the closest schedule.
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-500 dark:text-gray-400">
+              <th className="py-2 pr-2 font-medium">Activity</th>
+              <th className="py-2 pr-2 font-medium">Limits (h/day, days/week)</th>
+              <th className="py-2 pr-2 font-medium">Today</th>
+              <th className="py-2 pr-2 font-medium">Recommended</th>
+              <th className="py-2 font-medium">Change a day</th>
+            </tr>
+          </thead>
+          <tbody>
+            {result.allocations.map(allocation => {
+              const activity = activities.find(candidate => candidate.id === allocation.activityId)!;
+              const defaults = scheduleBounds(activity);
+              const defaultDays = scheduleDayBounds(activity);
+              const constraint = constraints[allocation.activityId] ?? {};
+              return (
+                <tr key={allocation.activityId} className="border-t border-gray-100 dark:border-gray-800" data-testid={`schedule-row-${allocation.activityId}`}>
+                  <td className="py-2 pr-2">
+                    <div className="font-medium">{allocation.activity}</div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      {isWeeklyActivity(activity) ? `${allocation.daysPerWeek} days a week` : 'On its active days'}
+                    </div>
+                  </td>
+                  <td className="py-2 pr-2">
+                    <div className="flex items-center gap-1">
+                      <Input
+                        type="number"
+                        min="0"
+                        max="24"
+                        step="0.5"
+                        value={constraint.minHours ?? ''}
+                        placeholder={defaults.minHours.toFixed(1)}
+                        onChange={(e) => setLimit(allocation.activityId, 'minHours', e.target.value)}
+                        className="h-8 w-16 text-center text-sm"
+                        aria-label={`Minimum hours for ${allocation.activity}`}
+                        data-testid={`input-schedule-min-${allocation.activityId}`}
+                      />
+                      <span className="text-gray-400">–</span>
+                      <Input
+                        type="number"
+                        min="0"
+                        max="24"
+                        step="0.5"
+                        value={constraint.maxHours ?? ''}
+                        placeholder={defaults.maxHours.toFixed(1)}
+                        onChange={(e) => setLimit(allocation.activityId, 'maxHours', e.target.value)}
+                        className="h-8 w-16 text-center text-sm"
+                        aria-label={`Maximum hours for ${allocation.activity}`}
+                        data-testid={`input-schedule-max-${allocation.activityId}`}
+                      />
+                    </div>
+                    {isWeeklyActivity(activity) && (
+                      <div className="flex items-center gap-1 mt-1">
+                        <Input
+                          type="number"
+                          min="1"
+                          max="7"
+                          step="1"
+                          value={constraint.minDays ?? ''}
+                          placeholder={String(defaultDays.minDays)}
+                          onChange={(e) => setLimit(allocation.activityId, 'minDays', e.target.value)}
+                          className="h-8 w-16 text-center text-sm"
+                          aria-label={`Minimum days a week for ${allocation.activity}`}
+                          data-testid={`input-schedule-min-days-${allocation.activityId}`}
+                        />
+                        <span className="text-gray-400">–</span>
+                        <Input
+                          type="number"
+                          min="1"
+                          max="7"
+                          step="1"
+                          value={constraint.maxDays ?? ''}
+                          placeholder={String(defaultDays.maxDays)}
+                          onChange={(e) => setLimit(allocation.activityId, 'maxDays', e.target.value)}
+                          className="h-8 w-16 text-center text-sm"
+                          aria-label={`Maximum days a week for ${allocation.activity}`}
+                          data-testid={`input-schedule-max-days-${allocation.activityId}`}
+                        />
+                        <span className="text-xs text-gray-500">days</span>
+                      </div>
+                    )}
+                  </td>
+                  <td className="py-2 pr-2">
+                    {allocation.currentHours.toFixed(2)}h
+                    {isWeeklyActivity(activity) && <div className="text-xs text-gray-500">× {allocation.daysPerWeek} days</div>}
+                  </td>
+                  <td className="py-2 pr-2 font-semibold">
+                    {allocation.recommendedHours.toFixed(2)}h
+                    {isWeeklyActivity(activity) && <div className="text-xs font-normal text-gray-500">× {allocation.recommendedDays} days</div>}
+                  </td>
+                  <td className={`py-2 ${
+                    allocation.dailyChange > 0.005 ? 'text-green-600 dark:text-green-400'
+                      : allocation.dailyChange < -0.005 ? 'text-red-600 dark:text-red-400'
+                      : 'text-gray-500'
+                  }`}>
+                    {Math.abs(allocation.dailyChange) > 0.005 ? formatChange(allocation.dailyChange) : 'No change'}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="text-sm text-gray-600 dark:text-gray-400" data-testid="schedule-score">
+          {changed.length === 0
+            ? "Today's schedule already suits these goals and limits."
+            : `${changed.length} ${changed.length === 1 ? 'activity changes' : 'activities change'}, scoring ${improvement.toFixed(0)}% higher on your goals.`}
+        </div>
+        <Button
+          type="button"
+          onClick={() => onApply(result.activities)}
+          disabled={changed.length === 0}
+          data-testid="button-apply-schedule"
+        >
+          Use this schedule
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import { useEffect, useRef } from 'react';
+import Chart from 'chart.js/auto';
+import type { SurvivalDistribution } from '@shared/life-table';
+
+interface SurvivalCurveProps {
+  age: number;
+  survival: SurvivalDistribution;
+}
+
+export function SurvivalCurve({ age, survival }: SurvivalCurveProps) {
+  const chartRef = useRef<HTMLCanvasElement | null>(null);
+  const chartInstance = useRef<Chart | null>(null);
+
+  useEffect(() => {
+    if (!chartRef.current) return;
+
+    const labels = survival.curve.map(point => point.age);
+    const data = survival.curve.map(point => point.probability * 100);
+
+    // Update in place so the curve animates when the inputs change
+    if (chartInstance.current) {
+      chartInstance.current.data.labels = labels;
+      chartInstance.current.data.datasets[0].data = data;
+      chartInstance.current.update('active');
+      return;
+    }
+
+    const ctx = chartRef.current.getContext('2d');
+    if (!ctx) return;
+
+    chartInstance.current = new Chart(ctx, {
+      type: 'line',
+      data: {
+        labels,
+        datasets: [{
+          label: 'Chance of being alive',
+          data,
+          borderColor: '#8B5CF6',
+          backgroundColor: 'rgba(139, 92, 246, 0.15)',
+          fill: true,
+          pointRadius: 0,
+          tension: 0.2
+        }]
+      },
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        animation: {
+          duration: 750,
+          easing: 'easeInOutQuart'
+        },
+        scales: {
+          x: {
+            title: {
+              display: true,
+              text: 'Age'
+            },
+            ticks: {
+              maxTicksLimit: 10
+            },
+            grid: {
+              display: false
+            }
+          },
+          y: {
+            min: 0,
+            max: 100,
+            title: {
+              display: true,
+              text: 'Chance of being alive (%)'
+            }
+          }
+        },
+        plugins: {
+          legend: {
+            display: false
+          },
+          tooltip: {
+            callbacks: {
+              title: (items) => `Age ${items[0].label}`,
+              label: (item) => `${(item.parsed.y ?? 0).toFixed(1)}% chance of being alive`
+            }
+          }
+        }
+      }
+    });
+  }, [survival]);
+
+  // Release the canvas when the results are hidden
+  useEffect(() => () => {
+    chartInstance.current?.destroy();
+    chartInstance.current = null;
+  }, []);
+
+  return (
+    <div className="flex flex-col">
+      <p className="text-gray-600 dark:text-gray-300 mb-4 text-sm">
+        Nobody knows their exact lifespan. Of people who are {age} today with your life expectancy,
+        half live past <span className="font-semibold text-primary">{survival.median.toFixed(1)}</span>,
+        1 in 10 dies before <span className="font-semibold">{survival.percentile10.toFixed(1)}</span> and
+        1 in 10 lives beyond <span className="font-semibold">{survival.percentile90.toFixed(1)}</span>.
+      </p>
+      <div className="grid grid-cols-3 gap-2 sm:gap-4 mb-4 text-center">
+        <div className="rounded-lg bg-gray-50 dark:bg-gray-800 p-2 sm:p-3">
+          <div className="text-lg sm:text-xl font-bold">{survival.percentile10.toFixed(1)}</div>
+          <div className="text-xs text-gray-500 dark:text-gray-400">10th percentile</div>
+        </div>
+        <div className="rounded-lg bg-purple-50 dark:bg-purple-900/30 p-2 sm:p-3">
+          <div className="text-lg sm:text-xl font-bold text-purple-600 dark:text-purple-400">{survival.median.toFixed(1)}</div>
+          <div className="text-xs text-gray-500 dark:text-gray-400">Median age at death</div>
+        </div>
+        <div className="rounded-lg bg-gray-50 dark:bg-gray-800 p-2 sm:p-3">
+          <div className="text-lg sm:text-xl font-bold">{survival.percentile90.toFixed(1)}</div>
+          <div className="text-xs text-gray-500 dark:text-gray-400">90th percentile</div>
+        </div>
+      </div>
+      <div className="h-48 sm:h-64 relative">
+        <canvas ref={chartRef} className="w-full h-full" data-testid="chart-survival-curve"></canvas>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,296 @@
+import { useMemo, useState } from 'react';
+import { Upload } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { ActivityData } from '@/types';
+import { calculateEffectiveDailyHours, getActivityIcon, getRandomColorHex } from '@/lib/utils';
+import { parseTimeExport, summarizeTimeEntries, type ImportWindow, type TimeEntry } from '@/lib/time-import';
+
+export type ImportMode = 'replace' | 'merge';
+
+interface TimeTrackingImportProps {
+  activities: ActivityData[];
+  // Receives the full activity list after the import, and whether it replaced or merged into the current one
+  onImport: (activities: ActivityData[], mode: ImportMode) => void;
+}
+
+// Mapping targets besides an existing activity's id
+const NEW_ACTIVITY = 'new';
+const SKIP = 'skip';
+
+// Periods recurring calendar events can be averaged over, relative to today
+const CALENDAR_WINDOWS: Record<string, { label: string; weeksBefore: number; weeksAfter: number }> = {
+  past4: { label: 'Last 4 weeks', weeksBefore: 4, weeksAfter: 0 },
+  past12: { label: 'Last 12 weeks', weeksBefore: 12, weeksAfter: 0 },
+  past26: { label: 'Last 6 months', weeksBefore: 26, weeksAfter: 0 },
+  past52: { label: 'Last year', weeksBefore: 52, weeksAfter: 0 },
+  next12: { label: 'Next 12 weeks', weeksBefore: 0, weeksAfter: 12 },
+};
+
+function toImportWindow(key: string): ImportWindow {
+  const { weeksBefore, weeksAfter } = CALENDAR_WINDOWS[key];
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const start = new Date(today);
+  start.setDate(start.getDate() - weeksBefore * 7);
+  const end = new Date(today);
+  end.setDate(end.getDate() + weeksAfter * 7);
+  return { start, end };
+}
+
+export function TimeTrackingImport({ activities, onImport }: TimeTrackingImportProps) {
+  const [open, setOpen] = useState(false);
+  const [files, setFiles] = useState<{ name: string; content: string }[]>([]);
+  const [windowKey, setWindowKey] = useState('past12');
+  const [targets, setTargets] = useState<Record<string, string>>({});
+  const [newNames, setNewNames] = useState<Record<string, string>>({});
+
+  const reset = () => {
+    setFiles([]);
+    setTargets({});
+    setNewNames({});
+  };
+
+  // Files are read and parsed locally; nothing is uploaded
+  const readFiles = async (fileList: FileList | null) => {
+    if (!fileList || fileList.length === 0) return;
+    const read = await Promise.all(Array.from(fileList).map(async file => ({ name: file.name, content: await file.text() })));
+    setFiles(read);
+    setTargets({});
+    setNewNames({});
+  };
+
+  // Reparsed when the calendar window changes, since recurring events expand over it
+  const { formats, errors, categories, hasCalendar } = useMemo(() => {
+    const period = toImportWindow(windowKey);
+    const entries: TimeEntry[] = [];
+    const parsedFormats: string[] = [];
+    const fileErrors: string[] = [];
+    const coveredDays: (number | undefined)[] = [];
+    for (const file of files) {
+      try {
+        const result = parseTimeExport(file.content, period);
+        coveredDays.push(result.coveredDays);
+        parsedFormats.push(`${file.name} (${result.format})`);
+        if (result.entries.length === 0) {
+          fileErrors.push(`${file.name}: no time entries found${result.coveredDays ? ' in the chosen period' : ''}`);
+          continue;
+        }
+        entries.push(...result.entries);
+      } catch (error) {
+        fileErrors.push(`${file.name}: ${error instanceof Error ? error.message : 'could not be read'}`);
+      }
+    }
+
+    // A calendar window only sets the averaging period when every file is a calendar
+    const allCalendars = coveredDays.length > 0 && coveredDays.every(days => days !== undefined);
+    return {
+      formats: parsedFormats,
+      errors: fileErrors,
+      categories: summarizeTimeEntries(entries, allCalendars ? coveredDays[0] : undefined),
+      hasCalendar: coveredDays.some(days => days !== undefined)
+    };
+  }, [files, windowKey]);
+
+  // Categories that share a name with an existing activity map onto it by default
+  const targetFor = (category: string) => {
+    if (targets[category]) return targets[category];
+    const match = activities.find(activity => activity.name.trim().toLowerCase() === category.toLowerCase());
+    return match ? match.id : NEW_ACTIVITY;
+  };
+
+  // Categories mapped to the same activity add up their weekly hours
+  const buildActivities = (): ActivityData[] => {
+    const merged = new Map<string, { base: ActivityData; weeklyHours: number; daysPerWeek: number }>();
+    for (const category of categories) {
+      const target = targetFor(category.category);
+      if (target === SKIP) continue;
+
+      const name = (newNames[category.category] ?? category.category).trim() || category.category;
+      const existing = activities.find(activity => activity.id === target);
+      const key = existing ? existing.id : `new:${name.toLowerCase()}`;
+      const entry = merged.get(key) ?? {
+        base: existing ?? { id: uuidv4(), name, hours: 0, daysPerWeek: 7, icon: getActivityIcon(name), color: getRandomColorHex() },
+        weeklyHours: 0,
+        daysPerWeek: 1
+      };
+      entry.weeklyHours += category.hours * category.daysPerWeek;
+      entry.daysPerWeek = Math.max(entry.daysPerWeek, category.daysPerWeek);
+      merged.set(key, entry);
+    }
+
+    return Array.from(merged.values()).map(({ base, weeklyHours, daysPerWeek }) => ({
+      id: base.id,
+      name: base.name,
+      icon: base.icon,
+      color: base.color,
+      category: base.category,
+      hours: Math.round(Math.min(24, weeklyHours / daysPerWeek) * 10) / 10,
+      daysPerWeek
+    }));
+  };
+
+  const imported = buildActivities();
+  const importedDailyHours = calculateEffectiveDailyHours(imported);
+
+  // Merging updates mapped activities in place and appends new ones, keeping everything else
+  const applyImport = (mode: ImportMode) => {
+    if (mode === 'replace') {
+      onImport(imported, mode);
+    } else {
+      const updates = new Map(imported.map(activity => [activity.id, activity]));
+      const kept = activities.map(activity => updates.get(activity.id) ?? activity);
+      const added = imported.filter(activity => !activities.some(existing => existing.id === activity.id));
+      onImport([...kept, ...added], mode);
+    }
+    setOpen(false);
+    reset();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => { setOpen(isOpen); if (!isOpen) reset(); }}>
+      <DialogTrigger asChild>
+        <Button type="button" variant="outline" size="sm" data-testid="button-import-time-tracking">
+          <Upload className="h-4 w-4 mr-1" />
+          Import time tracking or calendar
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Time Tracking Data</DialogTitle>
+          <DialogDescription>
+            Use exports from Toggl, Clockify or RescueTime (CSV), Apple Health (export.xml), Google Fit
+            (sessions JSON) or a calendar (.ics), or any CSV/JSON with a category, date and duration. Files
+            are read in your browser and never uploaded.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Input
+          type="file"
+          accept=".csv,.json,.xml,.ics,text/csv,application/json,text/xml,text/calendar"
+          multiple
+          onChange={(e) => readFiles(e.target.files)}
+          data-testid="input-time-tracking-files"
+        />
+
+        {hasCalendar && (
+          <div className="flex items-center gap-2 text-sm">
+            <span className="text-muted-foreground">Average calendar events over</span>
+            <Select value={windowKey} onValueChange={setWindowKey}>
+              <SelectTrigger className="h-8 w-40 text-xs" data-testid="select-calendar-window">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(CALENDAR_WINDOWS).map(([key, { label }]) => (
+                  <SelectItem key={key} value={key}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {formats.length > 0 && (
+          <p className="text-xs text-muted-foreground">Read {formats.join(', ')}</p>
+        )}
+        {errors.length > 0 && (
+          <div className="text-xs text-red-500">
+            {errors.map(error => <p key={error}>{error}</p>)}
+          </div>
+        )}
+
+        {categories.length > 0 && (
+          <div className="space-y-2" data-testid="import-mapping-review">
+            <div className="grid grid-cols-[1fr_auto_12rem] gap-2 text-xs font-medium text-muted-foreground">
+              <span>Tracked category</span>
+              <span>Average</span>
+              <span>Becomes</span>
+            </div>
+            {categories.map(category => {
+              const target = targetFor(category.category);
+              return (
+                <div key={category.category} className="grid grid-cols-[1fr_auto_12rem] gap-2 items-center text-sm">
+                  <div className="min-w-0">
+                    <div className="truncate font-medium">{category.category}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {category.totalHours.toFixed(1)} h over {category.activeDays} {category.activeDays === 1 ? 'day' : 'days'}
+                    </div>
+                  </div>
+                  <span className="text-xs text-muted-foreground whitespace-nowrap">
+                    {category.hours} h × {category.daysPerWeek} d/wk
+                  </span>
+                  <div className="space-y-1">
+                    <Select
+                      value={target}
+                      onValueChange={(value) => setTargets({ ...targets, [category.category]: value })}
+                    >
+                      <SelectTrigger className="h-8 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NEW_ACTIVITY}>New activity</SelectItem>
+                        {activities.filter(activity => activity.name.trim()).map(activity => (
+                          <SelectItem key={activity.id} value={activity.id}>{activity.name}</SelectItem>
+                        ))}
+                        <SelectItem value={SKIP}>Skip</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    {target === NEW_ACTIVITY && (
+                      <Input
+                        value={newNames[category.category] ?? category.category}
+                        onChange={(e) => setNewNames({ ...newNames, [category.category]: e.target.value })}
+                        className="h-8 text-xs"
+                        placeholder="Activity name"
+                      />
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+            <p className={`text-xs ${importedDailyHours > 24 ? 'text-red-500' : 'text-muted-foreground'}`}>
+              The imported activities take {importedDailyHours.toFixed(1)}/24 hours a day on average.
+              Adding them updates the activities they are mapped to and keeps the rest; replacing
+              removes anything not mapped here.
+            </p>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => applyImport('replace')}
+            disabled={imported.length === 0}
+            data-testid="button-replace-import"
+          >
+            Replace activities
+          </Button>
+          <Button
+            type="button"
+            onClick={() => applyImport('merge')}
+            disabled={imported.length === 0}
+            data-testid="button-merge-import"
+          >
+            Add to current activities
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
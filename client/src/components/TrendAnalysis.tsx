@@ -1,4 +1,7 @@
+import { useState } from 'react';
 import { TrendAnalysisResult } from '@/hooks/useLifeProjections';
+import { ImpactCitation } from '@/components/ImpactCitation';
+import type { ProjectionRange } from '@/lib/impact-model';
 
 interface TrendItem {
   activity: string;
@@ -27,52 +30,115 @@ export function TrendAnalysis({ trendData }: TrendAnalysisProps) {
   return (
     <div className="space-y-6">
       <div className="text-sm text-gray-600 dark:text-gray-400 mb-4">
-        See how small daily changes compound over your lifetime. Each hour adjustment shows the total impact over your remaining years.
+        See how small daily changes compound over your lifetime. Each hour adjustment shows the total impact over your remaining years,
+        with a bar covering the middle 80% of outcomes when the model's coefficients and your life expectancy vary.
       </div>
-      {trendData.map((item, index) => (
-        <div key={index} className="border rounded-lg p-4 space-y-4" data-testid={`trend-item-${index}`}>
-          <div className="flex items-center gap-3">
-            <div 
-              className="w-8 h-8 rounded-full flex items-center justify-center"
-              style={{ backgroundColor: item.color }}
-            >
-              <i className={`fas ${item.icon} text-white text-sm`}></i>
-            </div>
-            <h3 className="text-lg font-semibold">{item.activity}</h3>
-            <span className="text-sm text-gray-500 dark:text-gray-400">
-              Currently {item.currentHours}h/day
-            </span>
-          </div>
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
-            {item.trends.map((trend, trendIndex) => (
+      {trendData.map((item, index) => {
+        // One scale per activity so its options' bars can be compared
+        const extent = Math.max(...item.trends.flatMap(trend => [
+          Math.abs(trend.analysis.uncertainty.compoundEffect.low),
+          Math.abs(trend.analysis.uncertainty.compoundEffect.high)
+        ]));
+        return (
+          <div key={index} className="border rounded-lg p-4 space-y-4" data-testid={`trend-item-${index}`}>
+            <div className="flex items-center gap-3">
               <div 
-                key={trendIndex} 
-                className={`p-3 rounded-md border ${
-                  trend.change > 0 
-                    ? 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800' 
-                    : trend.change < 0
-                    ? 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800'
-                    : 'bg-blue-50 dark:bg-blue-900/20 border-blue-200 dark:border-blue-800'
-                }`}
-                data-testid={`trend-option-${index}-${trendIndex}`}
+                className="w-8 h-8 rounded-full flex items-center justify-center"
+                style={{ backgroundColor: item.color }}
               >
-                <div className="text-xs font-medium mb-1">
-                  {trend.change > 0 ? '+' : ''}{trend.change}h/day
-                </div>
-                <div className="text-sm font-semibold">
-                  {trend.analysis.compoundEffect > 0 ? '+' : ''}
-                  {trend.analysis.compoundEffect.toFixed(1)} years over lifetime
-                </div>
-                {trend.analysis.recommendations.length > 0 && (
-                  <div className="text-xs mt-2 opacity-75">
-                    {trend.analysis.recommendations[0]}
-                  </div>
-                )}
+                <i className={`fas ${item.icon} text-white text-sm`}></i>
               </div>
-            ))}
+              <h3 className="text-lg font-semibold">{item.activity}</h3>
+              <span className="text-sm text-gray-500 dark:text-gray-400">
+                Currently {item.currentHours}h/day
+              </span>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+              {item.trends.map((trend, trendIndex) => (
+                <div 
+                  key={trendIndex} 
+                  className={`p-3 rounded-md border ${
+                    trend.change > 0 
+                      ? 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800' 
+                      : trend.change < 0
+                      ? 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800'
+                      : 'bg-blue-50 dark:bg-blue-900/20 border-blue-200 dark:border-blue-800'
+                  }`}
+                  data-testid={`trend-option-${index}-${trendIndex}`}
+                >
+                  <div className="text-xs font-medium mb-1">
+                    {trend.change > 0 ? '+' : ''}{trend.change}h/day
+                  </div>
+                  <div className="text-sm font-semibold">
+                    {trend.analysis.compoundEffect > 0 ? '+' : ''}
+                    {trend.analysis.compoundEffect.toFixed(1)} years over lifetime
+                    <ImpactCitation sources={trend.analysis.compoundingFactors.sources} />
+                  </div>
+                  <ErrorBar range={trend.analysis.uncertainty.compoundEffect} extent={extent} testId={`${index}-${trendIndex}`} />
+                  <TrendTips analysis={trend.analysis} testId={`${index}-${trendIndex}`} />
+                </div>
+              ))}
+            </div>
           </div>
-        </div>
-      ))}
+        );
+      })}
+    </div>
+  );
+}
+
+// Horizontal error bar on an axis from -extent to +extent years, centred on no change
+function ErrorBar({ range, extent, testId }: { range: ProjectionRange; extent: number; testId: string }) {
+  if (!(extent > 0)) return null;
+  const position = (value: number) => `${50 + (value / extent) * 50}%`;
+
+  return (
+    <div className="mt-2" data-testid={`trend-range-${testId}`}>
+      <div className="relative h-3" aria-hidden="true">
+        <div className="absolute inset-y-0 left-1/2 w-px bg-gray-300 dark:bg-gray-600"></div>
+        <div
+          className="absolute top-1/2 h-px bg-gray-500 dark:bg-gray-400"
+          style={{ left: position(range.low), right: `calc(100% - ${position(range.high)})` }}
+        ></div>
+        <div className="absolute inset-y-0 w-px bg-gray-500 dark:bg-gray-400" style={{ left: position(range.low) }}></div>
+        <div className="absolute inset-y-0 w-px bg-gray-500 dark:bg-gray-400" style={{ left: position(range.high) }}></div>
+        <div
+          className="absolute top-1/2 w-2 h-2 -mt-1 -ml-1 rounded-full bg-gray-700 dark:bg-gray-200"
+          style={{ left: position(range.mean) }}
+        ></div>
+      </div>
+      <div className="text-[11px] text-gray-500 dark:text-gray-400">
+        80% range {formatYears(range.low)} to {formatYears(range.high)} years
+      </div>
+    </div>
+  );
+}
+
+const formatYears = (years: number) => `${years > 0 ? '+' : ''}${years.toFixed(1)}`;
+
+// The first tip stays put; "Show more tips" steps through the others one at a time and starts
+// over once they have all been shown
+function TrendTips({ analysis, testId }: { analysis: TrendAnalysisResult; testId: string }) {
+  const [step, setStep] = useState(0);
+  const [first, ...rest] = analysis.recommendations;
+  if (!first) return null;
+
+  const more = [...rest, ...analysis.moreRecommendations];
+  const moreIndex = step > 0 && more.length > 0 ? (step - 1) % more.length : null;
+
+  return (
+    <div className="text-xs mt-2 opacity-75 space-y-1">
+      <div>{first}</div>
+      {moreIndex !== null && <div data-testid={`trend-more-tip-${testId}`}>{more[moreIndex]}</div>}
+      {more.length > 0 && (
+        <button
+          type="button"
+          onClick={() => setStep(step + 1)}
+          className="underline hover:no-underline"
+          data-testid={`button-more-tips-${testId}`}
+        >
+          {moreIndex === null ? 'Show more tips' : `Next tip (${moreIndex + 1} of ${more.length})`}
+        </button>
+      )}
     </div>
   );
 }
@@ -0,0 +1,184 @@
+import { useEffect, useMemo, useRef, useState, type PointerEvent } from 'react';
+import { AlertCircle, CalendarRange, Eraser } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { ActivityData } from '@/types';
+import { WEEK_HOURS } from '@shared/schema';
+import { cn, isWeeklyActivity, layOutSchedules, scheduleToHours, summarizeSchedule } from '@/lib/utils';
+
+interface WeeklyScheduleEditorProps {
+  activities: ActivityData[];
+  onActivitiesChange: (activities: ActivityData[]) => void;
+}
+
+const DAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+export function WeeklyScheduleEditor({ activities, onActivitiesChange }: WeeklyScheduleEditorProps) {
+  // Monthly and yearly activities don't repeat week to week, so they stay off the grid
+  const paintable = activities.filter(isWeeklyActivity);
+  const [selectedId, setSelectedId] = useState<string | null>(paintable[0]?.id ?? null);
+  const selected = paintable.find(activity => activity.id === selectedId) ?? paintable[0];
+
+  // Schedule being painted by the current drag; kept in a ref so quick pointer moves
+  // don't build on a render that hasn't caught up yet
+  const drag = useRef<{ mode: 'paint' | 'erase'; schedule: Set<number> } | null>(null);
+
+  useEffect(() => {
+    const endDrag = () => { drag.current = null; };
+    window.addEventListener('pointerup', endDrag);
+    return () => window.removeEventListener('pointerup', endDrag);
+  }, []);
+
+  // Activities painted into each hour of the week
+  const occupants = useMemo(() => {
+    const cells: ActivityData[][] = Array.from({ length: WEEK_HOURS }, () => []);
+    for (const activity of activities) {
+      for (const slot of Array.from(new Set(activity.schedule ?? []))) {
+        cells[slot].push(activity);
+      }
+    }
+    return cells;
+  }, [activities]);
+
+  const summary = summarizeSchedule(activities);
+  const hasUnscheduled = paintable.some(activity => !activity.schedule && !activity.concurrentWith);
+
+  const applySchedule = (activityId: string, schedule: number[]) => {
+    const sorted = [...schedule].sort((a, b) => a - b);
+    onActivitiesChange(activities.map(activity =>
+      activity.id === activityId ? { ...activity, schedule: sorted, ...scheduleToHours(sorted) } : activity
+    ));
+  };
+
+  const paintSlot = (slot: number) => {
+    if (!selected || !drag.current) return;
+    const { mode, schedule } = drag.current;
+    if (mode === 'paint' ? schedule.has(slot) : !schedule.has(slot)) return;
+    if (mode === 'paint') {
+      schedule.add(slot);
+    } else {
+      schedule.delete(slot);
+    }
+    applySchedule(selected.id, Array.from(schedule));
+  };
+
+  const startDrag = (event: PointerEvent<HTMLDivElement>, slot: number) => {
+    if (!selected) return;
+    // Touch input captures the pointer on the first cell; release it so dragging reaches the others
+    event.currentTarget.releasePointerCapture(event.pointerId);
+    const schedule = new Set(selected.schedule ?? []);
+    drag.current = { mode: schedule.has(slot) ? 'erase' : 'paint', schedule };
+    paintSlot(slot);
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-2">
+        <Label className="text-sm font-medium text-muted-foreground flex items-center gap-1">
+          <CalendarRange className="h-4 w-4" />
+          Weekly Calendar
+        </Label>
+        <div className="flex items-center gap-2">
+          {hasUnscheduled && (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => onActivitiesChange(layOutSchedules(activities))}
+              data-testid="button-lay-out-schedule"
+            >
+              Lay out from hours
+            </Button>
+          )}
+          {selected?.schedule && (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => applySchedule(selected.id, [])}
+              data-testid="button-clear-schedule"
+            >
+              <Eraser className="h-4 w-4 mr-1" />
+              Clear {selected.name || 'activity'}
+            </Button>
+          )}
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+        Pick an activity, then click or drag across the grid to paint when you do it. Starting a
+        drag on an hour already painted for that activity erases instead. Hours and days per week update from the grid.
+      </p>
+
+      <div className="flex flex-wrap gap-2 mb-3">
+        {paintable.map(activity => (
+          <button
+            key={activity.id}
+            type="button"
+            onClick={() => setSelectedId(activity.id)}
+            className={cn(
+              'flex items-center gap-2 px-2 py-1 rounded-full border text-xs transition-colors',
+              activity.id === selected?.id
+                ? 'border-gray-900 dark:border-white font-semibold'
+                : 'border-gray-200 dark:border-gray-700 text-muted-foreground'
+            )}
+            data-testid={`button-schedule-activity-${activity.id}`}
+          >
+            <span className="w-3 h-3 rounded-full" style={{ backgroundColor: activity.color }}></span>
+            {activity.name || 'Unnamed'}
+          </button>
+        ))}
+      </div>
+
+      <div
+        className="grid grid-cols-[auto_repeat(7,minmax(0,1fr))] gap-px select-none touch-none"
+        data-testid="weekly-schedule-grid"
+      >
+        <div></div>
+        {DAYS.map(day => (
+          <div key={day} className="text-center text-[10px] text-gray-500 dark:text-gray-400">{day}</div>
+        ))}
+        {HOURS.map(hour => (
+          <div key={hour} className="contents">
+            <div className="pr-1 text-right text-[10px] leading-3 text-gray-500 dark:text-gray-400">
+              {hour % 3 === 0 ? `${hour.toString().padStart(2, '0')}:00` : ''}
+            </div>
+            {DAYS.map((day, dayIndex) => {
+              const slot = dayIndex * 24 + hour;
+              const cellActivities = occupants[slot];
+              // Concurrent activities are meant to share their host's hours
+              const overlapping = cellActivities.filter(activity => !activity.concurrentWith).length > 1;
+              return (
+                <div
+                  key={day}
+                  onPointerDown={(event) => startDrag(event, slot)}
+                  onPointerEnter={() => paintSlot(slot)}
+                  title={`${day} ${hour}:00 - ${cellActivities.map(activity => activity.name).join(', ') || 'Unassigned'}`}
+                  className={cn(
+                    'h-3 cursor-pointer rounded-[2px]',
+                    cellActivities.length === 0 && 'bg-gray-100 dark:bg-gray-800',
+                    overlapping && 'ring-1 ring-inset ring-red-500'
+                  )}
+                  style={cellActivities.length > 0 ? { backgroundColor: cellActivities[cellActivities.length - 1].color } : undefined}
+                  data-testid={`weekly-schedule-cell-${slot}`}
+                ></div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-3 space-y-1 text-xs">
+        {summary.overlapHours > 0 && (
+          <p className="flex items-center gap-1 text-red-500" data-testid="text-schedule-overlap">
+            <AlertCircle className="h-3 w-3" />
+            {summary.overlapHours} {summary.overlapHours === 1 ? 'hour' : 'hours'} a week {summary.overlapHours === 1 ? 'is' : 'are'} painted for more than one activity.
+          </p>
+        )}
+        <p className="text-gray-500 dark:text-gray-400" data-testid="text-schedule-unassigned">
+          {summary.unassignedHours.toFixed(0)} of {WEEK_HOURS} hours a week are not assigned to any activity and count as free time.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import { createContext, ReactNode, useContext } from "react";
+import { useQuery, useMutation, UseMutationResult } from "@tanstack/react-query";
+import type { PublicUser } from "@shared/schema";
+import { getQueryFn, apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type Credentials = {
+  username: string;
+  password: string;
+};
+
+type AuthContextType = {
+  user: PublicUser | null;
+  isLoading: boolean;
+  loginMutation: UseMutationResult<PublicUser, Error, Credentials>;
+  registerMutation: UseMutationResult<PublicUser, Error, Credentials>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+};
+
+export const AuthContext = createContext<AuthContextType | null>(null);
+
+// Server errors come back as "<status>: {json}", pull out the message for toasts
+function describeError(error: Error): string {
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(body).message || body;
+  } catch {
+    return body;
+  }
+}
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+
+  const { data: user, isLoading } = useQuery<PublicUser | null>({
+    queryKey: ["/api/auth/me"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const onAuthenticated = (authenticatedUser: PublicUser) => {
+    queryClient.setQueryData(["/api/auth/me"], authenticatedUser);
+  };
+
+  const loginMutation = useMutation<PublicUser, Error, Credentials>({
+    mutationFn: async (credentials) => {
+      const res = await apiRequest("POST", "/api/auth/login", credentials);
+      return await res.json();
+    },
+    onSuccess: (authenticatedUser) => {
+      onAuthenticated(authenticatedUser);
+      toast({
+        title: "Logged in",
+        description: `Welcome back, ${authenticatedUser.username}.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Login failed",
+        description: describeError(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const registerMutation = useMutation<PublicUser, Error, Credentials>({
+    mutationFn: async (credentials) => {
+      const res = await apiRequest("POST", "/api/auth/register", credentials);
+      return await res.json();
+    },
+    onSuccess: (authenticatedUser) => {
+      onAuthenticated(authenticatedUser);
+      toast({
+        title: "Account created",
+        description: "Your saved visualizations will now be linked to your account.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Registration failed",
+        description: describeError(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const logoutMutation = useMutation<void, Error, void>({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/logout");
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(["/api/auth/me"], null);
+    },
+    onError: (error) => {
+      toast({
+        title: "Logout failed",
+        description: describeError(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: user ?? null,
+        isLoading,
+        loginMutation,
+        registerMutation,
+        logoutMutation,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
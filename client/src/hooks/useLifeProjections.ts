@@ -1,6 +1,23 @@
 import { useMemo } from 'react';
 import { ActivityData } from '@/types';
-import { formatNumber } from '@/lib/utils';
+import { calculateAverageDailyHours } from '@shared/schema';
+import { formatNumber, isWeeklyActivity, rankBySeed } from '@/lib/utils';
+import {
+  IMPACT_MODEL,
+  evaluateCompounding,
+  getImpactSamples,
+  summarizeSamples,
+  type CompoundingFactors,
+  type ImpactModel,
+  type ProjectionRange
+} from '@/lib/impact-model';
+import {
+  activityCategoryOf,
+  exerciseStyleOf,
+  inferActivityCategory,
+  type ActivityCategory,
+  type ExerciseStyle
+} from '@shared/activity-categories';
 
 // Types for trend analysis
 export interface TrendAnalysisResult {
@@ -9,11 +26,21 @@ export interface TrendAnalysisResult {
   compoundEffect: number;
   yearlyImpact: number;
   recommendations: string[];
-  compoundingFactors: {
-    healthMultiplier: number;
-    skillMultiplier: number;
-    totalBenefit: number;
-  };
+  moreRecommendations: string[]; // Further tips, in order, for "show more"
+  compoundingFactors: CompoundingFactors; // Its sources cite the impact model behind the figures
+  uncertainty: TrendUncertainty;
+}
+
+// Mean and 80% range of trend figures over random draws of the impact model and life expectancy
+export interface TrendUncertainty {
+  modifiedYears: ProjectionRange;
+  compoundEffect: ProjectionRange;
+  yearlyImpact: ProjectionRange;
+}
+
+export interface TrendRecommendations {
+  recommendations: string[];
+  moreRecommendations: string[];
 }
 
 // Types for cost-benefit analysis
@@ -34,6 +61,13 @@ export interface CostBenefitResult {
     recommendation: string;
     confidence: 'high' | 'medium' | 'low';
   };
+  uncertainty: CostBenefitUncertainty;
+}
+
+// Mean and 80% range of cost-benefit figures over random draws of activity values and life expectancy
+export interface CostBenefitUncertainty {
+  yearsMoved: ProjectionRange; // The hours one activity gives up are the hours the other gains
+  timeValue: ProjectionRange;
 }
 
 // Types for life phase optimization
@@ -57,6 +91,44 @@ export interface LifePhaseResult {
   transitionPlanning: TransitionPlanning;
 }
 
+// Types for schedule optimization
+export type ScheduleGoal = 'health' | 'career' | 'relationships';
+
+// Goal weights, 0-100; only their proportions matter
+export type ScheduleGoalWeights = Record<ScheduleGoal, number>;
+
+// Hard limits on an activity's hours on each day it happens and, for weekly activities, on its
+// days a week; unset hour limits allow some room around today, unset day limits keep today's days
+export interface ScheduleConstraint {
+  minHours?: number;
+  maxHours?: number;
+  minDays?: number;
+  maxDays?: number;
+}
+
+export interface ScheduleAllocation {
+  activityId: string;
+  activity: string;
+  daysPerWeek: number;
+  recommendedDays: number;
+  currentHours: number; // Hours on each day the activity happens
+  recommendedHours: number;
+  minHours: number; // The limits the optimizer kept to
+  maxHours: number;
+  minDays: number;
+  maxDays: number;
+  dailyChange: number; // Change in average hours a day
+}
+
+export interface ScheduleOptimizationResult {
+  allocations: ScheduleAllocation[]; // Activities that take time of their own, in list order
+  activities: ActivityData[]; // Today's activities with the recommended hours, ready to apply
+  dailyHours: number; // Average hours a day shared out, the same as today
+  currentScore: number;
+  recommendedScore: number;
+  feasible: boolean; // False when the limits can't all hold within today's hours; the closest schedule is returned
+}
+
 // Types for hook input/output
 export interface UseLifeProjectionsInput {
   activities: ActivityData[];
@@ -68,43 +140,41 @@ export interface UseLifeProjectionsOutput {
   calculateTrendForActivity: (activity: ActivityData, changeInHours: number, ageRange: { start: number; end: number }) => TrendAnalysisResult;
   calculateCostBenefit: (fromActivity: ActivityData, toActivity: ActivityData, hoursToReallocate: number) => CostBenefitResult;
   lifePhaseOptimization: LifePhaseResult;
-  generateComparisons: (activityName: string, years: number) => Array<{ icon: string; text: string }>;
+  generateComparisons: (activityName: string, years: number, category?: ActivityCategory) => Array<{ icon: string; text: string }>;
   determineLifePhase: (age: number) => string;
 }
 
-// Activity comparisons - focused on meaningful, data-driven insights
-const ACTIVITY_COMPARISONS: Record<string, Array<{ icon: string; text: (years: number) => string }>> = {
-  'Sleep': [
+// Activity comparisons by category - focused on meaningful, data-driven insights
+const ACTIVITY_COMPARISONS: Partial<Record<ActivityCategory, Array<{ icon: string; text: (years: number) => string }>>> = {
+  sleep: [
     { 
       icon: 'fa-clock', 
       text: (years) => `${formatNumber(years * 365 * 8)} total hours of rest and recovery` 
     }
   ],
-  'Work': [
+  work: [
     { 
       icon: 'fa-clock', 
       text: (years) => `${formatNumber(years * 365 * 8)} hours of professional work` 
     }
   ],
-  'Commute': [
+  commute: [
     { 
       icon: 'fa-road', 
       text: (years) => `Approximately ${formatNumber(years * 15000)} miles traveled` 
     }
   ],
-  'Exercise': [
+  exercise: [
     { 
       icon: 'fa-fire', 
       text: (years) => `Approximately ${formatNumber(years * 365 * 400)} calories burned` 
     }
   ],
-  'Reading': [
+  learning: [
     { 
       icon: 'fa-book', 
       text: (years) => `Approximately ${Math.floor(years * 50)} books read (assuming 200 pages/book)` 
-    }
-  ],
-  'Studying': [
+    },
     { 
       icon: 'fa-graduation-cap', 
       text: (years) => `${Math.floor(years / 4)} college degrees equivalent in study time` 
@@ -127,135 +197,49 @@ const GENERIC_COMPARISONS: Array<{ icon: string; text: (years: number, activity:
 // Pure helper functions (exported for testing)
 
 export const calculateCompoundingFactors = (
-  activityLower: string,
+  category: ActivityCategory,
+  exerciseStyle: ExerciseStyle,
   changeInHours: number,
   currentAge: number,
   yearsInPeriod: number,
-  currentActivityHours: number
-): { healthMultiplier: number; skillMultiplier: number; totalBenefit: number } => {
-  let healthMultiplier = 1.0;
-  let skillMultiplier = 1.0;
-  
-  const isPositiveChange = changeInHours > 0;
-  const ageFactor = Math.max(0.5, 1 - (currentAge - 25) / 100);
-  const timeFactor = Math.min(2.0, 1 + yearsInPeriod / 20);
-  
-  if (activityLower.includes('exercise') || activityLower.includes('fitness') || activityLower.includes('workout') || activityLower.includes('training')) {
-    const adjustedHoursPerDay = Math.max(0, currentActivityHours + changeInHours);
-    const adjustedHoursPerWeek = adjustedHoursPerDay * 7;
-    const minutesPerWeek = adjustedHoursPerWeek * 60;
-    
-    const isStrength = activityLower.includes('strength') || activityLower.includes('weight') || activityLower.includes('resistance');
-    const isAerobic = activityLower.includes('cardio') || activityLower.includes('running') || activityLower.includes('cycling') || activityLower.includes('aerobic');
-    
-    if (isPositiveChange) {
-      if (minutesPerWeek >= 150 && minutesPerWeek <= 300) {
-        healthMultiplier = 1 + (0.4 * ageFactor * timeFactor * Math.abs(changeInHours));
-      } else if (minutesPerWeek < 150) {
-        healthMultiplier = 1 + (0.35 * ageFactor * timeFactor * Math.abs(changeInHours));
-      } else if (minutesPerWeek <= 600) {
-        healthMultiplier = 1 + (0.3 * ageFactor * timeFactor * Math.abs(changeInHours));
-      } else {
-        healthMultiplier = 1 + (0.15 * ageFactor * Math.abs(changeInHours));
-      }
-      
-      if (isStrength) {
-        healthMultiplier *= 1.15;
-        skillMultiplier = 1 + (0.1 * Math.abs(changeInHours));
-      } else if (isAerobic) {
-        healthMultiplier *= 1.2;
-      } else {
-        healthMultiplier *= 1.25;
-      }
-    } else {
-      const detrimentFactor = 1 + (yearsInPeriod / 10);
-      healthMultiplier = Math.max(0.5, 1 + (0.5 * changeInHours * detrimentFactor));
-      
-      if (currentAge > 40) {
-        healthMultiplier *= 0.85;
-      }
-    }
-  } else if (activityLower.includes('learning') || activityLower.includes('study') || activityLower.includes('reading') || activityLower.includes('education')) {
-    if (isPositiveChange) {
-      const knowledgeCompounding = currentAge < 30 ? 1.4 : currentAge < 50 ? 1.2 : 1.1;
-      skillMultiplier = 1 + (0.3 * ageFactor * timeFactor * Math.abs(changeInHours) * knowledgeCompounding);
-      healthMultiplier = 1 + (0.05 * Math.abs(changeInHours));
-    } else {
-      skillMultiplier = Math.max(0.7, 1 + (0.2 * changeInHours));
-    }
-  } else if (activityLower.includes('work') || activityLower.includes('career') || activityLower.includes('job')) {
-    if (isPositiveChange) {
-      if (changeInHours <= 1) {
-        skillMultiplier = 1 + (0.15 * ageFactor * Math.abs(changeInHours));
-        healthMultiplier = 1 - (0.02 * Math.abs(changeInHours));
-      } else if (changeInHours <= 2) {
-        skillMultiplier = 1 + (0.1 * ageFactor * Math.abs(changeInHours));
-        healthMultiplier = 1 - (0.08 * Math.abs(changeInHours));
-      } else {
-        skillMultiplier = 1 + (0.05 * Math.abs(changeInHours));
-        healthMultiplier = 1 - (0.15 * Math.abs(changeInHours));
-      }
-    } else {
-      skillMultiplier = Math.max(0.85, 1 + (0.1 * changeInHours));
-      healthMultiplier = 1 + (0.05 * Math.abs(changeInHours));
-    }
-  } else if (activityLower.includes('social') || activityLower.includes('family') || activityLower.includes('friends') || activityLower.includes('relationship')) {
-    if (isPositiveChange) {
-      const relationshipValue = currentAge > 40 ? 1.3 : 1.1;
-      healthMultiplier = 1 + (0.15 * Math.abs(changeInHours) * relationshipValue);
-      skillMultiplier = 1 + (0.1 * Math.abs(changeInHours));
-    } else {
-      healthMultiplier = Math.max(0.8, 1 + (0.2 * changeInHours));
-    }
-  } else if (activityLower.includes('sleep') || activityLower.includes('rest')) {
-    const adjustedSleepHours = currentActivityHours + changeInHours;
-    
-    if (isPositiveChange) {
-      if (adjustedSleepHours >= 7 && adjustedSleepHours <= 9) {
-        healthMultiplier = 1 + (0.3 * Math.abs(changeInHours));
-        skillMultiplier = 1 + (0.15 * Math.abs(changeInHours));
-      } else if (adjustedSleepHours > 9) {
-        healthMultiplier = 1 + (0.1 * Math.abs(changeInHours));
-      } else {
-        healthMultiplier = 1 + (0.35 * Math.abs(changeInHours));
-        skillMultiplier = 1 + (0.2 * Math.abs(changeInHours));
-      }
-    } else {
-      const recoveryPenalty = Math.abs(changeInHours) * 4;
-      const compoundingDebt = 1 + (recoveryPenalty / 30);
-      
-      healthMultiplier = Math.max(0.5, 1 + (0.4 * changeInHours * compoundingDebt));
-      
-      if (currentAge < 40) {
-        healthMultiplier *= 0.9;
-      }
-      
-      skillMultiplier = Math.max(0.7, 1 + (0.25 * changeInHours));
-    }
-  }
-  
-  const totalBenefit = Math.max(0.5, Math.min(2.5, healthMultiplier * skillMultiplier));
-  
-  return { healthMultiplier, skillMultiplier, totalBenefit };
+  currentActivityHours: number,
+  model: ImpactModel = IMPACT_MODEL
+): CompoundingFactors => {
+  return evaluateCompounding({
+    category,
+    exerciseStyle,
+    currentHours: currentActivityHours,
+    changeInHours,
+    age: currentAge,
+    horizonYears: yearsInPeriod
+  }, model);
 };
 
 export const generateTrendRecommendations = (
-  activityName: string,
+  category: ActivityCategory,
+  exerciseStyle: ExerciseStyle,
   changeInHours: number,
   compoundEffect: number,
   compoundingFactors: { healthMultiplier: number; skillMultiplier: number; totalBenefit: number },
-  currentActivityHours: number
-): string[] => {
+  currentActivityHours: number,
+  seed: string
+): TrendRecommendations => {
   const recommendations: string[] = [];
+  const moreRecommendations: string[] = [];
+  // Shows the first `count` tips of a pool in this profile's order and keeps the rest for later
+  const pickTips = (tips: string[], count: number) => {
+    const ranked = rankBySeed(tips, seed);
+    recommendations.push(...ranked.slice(0, count));
+    moreRecommendations.push(...ranked.slice(count));
+  };
   const isPositiveChange = changeInHours > 0;
-  const activityLower = activityName.toLowerCase();
   
-  if (activityLower.includes('exercise') || activityLower.includes('fitness') || activityLower.includes('workout') || activityLower.includes('training')) {
+  if (category === 'exercise') {
     const adjustedHoursPerDay = Math.max(0, currentActivityHours + changeInHours);
     const adjustedHoursPerWeek = adjustedHoursPerDay * 7;
     const minutesPerWeek = adjustedHoursPerWeek * 60;
-    const isStrength = activityLower.includes('strength') || activityLower.includes('weight') || activityLower.includes('resistance');
-    const isAerobic = activityLower.includes('cardio') || activityLower.includes('running') || activityLower.includes('cycling') || activityLower.includes('aerobic');
+    const isStrength = exerciseStyle === 'strength';
+    const isAerobic = exerciseStyle === 'aerobic';
     
     if (isPositiveChange) {
       if (minutesPerWeek >= 150 && minutesPerWeek <= 300) {
@@ -279,8 +263,7 @@ export const generateTrendRecommendations = (
           "Resistance training preserves muscle mass and bone density - critical as we age",
           "Building strength now prevents frailty and maintains independence later in life"
         ];
-        const selectedStrengthTips = strengthTips.sort(() => 0.5 - Math.random()).slice(0, 2);
-        selectedStrengthTips.forEach(tip => recommendations.push(tip));
+        pickTips(strengthTips, 2);
       } else if (isAerobic) {
         const aerobicTips = [
           "Every 1 MET fitness increase = 11-17% lower death risk - small gains matter",
@@ -289,8 +272,7 @@ export const generateTrendRecommendations = (
           "Aerobic fitness is one of the strongest predictors of longevity",
           "Your cardiovascular system adapts quickly - improvements visible within weeks"
         ];
-        const selectedAerobicTips = aerobicTips.sort(() => 0.5 - Math.random()).slice(0, 2);
-        selectedAerobicTips.forEach(tip => recommendations.push(tip));
+        pickTips(aerobicTips, 2);
       } else {
         const combinedTips = [
           "Combining aerobic + strength training delivers 40% mortality reduction (20-year ATTICA study 2025)",
@@ -298,8 +280,7 @@ export const generateTrendRecommendations = (
           "The most comprehensive fitness gains come from varied exercise types",
           "Diversifying your workouts prevents plateaus and reduces injury risk"
         ];
-        const selectedCombinedTips = combinedTips.sort(() => 0.5 - Math.random()).slice(0, 2);
-        selectedCombinedTips.forEach(tip => recommendations.push(tip));
+        pickTips(combinedTips, 2);
       }
       
       const consistencyTips = [
@@ -307,7 +288,7 @@ export const generateTrendRecommendations = (
         "Building the habit is more important than perfecting each workout",
         "Show up regularly - your future self will thank you"
       ];
-      recommendations.push(consistencyTips[Math.floor(Math.random() * consistencyTips.length)]);
+      pickTips(consistencyTips, 1);
       
     } else {
       const reductionMinutes = Math.abs(changeInHours) * 7 * 60;
@@ -316,7 +297,7 @@ export const generateTrendRecommendations = (
         "⚠️ Cutting back on movement increases cardiovascular, metabolic, and cognitive risks",
         "⚠️ Less activity means higher health risks - the sedentary lifestyle toll is well-documented"
       ];
-      recommendations.push(reductionWarnings[Math.floor(Math.random() * reductionWarnings.length)]);
+      pickTips(reductionWarnings, 1);
       recommendations.push(`After this change: ${minutesPerWeek.toFixed(0)} min/week (down by ${reductionMinutes.toFixed(0)} min/week)`);
       if (minutesPerWeek < 150) {
         recommendations.push(`⚠️ This drops below WHO's 150 min/week minimum - significant impact on cardiovascular, metabolic, and cognitive health`);
@@ -328,10 +309,10 @@ export const generateTrendRecommendations = (
         "Brief daily movement maintains baseline health better than sporadic longer sessions",
         "Short, consistent activity beats nothing - every minute counts"
       ];
-      recommendations.push(preservationTips[Math.floor(Math.random() * preservationTips.length)]);
+      pickTips(preservationTips, 1);
       recommendations.push("Low-intensity options like walking or gentle stretching work if you're time-constrained");
     }
-  } else if (activityLower.includes('learning') || activityLower.includes('study') || activityLower.includes('reading')) {
+  } else if (category === 'learning') {
     if (isPositiveChange) {
       const learningTips = [
         "Knowledge compounds exponentially - what you learn today becomes the foundation for tomorrow's insights",
@@ -340,14 +321,13 @@ export const generateTrendRecommendations = (
         "The brain's neuroplasticity means learning literally reshapes your cognitive abilities",
         "Deep work on challenging material creates lasting neural pathways"
       ];
-      const selectedTips = learningTips.sort(() => 0.5 - Math.random()).slice(0, 2);
-      selectedTips.forEach(tip => recommendations.push(tip));
+      pickTips(learningTips, 2);
       recommendations.push("Consider focusing on skills that complement each other for multiplied impact");
     } else {
       recommendations.push("Even brief daily learning sessions maintain cognitive sharpness and adaptability");
       recommendations.push("Consider audiobooks or podcasts to preserve learning during other activities");
     }
-  } else if (activityLower.includes('work') || activityLower.includes('career')) {
+  } else if (category === 'work') {
     if (changeInHours > 1) {
       const workWarnings = [
         "Beyond a certain threshold, extra work hours yield diminishing returns on productivity and creativity",
@@ -355,8 +335,7 @@ export const generateTrendRecommendations = (
         "Consider whether this time investment truly advances your long-term career trajectory",
         "Peak performance requires rest and recovery - overwork can harm more than help"
       ];
-      const selectedWarnings = workWarnings.sort(() => 0.5 - Math.random()).slice(0, 2);
-      selectedWarnings.forEach(warning => recommendations.push(warning));
+      pickTips(workWarnings, 2);
     } else if (isPositiveChange && changeInHours <= 1) {
       const careerTips = [
         "Strategic focus on high-leverage activities can transform your career trajectory",
@@ -364,13 +343,12 @@ export const generateTrendRecommendations = (
         "Consider directing this time toward skill-building rather than busywork",
         "Quality beats quantity - make sure this additional time is truly productive"
       ];
-      const selectedTips = careerTips.sort(() => 0.5 - Math.random()).slice(0, 2);
-      selectedTips.forEach(tip => recommendations.push(tip));
+      pickTips(careerTips, 2);
     } else {
       recommendations.push("Reducing work hours can improve work-life balance and prevent burnout");
       recommendations.push("Make sure remaining work time is focused on high-impact activities");
     }
-  } else if (activityLower.includes('social') || activityLower.includes('family') || activityLower.includes('relationship')) {
+  } else if (category === 'social') {
     if (isPositiveChange) {
       const socialBenefits = [
         "Harvard's 80-year study found relationships are the #1 predictor of happiness and longevity",
@@ -379,13 +357,12 @@ export const generateTrendRecommendations = (
         "The value of strong relationships often becomes clearer as we age",
         "Investing in relationships now creates a support network for life's challenges"
       ];
-      const selectedBenefits = socialBenefits.sort(() => 0.5 - Math.random()).slice(0, 2);
-      selectedBenefits.forEach(benefit => recommendations.push(benefit));
+      pickTips(socialBenefits, 2);
     } else {
       recommendations.push("Even small amounts of quality time can maintain important relationships");
       recommendations.push("Consider being more present during interactions rather than just spending more time");
     }
-  } else if (activityLower.includes('sleep')) {
+  } else if (category === 'sleep') {
     if (isPositiveChange) {
       const sleepBenefits = [
         "Quality sleep (7-9h) enhances cognitive performance, cardiovascular health, and overall longevity",
@@ -395,8 +372,7 @@ export const generateTrendRecommendations = (
         "Your brain consolidates memories and clears toxins during deep sleep phases",
         "Quality sleep improves decision-making, creativity, and problem-solving abilities"
       ];
-      const selectedBenefits = sleepBenefits.sort(() => 0.5 - Math.random()).slice(0, 3);
-      selectedBenefits.forEach(benefit => recommendations.push(benefit));
+      pickTips(sleepBenefits, 3);
     } else {
       const sleepWarnings = [
         "Sleep debt has a brutal 4:1 recovery ratio - losing 1 hour takes 4 days to fully recover (Scientific Reports, 2016)",
@@ -405,15 +381,43 @@ export const generateTrendRecommendations = (
         "Insufficient sleep elevates risks for cardiovascular disease, obesity, diabetes, and cognitive decline",
         "Your body doesn't adapt to sleep deprivation - the damage accumulates silently"
       ];
-      const selectedWarnings = sleepWarnings.sort(() => 0.5 - Math.random()).slice(0, 3);
-      selectedWarnings.forEach(warning => recommendations.push(warning));
+      pickTips(sleepWarnings, 3);
       if (Math.abs(changeInHours) >= 2) {
         recommendations.push("⚠️ Severe sleep restriction (<6h) dramatically increases mortality risk, especially under age 65");
       }
     }
   }
   
-  return recommendations;
+  return { recommendations, moreRecommendations };
+};
+
+const NO_RANGE: ProjectionRange = { mean: 0, low: 0, high: 0 };
+
+// Years in an activity over a horizon before and after changing its daily hours, under one version of the impact model
+const projectTrendYears = (
+  activity: ActivityData,
+  category: ActivityCategory,
+  exerciseStyle: ExerciseStyle,
+  changeInHours: number,
+  currentAge: number,
+  horizonYears: number,
+  model: ImpactModel
+) => {
+  const originalHoursPerYear = activity.hours * 365;
+  const modifiedHoursPerYear = Math.max(0, activity.hours + changeInHours) * 365;
+  
+  const baseOriginalYears = (originalHoursPerYear * horizonYears) / (365 * 24);
+  const baseModifiedYears = (modifiedHoursPerYear * horizonYears) / (365 * 24);
+  
+  const compoundingFactors = calculateCompoundingFactors(category, exerciseStyle, changeInHours, currentAge, horizonYears, activity.hours, model);
+  
+  const originalYears = baseOriginalYears;
+  const modifiedYears = baseModifiedYears * compoundingFactors.totalBenefit;
+  
+  const compoundEffect = modifiedYears - originalYears;
+  const yearlyImpact = horizonYears > 0 ? compoundEffect / horizonYears : 0;
+  
+  return { originalYears, modifiedYears, compoundEffect, yearlyImpact, compoundingFactors };
 };
 
 export const calculateTrendAnalysis = (
@@ -435,27 +439,45 @@ export const calculateTrendAnalysis = (
       compoundEffect: 0,
       yearlyImpact: 0,
       recommendations: [],
-      compoundingFactors: { healthMultiplier: 1, skillMultiplier: 1, totalBenefit: 1 }
+      moreRecommendations: [],
+      compoundingFactors: { healthMultiplier: 1, skillMultiplier: 1, totalBenefit: 1, sources: [] },
+      uncertainty: { modifiedYears: NO_RANGE, compoundEffect: NO_RANGE, yearlyImpact: NO_RANGE }
     };
   }
   
-  const activityLower = currentActivity.name.toLowerCase();
+  const category = activityCategoryOf(currentActivity);
+  const exerciseStyle = exerciseStyleOf(currentActivity.name);
   
-  const originalHoursPerYear = currentActivity.hours * 365;
-  const modifiedHoursPerYear = Math.max(0, currentActivity.hours + changeInHours) * 365;
+  const { originalYears, modifiedYears, compoundEffect, yearlyImpact, compoundingFactors } =
+    projectTrendYears(currentActivity, category, exerciseStyle, changeInHours, currentAge, horizonYears, IMPACT_MODEL);
   
-  const baseOriginalYears = (originalHoursPerYear * horizonYears) / (365 * 24);
-  const baseModifiedYears = (modifiedHoursPerYear * horizonYears) / (365 * 24);
-  
-  const compoundingFactors = calculateCompoundingFactors(activityLower, changeInHours, currentAge, horizonYears, currentActivity.hours);
-  
-  const originalYears = baseOriginalYears;
-  const modifiedYears = baseModifiedYears * compoundingFactors.totalBenefit;
-  
-  const compoundEffect = modifiedYears - originalYears;
-  const yearlyImpact = horizonYears > 0 ? compoundEffect / horizonYears : 0;
+  // The range ends at the expected age at death, so each draw moves the end with life expectancy
+  const draws = getImpactSamples().map(sample => projectTrendYears(
+    currentActivity,
+    category,
+    exerciseStyle,
+    changeInHours,
+    currentAge,
+    Math.max(0, horizonYears + sample.lifeExpectancyOffset),
+    sample.model
+  ));
+  const uncertainty: TrendUncertainty = {
+    modifiedYears: summarizeSamples(draws.map(draw => draw.modifiedYears)),
+    compoundEffect: summarizeSamples(draws.map(draw => draw.compoundEffect)),
+    yearlyImpact: summarizeSamples(draws.map(draw => draw.yearlyImpact))
+  };
   
-  const recommendations = generateTrendRecommendations(currentActivity.name, changeInHours, compoundEffect, compoundingFactors, currentActivity.hours);
+  // Keyed on the profile so the same inputs always give the same tips, on screen and in reports
+  const seed = `${currentActivity.name}|${currentActivity.hours}|${currentActivity.daysPerWeek}|${changeInHours}|${Math.floor(currentAge)}`;
+  const { recommendations, moreRecommendations } = generateTrendRecommendations(
+    category,
+    exerciseStyle,
+    changeInHours,
+    compoundEffect,
+    compoundingFactors,
+    currentActivity.hours,
+    seed
+  );
   
   return {
     originalYears,
@@ -463,49 +485,55 @@ export const calculateTrendAnalysis = (
     compoundEffect,
     yearlyImpact,
     recommendations,
-    compoundingFactors
+    moreRecommendations,
+    compoundingFactors,
+    uncertainty
   };
 };
 
-export const getActivityQualitativeImpact = (activityName: string, isGaining: boolean): string => {
-  const activityLower = activityName.toLowerCase();
-  
-  if (activityLower.includes('exercise') || activityLower.includes('fitness')) {
+export const getActivityQualitativeImpact = (category: ActivityCategory, isGaining: boolean): string => {
+  if (category === 'exercise') {
     return isGaining ? 'Improved health, energy, and longevity' : 'Potential health decline and reduced energy';
-  } else if (activityLower.includes('work') || activityLower.includes('career')) {
+  } else if (category === 'work') {
     return isGaining ? 'Career advancement and financial growth' : 'Reduced earning potential and career progress';
-  } else if (activityLower.includes('family') || activityLower.includes('social')) {
+  } else if (category === 'social') {
     return isGaining ? 'Stronger relationships and emotional wellbeing' : 'Weakened relationships and social connections';
-  } else if (activityLower.includes('learning') || activityLower.includes('study')) {
+  } else if (category === 'learning') {
     return isGaining ? 'Knowledge accumulation and skill development' : 'Missed learning opportunities and skill stagnation';
-  } else if (activityLower.includes('leisure') || activityLower.includes('entertainment')) {
+  } else if (category === 'leisure') {
     return isGaining ? 'Improved work-life balance and stress relief' : 'Potential stress increase and reduced relaxation';
-  } else if (activityLower.includes('sleep')) {
+  } else if (category === 'sleep') {
     return isGaining ? 'Better health, cognitive function, and mood' : 'Cognitive decline, health issues, and mood problems';
   }
   
   return isGaining ? 'Potential positive life impact' : 'Potential negative life impact';
 };
 
-export const getActivityValueScore = (activityName: string, age: number): number => {
-  const activityLower = activityName.toLowerCase();
-  
+export const getActivityValueScore = (category: ActivityCategory, age: number): number => {
   const middleAgeMultiplier = age >= 30 && age < 60 ? 1.2 : 1.0;
   const youthMultiplier = age < 30 ? 1.2 : age < 50 ? 1.0 : 0.8;
   
-  if (activityLower.includes('exercise')) return 0.9 * (age > 40 ? 1.3 : 1.0);
-  if (activityLower.includes('career') || activityLower.includes('work')) return 0.8 * middleAgeMultiplier;
-  if (activityLower.includes('learning') || activityLower.includes('study')) return 0.85 * youthMultiplier;
-  if (activityLower.includes('family') || activityLower.includes('social')) return 0.75 * (age > 30 ? 1.2 : 1.0);
-  if (activityLower.includes('leisure') || activityLower.includes('entertainment')) return 0.4;
-  if (activityLower.includes('sleep')) return 0.95;
+  if (category === 'exercise') return 0.9 * (age > 40 ? 1.3 : 1.0);
+  if (category === 'work') return 0.8 * middleAgeMultiplier;
+  if (category === 'learning') return 0.85 * youthMultiplier;
+  if (category === 'social') return 0.75 * (age > 30 ? 1.2 : 1.0);
+  if (category === 'leisure') return 0.4;
+  if (category === 'sleep') return 0.95;
   
   return 0.5;
 };
 
-export const calculateTimeValue = (fromActivity: string, toActivity: string, hours: number, age: number): number => {
-  const fromScore = getActivityValueScore(fromActivity, age);
-  const toScore = getActivityValueScore(toActivity, age);
+// Factors scale the value scores, for simulating how sure we are of them
+export const calculateTimeValue = (
+  fromCategory: ActivityCategory,
+  toCategory: ActivityCategory,
+  hours: number,
+  age: number,
+  fromFactor = 1,
+  toFactor = 1
+): number => {
+  const fromScore = getActivityValueScore(fromCategory, age) * fromFactor;
+  const toScore = getActivityValueScore(toCategory, age) * toFactor;
   
   const netScore = (toScore - fromScore) * (hours / 24) * 100;
   return Math.max(-100, Math.min(100, netScore));
@@ -525,28 +553,30 @@ export const generateReallocationRecommendation = (fromActivity: string, toActiv
   }
 };
 
-export const calculateConfidenceLevel = (fromActivity: string, toActivity: string, age: number): 'high' | 'medium' | 'low' => {
-  const wellStudiedActivities = ['exercise', 'sleep', 'work', 'learning'];
-  const fromStudied = wellStudiedActivities.some(activity => fromActivity.toLowerCase().includes(activity));
-  const toStudied = wellStudiedActivities.some(activity => toActivity.toLowerCase().includes(activity));
+/**
+ * How sure we are a reallocation helps or hurts: the share of simulated time values on the
+ * same side of neutral as their mean
+ */
+export const calculateConfidenceLevel = (timeValueDraws: number[]): 'high' | 'medium' | 'low' => {
+  const mean = timeValueDraws.reduce((sum, value) => sum + value, 0) / Math.max(1, timeValueDraws.length);
+  if (mean === 0) return 'low';
   
-  if (fromStudied && toStudied) return 'high';
-  if (fromStudied || toStudied) return 'medium';
+  const agreeing = timeValueDraws.filter(value => Math.sign(value) === Math.sign(mean)).length / timeValueDraws.length;
+  if (agreeing >= 0.9) return 'high';
+  if (agreeing >= 0.7) return 'medium';
   return 'low';
 };
 
-export const calculatePotentialROI = (activityName: string, hours: number, age: number): string => {
-  const activityLower = activityName.toLowerCase();
-  
-  if (activityLower.includes('exercise')) {
+export const calculatePotentialROI = (category: ActivityCategory, hours: number, age: number): string => {
+  if (category === 'exercise') {
     const healthBenefit = hours * 365 * 3;
     return `Potential ${healthBenefit.toFixed(0)} additional healthy days per year`;
-  } else if (activityLower.includes('learning') || activityLower.includes('skill')) {
+  } else if (category === 'learning') {
     const careerBoost = age < 40 ? 'significant' : age < 60 ? 'moderate' : 'personal satisfaction';
     return `${careerBoost} career advancement potential`;
-  } else if (activityLower.includes('work') || activityLower.includes('career')) {
+  } else if (category === 'work') {
     return hours > 2 ? 'Diminishing returns likely' : 'Potential career acceleration';
-  } else if (activityLower.includes('family') || activityLower.includes('social')) {
+  } else if (category === 'social') {
     return 'Enhanced life satisfaction and emotional support';
   }
   
@@ -581,19 +611,36 @@ export const calculateCostBenefitAnalysis = (
         timeValue: 0,
         recommendation: 'Neutral: No remaining horizon to evaluate.',
         confidence: 'low' as const
-      }
+      },
+      uncertainty: { yearsMoved: NO_RANGE, timeValue: NO_RANGE }
     };
   }
   
   const yearsLost = (hoursToReallocate * 365 * remainingYears) / (365 * 24);
   const yearsGained = yearsLost;
   
-  const fromImpact = getActivityQualitativeImpact(fromActivity.name, false);
-  const toImpact = getActivityQualitativeImpact(toActivity.name, true);
+  const fromCategory = activityCategoryOf(fromActivity);
+  const toCategory = activityCategoryOf(toActivity);
+  const fromImpact = getActivityQualitativeImpact(fromCategory, false);
+  const toImpact = getActivityQualitativeImpact(toCategory, true);
   
-  const timeValue = calculateTimeValue(fromActivity.name, toActivity.name, hoursToReallocate, userAge);
+  const timeValue = calculateTimeValue(fromCategory, toCategory, hoursToReallocate, userAge);
   const recommendation = generateReallocationRecommendation(fromActivity.name, toActivity.name, timeValue, userAge);
-  const confidence = calculateConfidenceLevel(fromActivity.name, toActivity.name, userAge);
+  
+  // Value scores are less certain for categories the impact model doesn't cover
+  const samples = getImpactSamples();
+  const timeValueDraws = samples.map(sample => calculateTimeValue(
+    fromCategory,
+    toCategory,
+    hoursToReallocate,
+    userAge,
+    sample.categoryFactors[fromCategory],
+    sample.categoryFactors[toCategory]
+  ));
+  const yearsMovedDraws = samples.map(sample =>
+    (hoursToReallocate * Math.max(0, remainingYears + sample.lifeExpectancyOffset)) / 24
+  );
+  const confidence = calculateConfidenceLevel(timeValueDraws);
   
   return {
     opportunityCost: {
@@ -605,12 +652,16 @@ export const calculateCostBenefitAnalysis = (
       activity: toActivity.name,
       yearsGained,
       qualitativeImpact: toImpact,
-      potentialROI: calculatePotentialROI(toActivity.name, hoursToReallocate, userAge)
+      potentialROI: calculatePotentialROI(toCategory, hoursToReallocate, userAge)
     },
     netImpact: {
       timeValue,
       recommendation,
       confidence
+    },
+    uncertainty: {
+      yearsMoved: summarizeSamples(yearsMovedDraws),
+      timeValue: summarizeSamples(timeValueDraws)
     }
   };
 };
@@ -783,22 +834,251 @@ export const calculateLifePhaseOptimization = (
   return { currentPhase, recommendations, transitionPlanning };
 };
 
-export const generateDynamicComparisons = (activityName: string, years: number): Array<{ icon: string; text: string }> => {
-  if (ACTIVITY_COMPARISONS[activityName]) {
-    return ACTIVITY_COMPARISONS[activityName].map(comp => ({
+export const generateDynamicComparisons = (
+  activityName: string,
+  years: number,
+  category: ActivityCategory = inferActivityCategory(activityName)
+): Array<{ icon: string; text: string }> => {
+  const comparisons = ACTIVITY_COMPARISONS[category];
+  if (comparisons) {
+    return comparisons.map(comp => ({
       icon: comp.icon,
       text: comp.text(years)
     }));
   }
   
-  const randomIndices = Array.from(Array(GENERIC_COMPARISONS.length).keys())
-    .sort(() => Math.random() - 0.5)
-    .slice(0, 2);
+  return rankBySeed(GENERIC_COMPARISONS, activityName, comparison => comparison.icon)
+    .slice(0, 2)
+    .map(comparison => ({
+      icon: comparison.icon,
+      text: comparison.text(years, activityName)
+    }));
+};
+
+export const SCHEDULE_GOALS: Array<{ id: ScheduleGoal; label: string; icon: string }> = [
+  { id: 'health', label: 'Health', icon: 'fa-heart-pulse' },
+  { id: 'career', label: 'Career', icon: 'fa-briefcase' },
+  { id: 'relationships', label: 'Relationships', icon: 'fa-users' }
+];
+
+// How much time in each category serves each goal; unlisted categories only get the baseline
+const GOAL_RELEVANCE: Record<ScheduleGoal, Partial<Record<ActivityCategory, number>>> = {
+  health: { exercise: 1, sleep: 1, 'self-care': 0.6, meals: 0.4, social: 0.3 },
+  career: { work: 1, learning: 1, commute: 0.1 },
+  relationships: { social: 1, meals: 0.3, leisure: 0.3 }
+};
+const BASE_GOAL_RELEVANCE = 0.2;
+
+// Room either side of today's hours for activities without limits of their own
+export const SCHEDULE_FLEX_HOURS = 2;
+
+// Average hours a day moved per search step
+const SCHEDULE_STEP_HOURS = 0.25;
+
+// Limits the search starts from: sleep stays within the healthy range and work keeps today's hours as a floor
+export const defaultScheduleConstraints = (activities: ActivityData[]): Record<string, ScheduleConstraint> => {
+  const constraints: Record<string, ScheduleConstraint> = {};
+  for (const activity of activities) {
+    const category = activityCategoryOf(activity);
+    if (category === 'sleep') constraints[activity.id] = { minHours: 7, maxHours: 9 };
+    if (category === 'work') constraints[activity.id] = { minHours: activity.hours };
+  }
+  return constraints;
+};
+
+// Hours a day the constraint allows, filling unset limits from today's hours
+export const scheduleBounds = (activity: ActivityData, constraint: ScheduleConstraint = {}): { minHours: number; maxHours: number } => {
+  let minHours = constraint.minHours ?? Math.max(0, activity.hours - SCHEDULE_FLEX_HOURS);
+  let maxHours = constraint.maxHours ?? Math.min(24, activity.hours + SCHEDULE_FLEX_HOURS);
+  if (constraint.minHours === undefined) minHours = Math.min(minHours, maxHours);
+  if (constraint.maxHours === undefined) maxHours = Math.max(maxHours, minHours);
+  return { minHours, maxHours };
+};
+
+// Days a week the constraint allows; only weekly activities can move to other days
+export const scheduleDayBounds = (activity: ActivityData, constraint: ScheduleConstraint = {}): { minDays: number; maxDays: number } => {
+  if (!isWeeklyActivity(activity)) return { minDays: activity.daysPerWeek, maxDays: activity.daysPerWeek };
+  const minDays = constraint.minDays ?? Math.min(activity.daysPerWeek, constraint.maxDays ?? 7);
+  const maxDays = constraint.maxDays ?? Math.max(activity.daysPerWeek, constraint.minDays ?? 1);
+  return { minDays: Math.max(1, minDays), maxDays: Math.min(7, maxDays) };
+};
+
+/**
+ * Recommends how to share today's hours between activities to serve the weighted goals. Each
+ * activity's value grows with the logarithm of its average daily hours, so every extra hour is
+ * worth less than the last, scaled by its value score and its relevance to the goals. The
+ * compounding model's health and skill multipliers for the change then amplify what is gained
+ * or lost relative to today. For a given number of days a week per activity, a hill climb moves
+ * time a quarter hour at a time from the activity that loses least to the one that gains most,
+ * within each activity's hour limits, until no move helps. Days are a discrete choice on top:
+ * one activity at a time tries each other day count its limits allow, and keeps it when the
+ * climbed schedule scores higher. Concurrent activities use no time of their own and are left alone.
+ */
+export const optimizeSchedule = (
+  activities: ActivityData[],
+  constraints: Record<string, ScheduleConstraint>,
+  goals: ScheduleGoalWeights,
+  currentAge: number,
+  lifeExpectancy: number
+): ScheduleOptimizationResult => {
+  const horizonYears = Math.max(0, lifeExpectancy - currentAge);
+  
+  // Goal weights relative to the strongest, so the top goal's multipliers count in full
+  const strongestGoal = Math.max(...SCHEDULE_GOALS.map(goal => goals[goal.id]));
+  const share = (goal: ScheduleGoal) => strongestGoal > 0 ? goals[goal] / strongestGoal : 1;
   
-  return randomIndices.map(index => ({
-    icon: GENERIC_COMPARISONS[index].icon,
-    text: GENERIC_COMPARISONS[index].text(years, activityName)
+  const items = activities.filter(activity => !activity.concurrentWith).map(activity => {
+    const category = activityCategoryOf(activity);
+    const exerciseStyle = exerciseStyleOf(activity.name);
+    const currentDaily = calculateAverageDailyHours(activity);
+    // Average hours a day per hour on each active day, from the days a week and the recurrence
+    const dailyPerHour = (days: number) => calculateAverageDailyHours({ ...activity, hours: 1, daysPerWeek: days });
+    const { minHours, maxHours } = scheduleBounds(activity, constraints[activity.id]);
+    const { minDays, maxDays } = scheduleDayBounds(activity, constraints[activity.id]);
+    const relevance = BASE_GOAL_RELEVANCE + SCHEDULE_GOALS.reduce(
+      (sum, goal) => sum + share(goal.id) * (GOAL_RELEVANCE[goal.id][category] ?? 0),
+      0
+    );
+    const weight = relevance * getActivityValueScore(category, currentAge);
+    
+    const value = (daily: number) => {
+      const change = daily - currentDaily;
+      const base = Math.log1p(currentDaily);
+      if (Math.abs(change) < 1e-9) return weight * base;
+      const factors = calculateCompoundingFactors(category, exerciseStyle, change, currentAge, horizonYears, currentDaily);
+      const multiplier = Math.max(0.1, 1 + share('health') * (factors.healthMultiplier - 1) + share('career') * (factors.skillMultiplier - 1));
+      // Multipliers below 1 mark harm, so they make losses bigger rather than smaller
+      const amplification = change > 0 ? multiplier : 1 / multiplier;
+      return weight * (base + (Math.log1p(daily) - base) * amplification);
+    };
+    
+    return {
+      activity,
+      currentDaily,
+      dailyPerHour,
+      minHours,
+      maxHours,
+      minDays,
+      maxDays,
+      value
+    };
+  });
+  
+  const budget = items.reduce((sum, item) => sum + item.currentDaily, 0);
+  const daysFeasible = items.every(item => item.minDays <= item.maxDays);
+  
+  // Best average hours a day for each activity with the given days a week each
+  const climb = (days: number[]) => {
+    const state = items.map((item, index) => {
+      const perHour = item.dailyPerHour(days[index]);
+      const min = item.minHours * perHour;
+      const max = item.maxHours * perHour;
+      return { item, min, max, daily: Math.min(max, Math.max(min, item.currentDaily)) };
+    });
+    let feasible = daysFeasible && state.every(entry => entry.min <= entry.max + 1e-9);
+    const gainOf = (entry: typeof state[number], amount: number) => entry.item.value(entry.daily + amount) - entry.item.value(entry.daily);
+    
+    // Clamping to the limits can change the total; bring it back to today's by the cheapest steps
+    for (let guard = 0; guard < 10000; guard++) {
+      const gap = budget - state.reduce((sum, entry) => sum + entry.daily, 0);
+      if (Math.abs(gap) < 1e-9) break;
+      const candidates = state
+        .map(entry => ({ entry, room: gap > 0 ? entry.max - entry.daily : entry.daily - entry.min }))
+        .filter(candidate => candidate.room > 1e-9);
+      if (candidates.length === 0) {
+        feasible = false;
+        break;
+      }
+      const amounts = candidates.map(({ room }) => Math.sign(gap) * Math.min(SCHEDULE_STEP_HOURS, Math.abs(gap), room));
+      let best = 0;
+      for (let i = 1; i < candidates.length; i++) {
+        if (gainOf(candidates[i].entry, amounts[i]) > gainOf(candidates[best].entry, amounts[best])) best = i;
+      }
+      candidates[best].entry.daily += amounts[best];
+    }
+    
+    // Hill climb: move time between pairs of activities while it raises the total value
+    for (let guard = 0; guard < 10000; guard++) {
+      let bestMove: { from: number; to: number; amount: number; gain: number } | null = null;
+      for (let from = 0; from < state.length; from++) {
+        for (let to = 0; to < state.length; to++) {
+          if (from === to) continue;
+          const amount = Math.min(SCHEDULE_STEP_HOURS, state[from].daily - state[from].min, state[to].max - state[to].daily);
+          if (amount < 1e-6) continue;
+          const gain = gainOf(state[to], amount) + gainOf(state[from], -amount);
+          if (gain > 1e-9 && (!bestMove || gain > bestMove.gain)) {
+            bestMove = { from, to, amount, gain };
+          }
+        }
+      }
+      if (!bestMove) break;
+      state[bestMove.from].daily -= bestMove.amount;
+      state[bestMove.to].daily += bestMove.amount;
+    }
+    
+    return {
+      days,
+      dailies: state.map(entry => entry.daily),
+      score: state.reduce((sum, entry) => sum + entry.item.value(entry.daily), 0),
+      feasible
+    };
+  };
+  
+  // Start from today's days within the limits, then change one activity's days at a time while it helps
+  let best = climb(items.map(item => Math.min(item.maxDays, Math.max(item.minDays, item.activity.daysPerWeek))));
+  for (let improved = true; improved;) {
+    improved = false;
+    items.forEach((item, index) => {
+      for (let days = item.minDays; days <= item.maxDays; days++) {
+        if (days === best.days[index]) continue;
+        const candidate = climb(best.days.map((current, other) => other === index ? days : current));
+        const better = candidate.feasible !== best.feasible
+          ? candidate.feasible
+          : candidate.score > best.score + 1e-9;
+        if (better) {
+          best = candidate;
+          improved = true;
+        }
+      }
+    });
+  }
+  
+  const recommended = new Map(items.map((item, index) => {
+    const days = best.days[index];
+    const perHour = item.dailyPerHour(days);
+    const hours = perHour > 0 ? Math.round(best.dailies[index] / perHour * 100) / 100 : item.activity.hours;
+    return [item.activity.id, { hours, days }];
+  }));
+  const allocations: ScheduleAllocation[] = items.map((item, index) => ({
+    activityId: item.activity.id,
+    activity: item.activity.name,
+    daysPerWeek: item.activity.daysPerWeek,
+    recommendedDays: best.days[index],
+    currentHours: item.activity.hours,
+    recommendedHours: recommended.get(item.activity.id)!.hours,
+    minHours: item.minHours,
+    maxHours: item.maxHours,
+    minDays: item.minDays,
+    maxDays: item.maxDays,
+    dailyChange: best.dailies[index] - item.currentDaily
   }));
+  
+  // Typed hours and days replace a painted calendar, which would otherwise set them back
+  const recommendedActivities = activities.map(activity => {
+    const change = recommended.get(activity.id);
+    if (!change || (Math.abs(change.hours - activity.hours) < 0.005 && change.days === activity.daysPerWeek)) return activity;
+    const { schedule, ...rest } = activity;
+    return { ...rest, hours: change.hours, daysPerWeek: change.days };
+  });
+  
+  return {
+    allocations,
+    activities: recommendedActivities,
+    dailyHours: budget,
+    currentScore: items.reduce((sum, item) => sum + item.value(item.currentDaily), 0),
+    recommendedScore: best.score,
+    feasible: best.feasible
+  };
 };
 
 // Main hook
@@ -820,8 +1100,8 @@ export function useLifeProjections({ activities, currentAge, lifeExpectancy }: U
   }, [currentAge, lifeExpectancy]);
 
   const generateComparisons = useMemo(() => {
-    return (activityName: string, years: number) => {
-      return generateDynamicComparisons(activityName, years);
+    return (activityName: string, years: number, category?: ActivityCategory) => {
+      return generateDynamicComparisons(activityName, years, category);
     };
   }, []);
 
@@ -0,0 +1,357 @@
+import { activityCategorySchema, type ActivityCategory, type ExerciseStyle } from '@shared/activity-categories';
+import { remainingLifeExpectancy, survivalDistribution, type LifeTable } from '@shared/life-table';
+import modelData from '@/data/impact-model.json';
+
+export interface ImpactSource {
+  citation: string;
+  doi?: string;
+}
+
+// Bounds on a number; every bound given must hold
+interface Range {
+  below?: number;
+  atMost?: number;
+  above?: number;
+  atLeast?: number;
+}
+
+// A named factor that scales effects, linear in its input and clamped, or stepped
+interface Modifier {
+  description: string;
+  input: 'age' | 'horizonYears' | 'changeHours';
+  base: number;
+  slope?: number;
+  reference?: number;
+  min?: number;
+  max?: number;
+  steps?: { when: Range; value: number }[]; // First match replaces base
+  source: string;
+}
+
+// A multiplier of base + coefficient x |change in hours/day| x scale modifiers, floored
+interface Effect {
+  base?: number; // 1 when omitted
+  coefficient?: number; // 0 when omitted
+  scale?: string[];
+  floor?: number;
+  source: string;
+}
+
+interface Band {
+  when?: Range; // Tested against the category's dose; the last band usually has none
+  health?: Effect;
+  skill?: Effect;
+}
+
+interface Adjustment {
+  when: { age?: Range; style?: string };
+  health?: Effect;
+  skill?: Effect;
+}
+
+interface ImpactArm {
+  bands: Band[];
+  adjustments?: Adjustment[];
+}
+
+interface CategoryModel {
+  // minutesPerWeek and hoursPerDay are after the change; change is the change itself
+  dose: 'minutesPerWeek' | 'hoursPerDay' | 'change';
+  increase: ImpactArm;
+  decrease: ImpactArm;
+}
+
+interface OptimizationLevel {
+  level: string;
+  when?: Range;
+  yearsImpact: number;
+  targetHoursPerDay?: number;
+  source: string;
+}
+
+// Shape of client/src/data/impact-model.json
+export interface ImpactModel {
+  version: number;
+  updated: string;
+  description: string;
+  sources: Record<string, ImpactSource>;
+  totalBenefit: { min: number; max: number; source: string };
+  uncertainty: {
+    description: string;
+    samples: number;
+    interval: number; // Share of draws the reported range covers
+    coefficientSpread: { study: number; assumption: number }; // Standard deviation of the factor on a coefficient
+    lifeExpectancySd: number; // Years
+  };
+  modifiers: Record<string, Modifier>;
+  categories: Record<string, CategoryModel>;
+  optimizations: {
+    sleep: { dose: 'hoursPerDay'; levels: OptimizationLevel[] };
+    exercise: { dose: 'hoursPerWeek'; levels: OptimizationLevel[]; gainPerHour: { value: number; source: string } };
+  };
+}
+
+export const IMPACT_MODEL = modelData as ImpactModel;
+
+export interface CompoundingInput {
+  category: ActivityCategory;
+  exerciseStyle: ExerciseStyle;
+  currentHours: number; // Hours a day before the change
+  changeInHours: number;
+  age: number;
+  horizonYears: number;
+}
+
+export interface CompoundingFactors {
+  healthMultiplier: number;
+  skillMultiplier: number;
+  totalBenefit: number;
+  sources: string[]; // Ids in IMPACT_MODEL.sources behind the multipliers
+}
+
+export interface OptimizationResult {
+  level: string;
+  yearsImpact: number;
+  targetHoursPerDay?: number;
+  source: string;
+}
+
+// Mean and central interval of a projection across the model's random draws
+export interface ProjectionRange {
+  mean: number;
+  low: number; // 10th percentile for the default 80% interval
+  high: number; // 90th percentile
+}
+
+// One random draw of the model and of the quantities it is unsure about
+export interface ImpactSample {
+  model: ImpactModel; // Coefficients scaled by one factor per source
+  lifeExpectancyOffset: number; // Years added to life expectancy
+  categoryFactors: Record<ActivityCategory, number>; // For rules outside the model file, by activity category
+}
+
+// Fixed so the same profile gets the same ranges on every render and in reports
+const SAMPLE_SEED = 0x5eed;
+
+const inRange = (value: number, range?: Range) =>
+  !range || (
+    (range.below === undefined || value < range.below) &&
+    (range.atMost === undefined || value <= range.atMost) &&
+    (range.above === undefined || value > range.above) &&
+    (range.atLeast === undefined || value >= range.atLeast)
+  );
+
+/**
+ * Evaluates the model for changing an activity's daily hours: the band matching the dose sets
+ * the health and skill multipliers, then any adjustments for age or exercise style scale them.
+ * Categories the model doesn't cover are neutral.
+ */
+export function evaluateCompounding(input: CompoundingInput, model: ImpactModel = IMPACT_MODEL): CompoundingFactors {
+  const { category, exerciseStyle, currentHours, changeInHours, age, horizonYears } = input;
+  const categoryModel = model.categories[category];
+  if (!categoryModel) {
+    return { healthMultiplier: 1, skillMultiplier: 1, totalBenefit: 1, sources: [] };
+  }
+
+  const sources = new Set<string>();
+  const modifierInputs = { age, horizonYears, changeHours: Math.abs(changeInHours) };
+  const modifierValue = (name: string): number => {
+    const modifier = model.modifiers[name];
+    if (!modifier) throw new Error(`Impact model modifier "${name}" is not defined`);
+    sources.add(modifier.source);
+    const value = modifierInputs[modifier.input];
+    const step = modifier.steps?.find(candidate => inRange(value, candidate.when));
+    if (step) return step.value;
+    const linear = modifier.base + (modifier.slope ?? 0) * (value - (modifier.reference ?? 0));
+    return Math.min(modifier.max ?? Infinity, Math.max(modifier.min ?? -Infinity, linear));
+  };
+  const effectValue = (effect: Effect): number => {
+    sources.add(effect.source);
+    const scale = (effect.scale ?? []).reduce((product, name) => product * modifierValue(name), 1);
+    const value = (effect.base ?? 1) + (effect.coefficient ?? 0) * Math.abs(changeInHours) * scale;
+    return Math.max(effect.floor ?? -Infinity, value);
+  };
+
+  const dose = {
+    minutesPerWeek: Math.max(0, currentHours + changeInHours) * 7 * 60,
+    hoursPerDay: currentHours + changeInHours,
+    change: changeInHours
+  }[categoryModel.dose];
+  const arm = changeInHours > 0 ? categoryModel.increase : categoryModel.decrease;
+  const band = arm.bands.find(candidate => inRange(dose, candidate.when));
+
+  let healthMultiplier = band?.health ? effectValue(band.health) : 1;
+  let skillMultiplier = band?.skill ? effectValue(band.skill) : 1;
+  for (const adjustment of arm.adjustments ?? []) {
+    const { age: ageRange, style } = adjustment.when;
+    if (!inRange(age, ageRange) || (style !== undefined && style !== exerciseStyle)) continue;
+    if (adjustment.health) healthMultiplier *= effectValue(adjustment.health);
+    if (adjustment.skill) skillMultiplier *= effectValue(adjustment.skill);
+  }
+
+  const { min, max } = model.totalBenefit;
+  const totalBenefit = Math.max(min, Math.min(max, healthMultiplier * skillMultiplier));
+  return { healthMultiplier, skillMultiplier, totalBenefit, sources: Array.from(sources) };
+}
+
+/**
+ * Level, lifespan impact and target for a sleep duration (hours a day) or an amount of
+ * exercise (hours a week)
+ */
+export function evaluateOptimization(kind: 'sleep' | 'exercise', dose: number, model: ImpactModel = IMPACT_MODEL): OptimizationResult {
+  const levels = model.optimizations[kind].levels;
+  const match = levels.find(level => inRange(dose, level.when)) ?? levels[levels.length - 1];
+  return {
+    level: match.level,
+    yearsImpact: match.yearsImpact,
+    targetHoursPerDay: match.targetHoursPerDay,
+    source: match.source
+  };
+}
+
+export function getImpactSource(id: string, model: ImpactModel = IMPACT_MODEL): ImpactSource | undefined {
+  return model.sources[id];
+}
+
+// mulberry32: small, fast and good enough for simulation
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Standard normal draw (Box-Muller)
+function normalDraw(random: () => number): number {
+  return Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+}
+
+/**
+ * One random version of the model: every coefficient and lifespan figure citing a source is
+ * scaled by that source's factor, and multipliers' distance from 1 is scaled rather than the
+ * multiplier itself, so a neutral 1 stays neutral
+ */
+function sampleImpactModel(model: ImpactModel, random: () => number): ImpactSample {
+  const { coefficientSpread, lifeExpectancySd } = model.uncertainty;
+  const factorWith = (spread: number) => Math.max(0, 1 + spread * normalDraw(random));
+
+  const factors: Record<string, number> = {};
+  for (const id of Object.keys(model.sources)) {
+    factors[id] = factorWith(id === 'assumption' ? coefficientSpread.assumption : coefficientSpread.study);
+  }
+  const factor = (source: string) => factors[source] ?? 1;
+  const aroundOne = (value: number, source: string) => 1 + (value - 1) * factor(source);
+
+  const scaleEffect = (effect?: Effect): Effect | undefined => effect && {
+    ...effect,
+    base: effect.base === undefined ? undefined : aroundOne(effect.base, effect.source),
+    coefficient: effect.coefficient === undefined ? undefined : effect.coefficient * factor(effect.source)
+  };
+  const scaleArm = (arm: ImpactArm): ImpactArm => ({
+    bands: arm.bands.map(band => ({ ...band, health: scaleEffect(band.health), skill: scaleEffect(band.skill) })),
+    adjustments: arm.adjustments?.map(adjustment => ({
+      ...adjustment,
+      health: scaleEffect(adjustment.health),
+      skill: scaleEffect(adjustment.skill)
+    }))
+  });
+  const scaleLevels = (levels: OptimizationLevel[]) =>
+    levels.map(level => ({ ...level, yearsImpact: level.yearsImpact * factor(level.source) }));
+
+  const modifiers: Record<string, Modifier> = {};
+  for (const [name, modifier] of Object.entries(model.modifiers)) {
+    modifiers[name] = {
+      ...modifier,
+      base: aroundOne(modifier.base, modifier.source),
+      slope: modifier.slope === undefined ? undefined : modifier.slope * factor(modifier.source),
+      steps: modifier.steps?.map(step => ({ ...step, value: aroundOne(step.value, modifier.source) }))
+    };
+  }
+  const categories: Record<string, CategoryModel> = {};
+  for (const [name, category] of Object.entries(model.categories)) {
+    categories[name] = { ...category, increase: scaleArm(category.increase), decrease: scaleArm(category.decrease) };
+  }
+  const { sleep, exercise } = model.optimizations;
+
+  // Rules the model doesn't cover are the app's own assumptions, so they get the wider spread
+  const categoryFactors = {} as Record<ActivityCategory, number>;
+  for (const category of activityCategorySchema.options) {
+    categoryFactors[category] = factorWith(model.categories[category] ? coefficientSpread.study : coefficientSpread.assumption);
+  }
+
+  return {
+    model: {
+      ...model,
+      modifiers,
+      categories,
+      optimizations: {
+        sleep: { ...sleep, levels: scaleLevels(sleep.levels) },
+        exercise: {
+          ...exercise,
+          levels: scaleLevels(exercise.levels),
+          gainPerHour: { ...exercise.gainPerHour, value: exercise.gainPerHour.value * factor(exercise.gainPerHour.source) }
+        }
+      }
+    },
+    lifeExpectancyOffset: lifeExpectancySd * normalDraw(random),
+    categoryFactors
+  };
+}
+
+let cachedSamples: ImpactSample[] | null = null;
+
+/**
+ * The model's random draws, made once and shared by every projection so that ranges are
+ * reproducible and comparisons between projections use the same draws
+ */
+export function getImpactSamples(): ImpactSample[] {
+  if (!cachedSamples) {
+    const random = seededRandom(SAMPLE_SEED);
+    cachedSamples = Array.from({ length: IMPACT_MODEL.uncertainty.samples }, () => sampleImpactModel(IMPACT_MODEL, random));
+  }
+  return cachedSamples;
+}
+
+// Mean and central interval (80% by default) of simulated values
+export function summarizeSamples(values: number[], interval: number = IMPACT_MODEL.uncertainty.interval): ProjectionRange {
+  if (values.length === 0) return { mean: 0, low: 0, high: 0 };
+  const sorted = [...values].sort((a, b) => a - b);
+  const quantile = (q: number) => {
+    const position = q * (sorted.length - 1);
+    const below = Math.floor(position);
+    const above = Math.min(sorted.length - 1, below + 1);
+    return sorted[below] + (sorted[above] - sorted[below]) * (position - below);
+  };
+  const tail = (1 - interval) / 2;
+  return {
+    mean: sorted.reduce((sum, value) => sum + value, 0) / sorted.length,
+    low: quantile(tail),
+    high: quantile(1 - tail)
+  };
+}
+
+// Runs a projection on every draw of the model and summarizes the results
+export function projectWithUncertainty(project: (sample: ImpactSample) => number): ProjectionRange {
+  return summarizeSamples(getImpactSamples().map(project));
+}
+
+/**
+ * Range for years of an activity still to come at `age`: the years stretch or shrink with the
+ * remaining lifetime, which for the middle 80% of people runs from the life table's 10th to its
+ * 90th percentile age at death
+ */
+export function remainingYearsRange(years: number, table: LifeTable, age: number): ProjectionRange {
+  const remainingLifeYears = remainingLifeExpectancy(table, age);
+  if (remainingLifeYears <= 0) return { mean: years, low: years, high: years };
+
+  const { percentile10, percentile90 } = survivalDistribution(table, age);
+  return {
+    mean: years,
+    low: years * (percentile10 - age) / remainingLifeYears,
+    high: years * (percentile90 - age) / remainingLifeYears
+  };
+}
@@ -0,0 +1,233 @@
+import Chart from 'chart.js/auto';
+import type { ChartConfiguration } from 'chart.js';
+import html2canvas from 'html2canvas';
+import { A4_HEIGHT_PT, A4_WIDTH_PT, TEXT_BASELINE, createImagePdf, type PdfPageImage, type PdfTextRun } from '@/lib/pdf';
+
+// CSS width the report is laid out at; its blocks are rasterised to fill the page's content width
+export const REPORT_WIDTH = 720;
+
+// Charts are drawn at this multiple of their CSS size so they stay sharp when printed
+const PRINT_PIXEL_RATIO = 3;
+
+// A4 at 200 dpi
+const PAGE_WIDTH_PX = 1654;
+const PAGE_HEIGHT_PX = Math.round(PAGE_WIDTH_PX * A4_HEIGHT_PT / A4_WIDTH_PT);
+const PAGE_MARGIN_PX = 110;
+const FOOTER_HEIGHT_PX = 60;
+const CONTENT_WIDTH_PX = PAGE_WIDTH_PX - 2 * PAGE_MARGIN_PX;
+const CONTENT_HEIGHT_PX = PAGE_HEIGHT_PX - 2 * PAGE_MARGIN_PX - FOOTER_HEIGHT_PX;
+const BLOCK_GAP_PX = 30;
+
+/**
+ * Draws a Chart.js chart off screen at print resolution and returns it as a PNG data URL
+ */
+export function renderChartImage(configuration: ChartConfiguration, width: number, height: number): string {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  canvas.style.position = 'fixed';
+  canvas.style.left = '-10000px';
+  document.body.appendChild(canvas);
+
+  const chart = new Chart(canvas, {
+    ...configuration,
+    options: {
+      ...configuration.options,
+      responsive: false,
+      animation: false,
+      devicePixelRatio: PRINT_PIXEL_RATIO
+    }
+  });
+  const image = chart.toBase64Image('image/png');
+  chart.destroy();
+  canvas.remove();
+  return image;
+}
+
+/**
+ * Life in weeks: one column per year of life and one row per week, lived weeks filled
+ */
+export function renderLifeWeeksImage(weeksLived: number, weeksTotal: number, width: number): { src: string; height: number } {
+  const years = Math.max(1, Math.ceil(weeksTotal / 52));
+  const labelHeight = 16;
+  const cell = width / years;
+  const height = Math.ceil(cell * 52 + labelHeight);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width * PRINT_PIXEL_RATIO;
+  canvas.height = height * PRINT_PIXEL_RATIO;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return { src: '', height };
+  ctx.scale(PRINT_PIXEL_RATIO, PRINT_PIXEL_RATIO);
+
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, width, height);
+  const gap = Math.min(1, cell * 0.15);
+  for (let year = 0; year < years; year++) {
+    for (let week = 0; week < 52; week++) {
+      const index = year * 52 + week;
+      if (index >= weeksTotal) break;
+      ctx.fillStyle = index < weeksLived ? '#3B82F6' : '#E5E7EB';
+      ctx.fillRect(year * cell, week * cell, cell - gap, cell - gap);
+    }
+  }
+
+  ctx.fillStyle = '#6B7280';
+  ctx.font = '10px sans-serif';
+  ctx.textAlign = 'center';
+  for (let year = 0; year < years; year += 10) {
+    ctx.fillText(`${year}`, year * cell + cell / 2, height - 4);
+  }
+
+  return { src: canvas.toDataURL('image/png'), height };
+}
+
+export interface ReportBlockSize {
+  height: number; // Pixels at page scale
+  breakBefore: boolean; // Starts a new page, e.g. a new section
+}
+
+/**
+ * Assigns blocks to pages in order without splitting any of them; a block taller than a page
+ * gets a page to itself and is scaled down to fit when drawn.
+ * Returns the block indexes on each page.
+ */
+export function layOutPages(blocks: ReportBlockSize[], pageHeight: number, gap: number): number[][] {
+  const pages: number[][] = [];
+  let used = 0;
+  blocks.forEach((block, index) => {
+    const current = pages[pages.length - 1];
+    if (current && !block.breakBefore && used + gap + block.height <= pageHeight) {
+      current.push(index);
+      used += gap + block.height;
+    } else {
+      pages.push([index]);
+      used = block.height;
+    }
+  });
+  return pages;
+}
+
+/**
+ * Positions of an element's words, joined into one run per line, in CSS pixels from the
+ * element's top-left corner. Text drawn inside images and charts is not included.
+ */
+function collectTextRuns(element: HTMLElement): PdfTextRun[] {
+  const origin = element.getBoundingClientRect();
+  const runs: PdfTextRun[] = [];
+  const walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT);
+  const range = document.createRange();
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    const text = node.textContent ?? '';
+    for (const word of Array.from(text.matchAll(/\S+/g))) {
+      range.setStart(node, word.index ?? 0);
+      range.setEnd(node, (word.index ?? 0) + word[0].length);
+      const rect = range.getBoundingClientRect();
+      if (rect.width === 0 || rect.height === 0) continue;
+
+      const x = rect.left - origin.left;
+      const y = rect.top - origin.top;
+      const last = runs[runs.length - 1];
+      const lastEnd = last ? last.x + last.width : 0;
+      // A word just after the previous one on the same line continues its run, so phrases can be searched
+      if (last && Math.abs(last.y - y) < last.height / 2 && x >= lastEnd - 1 && x - lastEnd < last.height) {
+        last.text += ` ${word[0]}`;
+        last.width = x + rect.width - last.x;
+        last.height = Math.max(last.height, rect.height);
+      } else {
+        runs.push({ text: word[0], x, y, width: rect.width, height: rect.height });
+      }
+    }
+  }
+  return runs;
+}
+
+/**
+ * Rasterises every `[data-report-block]` element in the container, lays the blocks out on
+ * numbered A4 pages and returns the PDF, with each block's text laid invisibly over its image.
+ * Blocks with `data-report-break` start a new page.
+ */
+export async function renderReportPdf(container: HTMLElement, title: string): Promise<Blob> {
+  const elements = Array.from(container.querySelectorAll<HTMLElement>('[data-report-block]'));
+  const scale = CONTENT_WIDTH_PX / REPORT_WIDTH;
+
+  const blockText = elements.map(collectTextRuns);
+  const blocks: HTMLCanvasElement[] = [];
+  for (const element of elements) {
+    blocks.push(await html2canvas(element, { backgroundColor: '#FFFFFF', scale, useCORS: true, logging: false }));
+  }
+
+  const layout = layOutPages(
+    blocks.map((block, index) => ({
+      height: Math.min(block.height, CONTENT_HEIGHT_PX),
+      breakBefore: elements[index].dataset.reportBreak !== undefined
+    })),
+    CONTENT_HEIGHT_PX,
+    BLOCK_GAP_PX
+  );
+
+  const pages: PdfPageImage[] = [];
+  for (let pageIndex = 0; pageIndex < layout.length; pageIndex++) {
+    const blockIndexes = layout[pageIndex];
+    const page = document.createElement('canvas');
+    page.width = PAGE_WIDTH_PX;
+    page.height = PAGE_HEIGHT_PX;
+    const ctx = page.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not available');
+
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillRect(0, 0, PAGE_WIDTH_PX, PAGE_HEIGHT_PX);
+    const text: PdfTextRun[] = [];
+    let y = PAGE_MARGIN_PX;
+    for (const blockIndex of blockIndexes) {
+      const block = blocks[blockIndex];
+      const fit = Math.min(1, CONTENT_HEIGHT_PX / block.height, CONTENT_WIDTH_PX / block.width);
+      ctx.drawImage(block, PAGE_MARGIN_PX, y, block.width * fit, block.height * fit);
+      // Text runs are in CSS pixels; the block was rasterised at `scale` and drawn at `fit`
+      const factor = scale * fit;
+      const top = y;
+      text.push(...blockText[blockIndex].map(run => ({
+        text: run.text,
+        x: PAGE_MARGIN_PX + run.x * factor,
+        y: top + run.y * factor,
+        width: run.width * factor,
+        height: run.height * factor
+      })));
+      y += block.height * fit + BLOCK_GAP_PX;
+    }
+
+    const footerSize = 24;
+    const footerBaseline = PAGE_HEIGHT_PX - PAGE_MARGIN_PX / 2;
+    const pageLabel = `Page ${pageIndex + 1} of ${layout.length}`;
+    ctx.fillStyle = '#6B7280';
+    ctx.font = `${footerSize}px sans-serif`;
+    ctx.textAlign = 'left';
+    ctx.fillText(title, PAGE_MARGIN_PX, footerBaseline);
+    ctx.textAlign = 'right';
+    ctx.fillText(pageLabel, PAGE_WIDTH_PX - PAGE_MARGIN_PX, footerBaseline);
+    const titleWidth = ctx.measureText(title).width;
+    const labelWidth = ctx.measureText(pageLabel).width;
+    // Line boxes whose baseline sits where the PDF text layer puts it
+    const footerHeight = footerSize / TEXT_BASELINE;
+    text.push(
+      { text: title, x: PAGE_MARGIN_PX, y: footerBaseline - footerSize, width: titleWidth, height: footerHeight },
+      { text: pageLabel, x: PAGE_WIDTH_PX - PAGE_MARGIN_PX - labelWidth, y: footerBaseline - footerSize, width: labelWidth, height: footerHeight }
+    );
+
+    pages.push({ jpeg: await toJpeg(page), width: PAGE_WIDTH_PX, height: PAGE_HEIGHT_PX, text });
+  }
+
+  return createImagePdf(pages, title);
+}
+
+function toJpeg(canvas: HTMLCanvasElement): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(async blob => {
+      if (!blob) {
+        reject(new Error('Failed to render report page'));
+        return;
+      }
+      resolve(new Uint8Array(await blob.arrayBuffer()));
+    }, 'image/jpeg', 0.9);
+  });
+}
@@ -0,0 +1,165 @@
+// Minimal PDF writer for documents made of full-page JPEG images, enough for reports that
+// are laid out in the browser and rasterised at print resolution. An invisible text layer
+// over each image keeps the text selectable and searchable.
+
+// A line of text on the page image, in pixels from its top-left corner
+export interface PdfTextRun {
+  text: string;
+  x: number;
+  y: number; // Top of the line box
+  width: number;
+  height: number;
+}
+
+export interface PdfPageImage {
+  jpeg: Uint8Array; // Baseline JPEG covering the whole page
+  width: number; // Pixels
+  height: number;
+  text?: PdfTextRun[];
+}
+
+// A4 in PDF points (1/72 inch)
+export const A4_WIDTH_PT = 595.28;
+export const A4_HEIGHT_PT = 841.89;
+
+// The text layer's font is never drawn, so it only needs a width per glyph (in em) and a baseline
+const TEXT_GLYPH_WIDTH = 0.5;
+export const TEXT_BASELINE = 0.8; // Share of the line box above the baseline
+
+/**
+ * Builds a PDF with one A4 page per image, each image stretched to fill its page. Each page's
+ * text runs are written in render mode 3 (neither filled nor stroked) with a font whose codes
+ * are UTF-16 code units, each run scaled to the width it takes on the image, so viewers can
+ * select, copy and search the text without it covering the image.
+ */
+export function createImagePdf(pages: PdfPageImage[], title: string): Blob {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const offsets: number[] = []; // Byte offset of each object, by object number - 1
+  let length = 0;
+
+  const write = (part: string | Uint8Array) => {
+    const bytes = typeof part === 'string' ? encoder.encode(part) : part;
+    parts.push(bytes);
+    length += bytes.length;
+  };
+  const startObject = (id: number) => {
+    offsets[id - 1] = length;
+    write(`${id} 0 obj\n`);
+  };
+
+  // Objects 1 and 2 are the catalog and page tree, 3 the document info, 4 to 7 the text
+  // layer's font, then three per page
+  const pageIds = pages.map((_, index) => 8 + index * 3);
+
+  // The comment's non-ASCII bytes mark the file as binary for transfer tools
+  write('%PDF-1.4\n%\u00e2\u00e3\u00cf\u00d3\n');
+  startObject(1);
+  write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+  startObject(2);
+  write(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>\nendobj\n`);
+  startObject(3);
+  write(`<< /Title ${toPdfTextString(title)} /Producer (Life Visualizer) >>\nendobj\n`);
+  startObject(4);
+  write('<< /Type /Font /Subtype /Type0 /BaseFont /Helvetica /Encoding /Identity-H ' +
+    '/DescendantFonts [5 0 R] /ToUnicode 7 0 R >>\nendobj\n');
+  startObject(5);
+  write('<< /Type /Font /Subtype /CIDFontType2 /BaseFont /Helvetica ' +
+    '/CIDSystemInfo << /Registry (Adobe) /Ordering (Identity) /Supplement 0 >> ' +
+    `/FontDescriptor 6 0 R /DW ${TEXT_GLYPH_WIDTH * 1000} /CIDToGIDMap /Identity >>\nendobj\n`);
+  startObject(6);
+  write('<< /Type /FontDescriptor /FontName /Helvetica /Flags 32 /FontBBox [0 -200 1000 800] ' +
+    '/ItalicAngle 0 /Ascent 800 /Descent -200 /CapHeight 700 /StemV 80 >>\nendobj\n');
+  const toUnicode = identityToUnicodeCMap();
+  startObject(7);
+  write(`<< /Length ${toUnicode.length} >>\nstream\n${toUnicode}\nendstream\nendobj\n`);
+
+  pages.forEach((page, index) => {
+    const pageId = pageIds[index];
+    const contentId = pageId + 1;
+    const imageId = pageId + 2;
+    const content = [`q ${A4_WIDTH_PT} 0 0 ${A4_HEIGHT_PT} 0 0 cm /Page Do Q`, ...textLayer(page)].join('\n');
+
+    startObject(pageId);
+    write(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${A4_WIDTH_PT} ${A4_HEIGHT_PT}] ` +
+      `/Resources << /XObject << /Page ${imageId} 0 R >> /Font << /F1 4 0 R >> >> /Contents ${contentId} 0 R >>\nendobj\n`);
+    startObject(contentId);
+    write(`<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`);
+    startObject(imageId);
+    write(`<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} ` +
+      `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`);
+    write(page.jpeg);
+    write('\nendstream\nendobj\n');
+  });
+
+  const xrefOffset = length;
+  write(`xref\n0 ${offsets.length + 1}\n0000000000 65535 f \n`);
+  write(offsets.map(offset => `${offset.toString().padStart(10, '0')} 00000 n \n`).join(''));
+  write(`trailer\n<< /Size ${offsets.length + 1} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(parts, { type: 'application/pdf' });
+}
+
+// Invisible text operators for a page's runs, converted from image pixels to points
+function textLayer(page: PdfPageImage): string[] {
+  const scaleX = A4_WIDTH_PT / page.width;
+  const scaleY = A4_HEIGHT_PT / page.height;
+  const runs = (page.text ?? []).filter(run => run.text.trim() && run.width > 0 && run.height > 0);
+  if (runs.length === 0) return [];
+
+  const format = (value: number) => value.toFixed(2);
+  return [
+    'BT 3 Tr',
+    ...runs.map(run => {
+      // One code per character; characters outside the Basic Multilingual Plane become U+FFFD
+      const codes = Array.from(run.text).map(char => Math.min(char.codePointAt(0) ?? 0, 0xfffd));
+      const size = run.height * scaleY;
+      const stretch = 100 * run.width * scaleX / (codes.length * TEXT_GLYPH_WIDTH * size);
+      const baseline = A4_HEIGHT_PT - (run.y + run.height * TEXT_BASELINE) * scaleY;
+      const hex = codes.map(code => code.toString(16).padStart(4, '0')).join('');
+      return `/F1 ${format(size)} Tf ${format(stretch)} Tz 1 0 0 1 ${format(run.x * scaleX)} ${format(baseline)} Tm <${hex}> Tj`;
+    }),
+    'ET'
+  ];
+}
+
+// Maps each two-byte code to the same UTF-16 code unit, in blocks of the 100 ranges a CMap allows
+function identityToUnicodeCMap(): string {
+  const ranges = Array.from({ length: 256 }, (_, high) => {
+    const prefix = high.toString(16).padStart(2, '0').toUpperCase();
+    return `<${prefix}00> <${prefix}FF> <${prefix}00>`;
+  });
+  const blocks: string[] = [];
+  for (let start = 0; start < ranges.length; start += 100) {
+    const block = ranges.slice(start, start + 100);
+    blocks.push(`${block.length} beginbfrange\n${block.join('\n')}\nendbfrange`);
+  }
+  return [
+    '/CIDInit /ProcSet findresource begin',
+    '12 dict begin',
+    'begincmap',
+    '/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def',
+    '/CMapName /Adobe-Identity-UCS def',
+    '/CMapType 2 def',
+    '1 begincodespacerange\n<0000> <FFFF>\nendcodespacerange',
+    ...blocks,
+    'endcmap',
+    'CMapName currentdict /CMap defineresource pop',
+    'end',
+    'end'
+  ].join('\n');
+}
+
+// UTF-16BE hex string, so titles outside Latin-1 survive
+function toPdfTextString(text: string): string {
+  const hex = Array.from(text)
+    .flatMap(char => {
+      const code = char.codePointAt(0) ?? 0;
+      if (code <= 0xffff) return [code];
+      const offset = code - 0x10000;
+      return [0xd800 + (offset >> 10), 0xdc00 + (offset & 0x3ff)];
+    })
+    .map(unit => unit.toString(16).padStart(4, '0'))
+    .join('');
+  return `<FEFF${hex}>`;
+}
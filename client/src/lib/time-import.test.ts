@@ -0,0 +1,111 @@
+/**
+ * Parser tests for calendar recurrence rules, CSV exports and Apple Health sleep records.
+ * Local times are read in a fixed zone far from the calendars' own, so zone mistakes move days.
+ */
+process.env.TZ = 'America/Los_Angeles';
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseCsv, parseTimeExport } from './time-import';
+
+const WINDOW = { start: new Date(2024, 0, 1), end: new Date(2024, 2, 1) };
+
+function calendar(...eventLines: string[]): string {
+  return ['BEGIN:VCALENDAR', 'BEGIN:VEVENT', 'UID:test', 'SUMMARY:Gym', ...eventLines, 'END:VEVENT', 'END:VCALENDAR'].join('\r\n');
+}
+
+const datesOf = (content: string, period = WINDOW) => parseTimeExport(content, period).entries.map(entry => entry.date);
+
+describe('iCalendar recurrence', () => {
+  // RFC 5545 section 3.8.5.3: the same rule gives different days for different week starts
+  const RFC_WINDOW = { start: new Date(1997, 7, 1), end: new Date(1997, 9, 1) };
+
+  it('starts weeks on Monday by default', () => {
+    const content = calendar('DTSTART:19970805T090000', 'DTEND:19970805T100000', 'RRULE:FREQ=WEEKLY;INTERVAL=2;COUNT=4;BYDAY=TU,SU');
+    assert.deepEqual(datesOf(content, RFC_WINDOW), ['1997-08-05', '1997-08-10', '1997-08-19', '1997-08-24']);
+  });
+
+  it('honours WKST', () => {
+    const content = calendar('DTSTART:19970805T090000', 'DTEND:19970805T100000', 'RRULE:FREQ=WEEKLY;INTERVAL=2;COUNT=4;BYDAY=TU,SU;WKST=SU');
+    assert.deepEqual(datesOf(content, RFC_WINDOW), ['1997-08-05', '1997-08-17', '1997-08-19', '1997-08-31']);
+  });
+
+  it('reads TZID times in their zone and matches BYDAY there', () => {
+    // 08:00 on Mondays in Tokyo is Sunday afternoon in Los Angeles
+    const content = calendar('DTSTART;TZID=Asia/Tokyo:20240108T080000', 'DTEND;TZID=Asia/Tokyo:20240108T090000', 'RRULE:FREQ=WEEKLY;COUNT=3;BYDAY=MO');
+    assert.deepEqual(datesOf(content), ['2024-01-07', '2024-01-14', '2024-01-21']);
+  });
+
+  it('skips EXDATEs given in the series zone', () => {
+    const content = calendar(
+      'DTSTART;TZID=Asia/Tokyo:20240108T080000',
+      'DTEND;TZID=Asia/Tokyo:20240108T090000',
+      'RRULE:FREQ=WEEKLY;COUNT=3;BYDAY=MO',
+      'EXDATE;TZID=Asia/Tokyo:20240115T080000'
+    );
+    assert.deepEqual(datesOf(content), ['2024-01-07', '2024-01-21']);
+  });
+
+  it('reads times in zones the browser does not know as local time', () => {
+    const content = calendar('DTSTART;TZID=W. Europe Standard Time:20240108T080000', 'DURATION:PT1H30M');
+    assert.deepEqual(parseTimeExport(content, WINDOW).entries, [{ category: 'Gym', date: '2024-01-08', hours: 1.5 }]);
+  });
+
+  it('expands monthly rules by weekday ordinal', () => {
+    const content = calendar('DTSTART:20240105T180000Z', 'DTEND:20240105T190000Z', 'RRULE:FREQ=MONTHLY;BYDAY=-1FR');
+    assert.deepEqual(datesOf(content), ['2024-01-26', '2024-02-23']);
+  });
+});
+
+describe('CSV exports', () => {
+  it('reads quoted fields, escaped quotes and line breaks', () => {
+    assert.deepEqual(parseCsv('a,"b, c","say ""hi""","two\nlines"\r\n1,2,3,4'), [
+      ['a', 'b, c', 'say "hi"', 'two\nlines'],
+      ['1', '2', '3', '4']
+    ]);
+  });
+
+  it('recognises Toggl exports and clock durations', () => {
+    const result = parseTimeExport('Project,Description,Start date,Duration\n"Deep work, focus",Draft,2024-01-15,01:30:00', WINDOW);
+    assert.equal(result.format, 'Toggl CSV');
+    assert.deepEqual(result.entries, [{ category: 'Deep work, focus', date: '2024-01-15', hours: 1.5 }]);
+  });
+
+  it('reads RescueTime durations in seconds', () => {
+    const result = parseTimeExport('Date,Time Spent (seconds),Number of People,Activity\n2024-01-15 10:00:00,5400,1,email', WINDOW);
+    assert.equal(result.format, 'RescueTime CSV');
+    assert.deepEqual(result.entries, [{ category: 'Email', date: '2024-01-15', hours: 1.5 }]);
+  });
+
+  it('skips rows without a date or a positive duration', () => {
+    const result = parseTimeExport('Category,Date,Hours\nReading,,2\nReading,2024-01-15,0\nReading,2024-01-16,2', WINDOW);
+    assert.deepEqual(result.entries, [{ category: 'Reading', date: '2024-01-16', hours: 2 }]);
+  });
+});
+
+describe('Apple Health export', () => {
+  const record = (value: string, start: string, end: string) =>
+    `<Record type="HKCategoryTypeIdentifierSleepAnalysis" sourceName="Watch" value="${value}" startDate="${start}" endDate="${end}"/>`;
+
+  it('prefers asleep stages and counts a night on the day you wake', () => {
+    const xml = `<?xml version="1.0"?>
+<HealthData>
+  ${record('HKCategoryValueSleepAnalysisInBed', '2024-01-14 22:30:00 -0800', '2024-01-15 07:00:00 -0800')}
+  ${record('HKCategoryValueSleepAnalysisAsleepCore', '2024-01-14 23:00:00 -0800', '2024-01-15 03:00:00 -0800')}
+  ${record('HKCategoryValueSleepAnalysisAsleepREM', '2024-01-15 03:00:00 -0800', '2024-01-15 06:30:00 -0800')}
+  <Record type="HKQuantityTypeIdentifierStepCount" value="120" startDate="2024-01-15 08:00:00 -0800" endDate="2024-01-15 08:10:00 -0800"/>
+</HealthData>`;
+    const result = parseTimeExport(xml, WINDOW);
+    assert.equal(result.format, 'Apple Health export');
+    assert.deepEqual(result.entries, [
+      { category: 'Sleep', date: '2024-01-15', hours: 4 },
+      { category: 'Sleep', date: '2024-01-15', hours: 3.5 }
+    ]);
+  });
+
+  it('falls back to time in bed without sleep stages', () => {
+    // Waking at 07:00 in Paris is still the evening before in Los Angeles
+    const xml = `<HealthData>${record('HKCategoryValueSleepAnalysisInBed', '2024-01-14 23:00:00 +0100', '2024-01-15 07:00:00 +0100')}</HealthData>`;
+    assert.deepEqual(parseTimeExport(xml, WINDOW).entries, [{ category: 'Sleep', date: '2024-01-14', hours: 8 }]);
+  });
+});
@@ -0,0 +1,532 @@
+// Parsing of time-tracking and health exports, done entirely in the browser so raw data
+// never leaves the user's machine. Every format is reduced to one TimeEntry per record.
+
+export interface TimeEntry {
+  category: string;
+  date: string; // Local calendar day (YYYY-MM-DD) the time is attributed to
+  hours: number;
+}
+
+export interface ImportedCategory {
+  category: string;
+  totalHours: number;
+  activeDays: number;
+  hours: number; // Average hours on the days it happens
+  daysPerWeek: number;
+}
+
+export interface ImportResult {
+  format: string;
+  entries: TimeEntry[];
+  coveredDays?: number; // Days the entries describe, when that isn't simply first to last entry
+}
+
+// Period that recurring calendar events are expanded over
+export interface ImportWindow {
+  start: Date;
+  end: Date;
+}
+
+// Header and key names, in order of preference, for exports we don't recognise by name
+const CATEGORY_FIELDS = ['category', 'project', 'activity', 'fitnessactivity', 'type', 'task', 'description', 'name', 'title'];
+const DATE_FIELDS = ['start date', 'startdate', 'date', 'start', 'starttime', 'start time', 'start_time', 'from', 'day'];
+const END_FIELDS = ['end date', 'enddate', 'end', 'endtime', 'end time', 'end_time', 'stop', 'to'];
+const DURATION_FIELDS = ['duration (decimal)', 'time spent (seconds)', 'duration (h)', 'duration', 'hours', 'minutes', 'seconds', 'time spent', 'dur'];
+
+const APPLE_SLEEP_TYPE = 'HKCategoryTypeIdentifierSleepAnalysis';
+
+/**
+ * Parses one exported file, picking the format from its contents. Calendars are expanded
+ * over `period`; other formats already list every entry.
+ */
+export function parseTimeExport(content: string, period: ImportWindow): ImportResult {
+  const text = content.replace(/^\uFEFF/, '').trim();
+  if (text.startsWith('BEGIN:VCALENDAR')) {
+    return {
+      format: 'iCalendar',
+      entries: parseICalendar(text, period),
+      coveredDays: (period.end.getTime() - period.start.getTime()) / 86400000
+    };
+  }
+  if (text.startsWith('<')) {
+    return { format: 'Apple Health export', entries: parseAppleHealthSleep(text) };
+  }
+  if (text.startsWith('{') || text.startsWith('[')) {
+    return parseJsonExport(JSON.parse(text));
+  }
+  return parseCsvExport(text);
+}
+
+/**
+ * Averages entries into per-category hours and days per week over the period the
+ * export covers (first to last entry unless `coveredDays` is given), most-tracked categories first
+ */
+export function summarizeTimeEntries(entries: TimeEntry[], coveredDays?: number): ImportedCategory[] {
+  if (entries.length === 0) return [];
+
+  const dates = entries.map(entry => entry.date).sort();
+  const spanDays = coveredDays ?? Math.round((Date.parse(dates[dates.length - 1]) - Date.parse(dates[0])) / 86400000) + 1;
+  const weeks = Math.max(1, spanDays / 7);
+
+  const groups = new Map<string, { category: string; totalHours: number; days: Set<string> }>();
+  for (const entry of entries) {
+    const key = entry.category.trim().toLowerCase();
+    const group = groups.get(key) ?? { category: entry.category.trim(), totalHours: 0, days: new Set<string>() };
+    group.totalHours += entry.hours;
+    group.days.add(entry.date);
+    groups.set(key, group);
+  }
+
+  return Array.from(groups.values())
+    .map(group => {
+      const daysPerWeek = Math.min(7, Math.max(1, Math.round(group.days.size / weeks)));
+      // Keep the weekly total exact once days per week is rounded
+      const hours = Math.min(24, group.totalHours / weeks / daysPerWeek);
+      return {
+        category: group.category,
+        totalHours: group.totalHours,
+        activeDays: group.days.size,
+        hours: Math.round(hours * 10) / 10,
+        daysPerWeek
+      };
+    })
+    .sort((a, b) => b.totalHours - a.totalHours);
+}
+
+// Minimal RFC 4180 reader: quoted fields, escaped quotes and newlines inside quotes
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+}
+
+function parseCsvExport(text: string): ImportResult {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    throw new Error('The file is empty');
+  }
+  const columns = header.map(name => name.trim().toLowerCase());
+  const format = columns.includes('time spent (seconds)')
+    ? 'RescueTime CSV'
+    : columns.includes('duration (h)') || columns.includes('duration (decimal)')
+      ? 'Clockify CSV'
+      : columns.includes('project') && columns.includes('duration')
+        ? 'Toggl CSV'
+        : 'CSV';
+
+  const records = rows.map(cells => Object.fromEntries(columns.map((column, index) => [column, cells[index] ?? ''])));
+  return { format, entries: recordsToEntries(records) };
+}
+
+function parseJsonExport(data: unknown): ImportResult {
+  // Google Fit sessions come as { session: [...] } or a bare session object per file
+  const records = Array.isArray(data)
+    ? data
+    : data && typeof data === 'object' && Array.isArray((data as Record<string, unknown>).session)
+      ? (data as Record<string, unknown[]>).session
+      : [data];
+
+  const lowerCased = records
+    .filter((record): record is Record<string, unknown> => !!record && typeof record === 'object')
+    .map(record => Object.fromEntries(Object.entries(record).map(([key, value]) => [key.toLowerCase(), value])));
+  const format = lowerCased.some(record => 'fitnessactivity' in record) ? 'Google Fit sessions' : 'JSON';
+
+  return { format, entries: recordsToEntries(lowerCased) };
+}
+
+// Sleep records from Apple Health's export.xml; "asleep" stages are preferred over time in bed
+function parseAppleHealthSleep(xml: string): TimeEntry[] {
+  const asleep: TimeEntry[] = [];
+  const inBed: TimeEntry[] = [];
+  const recordPattern = /<Record\b[^>]*>/g;
+  for (const match of xml.match(recordPattern) ?? []) {
+    const attribute = (name: string) => match.match(new RegExp(`\\b${name}="([^"]*)"`))?.[1];
+    if (attribute('type') !== APPLE_SLEEP_TYPE) continue;
+
+    const start = parseDate(attribute('startDate') ?? '');
+    const end = parseDate(attribute('endDate') ?? '');
+    if (!start || !end || end <= start) continue;
+
+    // Attribute a night to the day you wake up on
+    const entry = { category: 'Sleep', date: toLocalDay(end), hours: (end.getTime() - start.getTime()) / 3600000 };
+    if ((attribute('value') ?? '').includes('Asleep')) {
+      asleep.push(entry);
+    } else if ((attribute('value') ?? '').includes('InBed')) {
+      inBed.push(entry);
+    }
+  }
+  return asleep.length > 0 ? asleep : inBed;
+}
+
+interface CalendarEvent {
+  uid: string;
+  summary: string;
+  categories?: string;
+  start: Date;
+  timeZone?: string; // Zone the start's wall-clock time is in; the browser's for floating times
+  durationHours: number;
+  rrule?: Record<string, string>;
+  exdates: number[];
+  recurrenceId?: number; // Start of the series instance this event overrides
+}
+
+// Events from an .ics file, with recurring ones expanded into one entry per occurrence in the window
+function parseICalendar(text: string, period: ImportWindow): TimeEntry[] {
+  // Long lines are folded onto continuation lines that start with a space or tab
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: CalendarEvent[] = [];
+  let current: Record<string, { params: string; value: string }[]> | null = null;
+
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      current = {};
+    } else if (line === 'END:VEVENT' && current) {
+      const event = toCalendarEvent(current);
+      if (event) events.push(event);
+      current = null;
+    } else if (current) {
+      const match = line.match(/^([A-Z-]+)((?:;[^:]*)?):(.*)$/);
+      if (!match) continue;
+      const [, name, params, value] = match;
+      (current[name] = current[name] ?? []).push({ params, value });
+    }
+  }
+
+  // Instances moved or edited individually replace their slot in the series
+  const overridden = new Map<string, number[]>();
+  for (const event of events) {
+    if (event.recurrenceId !== undefined) {
+      overridden.set(event.uid, [...(overridden.get(event.uid) ?? []), event.recurrenceId]);
+    }
+  }
+
+  const entries: TimeEntry[] = [];
+  for (const event of events) {
+    const skipped = new Set([...event.exdates, ...(event.rrule ? overridden.get(event.uid) ?? [] : [])]);
+    const category = titleCase((event.categories?.split(',')[0] || event.summary).trim() || 'Untitled event');
+    for (const start of expandOccurrences(event, period)) {
+      if (skipped.has(start.getTime())) continue;
+      entries.push({ category, date: toLocalDay(start), hours: event.durationHours });
+    }
+  }
+  return entries;
+}
+
+function toCalendarEvent(properties: Record<string, { params: string; value: string }[]>): CalendarEvent | null {
+  const first = (name: string) => properties[name]?.[0];
+  const dtstart = first('DTSTART');
+  if (!dtstart || first('STATUS')?.value === 'CANCELLED') return null;
+  // All-day events (holidays, birthdays) mark days rather than time spent
+  if (dtstart.params.includes('VALUE=DATE') && !dtstart.params.includes('VALUE=DATE-TIME')) return null;
+
+  const start = parseICalendarDate(dtstart.value, dtstart.params);
+  if (!start) return null;
+
+  const end = first('DTEND') ? parseICalendarDate(first('DTEND')!.value, first('DTEND')!.params) : null;
+  const durationHours = end
+    ? (end.getTime() - start.getTime()) / 3600000
+    : parseICalendarDuration(first('DURATION')?.value ?? '');
+  if (!(durationHours > 0)) return null;
+
+  const rrule = first('RRULE')
+    ? Object.fromEntries(first('RRULE')!.value.split(';').map(part => part.split('=') as [string, string]))
+    : undefined;
+  const exdates = (properties.EXDATE ?? [])
+    .flatMap(exdate => exdate.value.split(',').map(value => parseICalendarDate(value, exdate.params)?.getTime()))
+    .filter((time): time is number => time !== undefined);
+  const recurrenceId = first('RECURRENCE-ID')
+    ? parseICalendarDate(first('RECURRENCE-ID')!.value, first('RECURRENCE-ID')!.params)?.getTime()
+    : undefined;
+
+  return {
+    uid: first('UID')?.value ?? '',
+    summary: unescapeICalendarText(first('SUMMARY')?.value ?? ''),
+    categories: first('CATEGORIES') ? unescapeICalendarText(first('CATEGORIES')!.value) : undefined,
+    start,
+    timeZone: dtstart.value.trim().endsWith('Z') ? 'UTC' : timeZoneOf(dtstart.params),
+    durationHours,
+    rrule,
+    exdates,
+    recurrenceId
+  };
+}
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+/**
+ * Occurrence start times inside the window. Supports the RRULE parts calendars commonly
+ * write (FREQ, INTERVAL, COUNT, UNTIL, BYDAY, BYMONTHDAY and WKST); other parts are ignored.
+ * Days are counted on the wall clock of the event's time zone, so a series keeps its time
+ * of day and weekdays there across daylight saving changes.
+ */
+function expandOccurrences(event: CalendarEvent, period: ImportWindow): Date[] {
+  const inWindow = (date: Date) => date >= period.start && date < period.end;
+  const { rrule } = event;
+  if (!rrule) {
+    return inWindow(event.start) ? [event.start] : [];
+  }
+
+  const start = toWallClock(event.start, event.timeZone);
+  const interval = Math.max(1, Number(rrule.INTERVAL) || 1);
+  const count = rrule.COUNT ? Number(rrule.COUNT) : Infinity;
+  const until = rrule.UNTIL ? parseICalendarDate(rrule.UNTIL, event.timeZone ? `;TZID=${event.timeZone}` : '') : null;
+  const lastInstant = until && until < period.end ? until : period.end;
+  const last = toWallClock(lastInstant, event.timeZone);
+  // Weeks start on Monday unless the rule says otherwise
+  const weekStartDay = rrule.WKST && WEEKDAYS.includes(rrule.WKST) ? WEEKDAYS.indexOf(rrule.WKST) : 1;
+  const byDay = rrule.BYDAY?.split(',').map(day => ({
+    ordinal: day.length > 2 ? Number(day.slice(0, -2)) : 0,
+    weekday: WEEKDAYS.indexOf(day.slice(-2))
+  }));
+  const byMonthDay = rrule.BYMONTHDAY?.split(',').map(Number);
+
+  // Candidate days for one period of the rule, in order
+  const candidatesFor = (periodStart: Date): Date[] => {
+    switch (rrule.FREQ) {
+      case 'DAILY':
+        return !byDay || byDay.some(({ weekday }) => weekday === periodStart.getUTCDay()) ? [periodStart] : [];
+      case 'WEEKLY': {
+        if (!byDay) return [periodStart];
+        const weekStart = addDays(periodStart, -((periodStart.getUTCDay() - weekStartDay + 7) % 7));
+        return byDay
+          .map(({ weekday }) => addDays(weekStart, (weekday - weekStartDay + 7) % 7))
+          .sort((a, b) => a.getTime() - b.getTime());
+      }
+      case 'MONTHLY': {
+        const year = periodStart.getUTCFullYear();
+        const month = periodStart.getUTCMonth();
+        const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+        const atDay = (day: number) => withDate(start, year, month, day);
+        if (byMonthDay) {
+          return byMonthDay
+            .map(day => day < 0 ? daysInMonth + day + 1 : day)
+            .filter(day => day >= 1 && day <= daysInMonth)
+            .sort((a, b) => a - b)
+            .map(atDay);
+        }
+        if (byDay) {
+          const days: Date[] = [];
+          for (const { ordinal, weekday } of byDay) {
+            const matching = Array.from({ length: daysInMonth }, (_, i) => i + 1)
+              .filter(day => new Date(Date.UTC(year, month, day)).getUTCDay() === weekday);
+            const picked = ordinal === 0 ? matching : [matching[ordinal > 0 ? ordinal - 1 : matching.length + ordinal]];
+            days.push(...picked.filter(day => day !== undefined).map(atDay));
+          }
+          return days.sort((a, b) => a.getTime() - b.getTime());
+        }
+        return start.getUTCDate() <= daysInMonth ? [atDay(start.getUTCDate())] : [];
+      }
+      default:
+        return [periodStart];
+    }
+  };
+
+  const advance = (periodStart: Date): Date => {
+    switch (rrule.FREQ) {
+      case 'DAILY': return addDays(periodStart, interval);
+      case 'WEEKLY': return addDays(periodStart, 7 * interval);
+      case 'MONTHLY': return withDate(periodStart, periodStart.getUTCFullYear(), periodStart.getUTCMonth() + interval, 1);
+      case 'YEARLY': return withDate(periodStart, periodStart.getUTCFullYear() + interval, start.getUTCMonth(), start.getUTCDate());
+      default: return new Date(Infinity);
+    }
+  };
+
+  const occurrences: Date[] = [];
+  let generated = 0;
+  let periodStart = start;
+  // Ends at the window or UNTIL, so rules without COUNT still stop; unsupported frequencies yield only the first event
+  while (periodStart <= last && generated < count) {
+    for (const candidate of candidatesFor(periodStart)) {
+      if (candidate < start || generated >= count) continue;
+      const instant = fromWallClock(candidate, event.timeZone);
+      if (instant > lastInstant) continue;
+      generated++;
+      if (inWindow(instant)) occurrences.push(instant);
+    }
+    periodStart = advance(periodStart);
+    if (isNaN(periodStart.getTime())) break;
+  }
+  return occurrences;
+}
+
+// Wall-clock times below are carried in the UTC fields of a Date, so calendar steps ignore daylight saving
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result;
+}
+
+// Same time of day as `time`, on the given calendar date (months may overflow into the next year)
+function withDate(time: Date, year: number, month: number, day: number): Date {
+  return new Date(Date.UTC(year, month, day, time.getUTCHours(), time.getUTCMinutes(), time.getUTCSeconds()));
+}
+
+// The wall-clock time of an instant in a time zone, or in the browser's when none is given
+function toWallClock(date: Date, timeZone?: string): Date {
+  if (!timeZone) {
+    return new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate(), date.getHours(), date.getMinutes(), date.getSeconds()));
+  }
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    }).formatToParts(date).map(part => [part.type, Number(part.value)])
+  );
+  return new Date(Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second));
+}
+
+// The instant a wall-clock time happens in a time zone, or in the browser's when none is given
+function fromWallClock(wallClock: Date, timeZone?: string): Date {
+  if (!timeZone) {
+    return new Date(
+      wallClock.getUTCFullYear(), wallClock.getUTCMonth(), wallClock.getUTCDate(),
+      wallClock.getUTCHours(), wallClock.getUTCMinutes(), wallClock.getUTCSeconds()
+    );
+  }
+  // The zone's offset at a first guess, taken again in case the guess fell across a daylight saving change
+  const offsetAt = (time: number) => toWallClock(new Date(time), timeZone).getTime() - time;
+  const guess = wallClock.getTime() - offsetAt(wallClock.getTime());
+  return new Date(wallClock.getTime() - offsetAt(guess));
+}
+
+// TZID parameter of a property, when the browser knows the zone; Windows zone names are not IANA ones
+function timeZoneOf(params: string): string | undefined {
+  const timeZone = params.match(/;TZID="?([^";:]+)"?/)?.[1];
+  if (!timeZone) return undefined;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return timeZone;
+  } catch {
+    return undefined;
+  }
+}
+
+// "20240115T090000Z" is UTC, TZID times are in their zone, and floating or unknown-zone times are read as local time
+function parseICalendarDate(value: string, params = ''): Date | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+  const [, year, month, day, hour = '0', minute = '0', second = '0', utc] = match;
+  const wallClock = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second)));
+  return utc ? wallClock : fromWallClock(wallClock, timeZoneOf(params));
+}
+
+// "PT1H30M", "P1D", "P1W" as hours
+function parseICalendarDuration(value: string): number {
+  const match = value.match(/^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return NaN;
+  const [, weeks = '0', days = '0', hours = '0', minutes = '0', seconds = '0'] = match;
+  return Number(weeks) * 168 + Number(days) * 24 + Number(hours) + Number(minutes) / 60 + Number(seconds) / 3600;
+}
+
+function unescapeICalendarText(value: string): string {
+  return value.replace(/\\([,;\\])/g, '$1').replace(/\\n/gi, ' ');
+}
+
+function recordsToEntries(records: Record<string, unknown>[]): TimeEntry[] {
+  const entries: TimeEntry[] = [];
+  for (const record of records) {
+    const rawCategory = pickField(record, CATEGORY_FIELDS);
+    const category = typeof rawCategory === 'string' && rawCategory.trim()
+      ? titleCase(rawCategory.trim())
+      : 'Uncategorized';
+
+    const start = parseDate(String(pickField(record, DATE_FIELDS) ?? ''));
+    if (!start) continue;
+
+    const end = parseDate(String(pickField(record, END_FIELDS) ?? ''));
+    const durationKey = DURATION_FIELDS.find(key => record[key] !== undefined && record[key] !== '');
+    const hours = durationKey
+      ? parseDuration(record[durationKey], durationKey)
+      : end ? (end.getTime() - start.getTime()) / 3600000 : NaN;
+
+    if (!isFinite(hours) || hours <= 0) continue;
+    entries.push({ category, date: toLocalDay(start), hours });
+  }
+  return entries;
+}
+
+function pickField(record: Record<string, unknown>, names: string[]): unknown {
+  const name = names.find(key => record[key] !== undefined && record[key] !== '');
+  return name ? record[name] : undefined;
+}
+
+// Hours from a duration, using the field name for the unit of plain numbers
+function parseDuration(value: unknown, field: string): number {
+  const text = String(value).trim();
+  const clock = text.match(/^(\d+):(\d{1,2})(?::(\d{1,2}))?$/);
+  if (clock) {
+    return Number(clock[1]) + Number(clock[2]) / 60 + Number(clock[3] ?? 0) / 3600;
+  }
+  // Google Fit writes durations like "28800s"
+  const seconds = text.match(/^(\d+(?:\.\d+)?)s$/);
+  if (seconds) {
+    return Number(seconds[1]) / 3600;
+  }
+  const number = Number(text);
+  if (field.includes('second')) return number / 3600;
+  if (field.includes('minute')) return number / 60;
+  return number;
+}
+
+function parseDate(value: string): Date | null {
+  const text = value.trim();
+  if (!text) return null;
+  // Apple Health: "2024-01-15 23:10:00 +0100"
+  const apple = text.match(/^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2}) ([+-]\d{2})(\d{2})$/);
+  const normalized = apple
+    ? `${apple[1]}T${apple[2]}${apple[3]}:${apple[4]}`
+    : /^\d{4}-\d{2}-\d{2} \d/.test(text)
+      ? text.replace(' ', 'T')
+      // Date-only ISO strings would otherwise be read as UTC midnight and can land on the previous day
+      : /^\d{4}-\d{2}-\d{2}$/.test(text) ? `${text}T00:00` : text;
+  const date = new Date(normalized);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function toLocalDay(date: Date): string {
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function titleCase(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
@@ -1,5 +1,20 @@
 import { type ClassValue, clsx } from "clsx";
 import { twMerge } from "tailwind-merge";
+import {
+  LIFE_TABLE_MAX_AGE,
+  expectedYearsLived,
+  remainingLifeExpectancy,
+  survivalProbability,
+  type LifeTable
+} from "@shared/life-table";
+import {
+  activityCategoryOf,
+  getActivityCategoryInfo,
+  inferActivityCategory,
+  type ActivityCategory
+} from "@shared/activity-categories";
+import { WEEK_HOURS, calculateAverageDailyHours, type Recurrence } from "@shared/schema";
+import type { ActivityData, LifeEraData } from "@/types";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -22,26 +37,177 @@ export function calculateAliveDays(birthdate: Date): number {
 export function calculateActivityYears(
   dailyHours: number,
   aliveDays: number,
-  daysPerWeek: number = 7
+  daysPerWeek: number = 7,
+  recurrence?: Recurrence
 ): number {
-  // Calculate effective daily hours: (hours * daysPerWeek / 7)
-  const effectiveDailyHours = (dailyHours * daysPerWeek) / 7;
+  // Calculate effective daily hours averaged over the year (hours * daysPerWeek / 7 for weekly activities)
+  const effectiveDailyHours = calculateAverageDailyHours({ hours: dailyHours, daysPerWeek, recurrence });
   return (effectiveDailyHours * aliveDays) / 8760; // 8760 hours in a year
 }
 
+// Hours a day the activities take up, averaged across the week; concurrent activities
+// share their host's time, so they use none
+export function calculateEffectiveDailyHours(activities: ActivityData[]): number {
+  return activities
+    .filter(activity => !activity.concurrentWith)
+    .reduce((sum, activity) => sum + calculateAverageDailyHours(activity), 0);
+}
+
+// Name of the activity a concurrent one happens alongside, from the same list it belongs to
+export function findConcurrentHostName(
+  activity: ActivityData,
+  currentActivities: ActivityData[],
+  eras: LifeEraData[]
+): string | undefined {
+  if (!activity.concurrentWith) return undefined;
+  const list = currentActivities.includes(activity)
+    ? currentActivities
+    : eras.find(era => era.activities.includes(activity))?.activities ?? [];
+  return list.find(candidate => candidate.id === activity.concurrentWith)?.name;
+}
+
+export interface LifetimeActivityYears {
+  activity: ActivityData;
+  yearsSoFar: number;
+  yearsRemaining: number; // Weighted by the chance of being alive to live each future year
+}
+
+/**
+ * Time spent on each activity over a whole life. Each era's own activity mix applies to its
+ * age span, past or planned, and the current activities cover any time no era does.
+ * `yearsSoFar` runs up to `aliveDays`; `yearsRemaining` runs from `age` to the end of the
+ * life table. Activities are matched by name, so "Sleep" in an era and today is one total.
+ */
+export function calculateLifetimeActivityYears(
+  currentActivities: ActivityData[],
+  eras: LifeEraData[],
+  aliveDays: number,
+  lifeTable: LifeTable,
+  age: number
+): LifetimeActivityYears[] {
+  const totals = new Map<string, LifetimeActivityYears>();
+  const entryFor = (activity: ActivityData) => {
+    const key = activity.name.trim().toLowerCase();
+    const entry = totals.get(key) ?? { activity, yearsSoFar: 0, yearsRemaining: 0 };
+    totals.set(key, entry);
+    return entry;
+  };
+
+  // Current activities come first so they keep their order in charts
+  currentActivities.forEach(entryFor);
+
+  const livedYears = aliveDays / 365;
+  let eraDays = 0;
+  for (const era of eras) {
+    const days = Math.max(0, Math.min(era.endAge, livedYears) - era.startAge) * 365;
+    for (const activity of era.activities) {
+      entryFor(activity).yearsSoFar += calculateActivityYears(activity.hours, days, activity.daysPerWeek, activity.recurrence);
+    }
+    eraDays += days;
+  }
+  for (const activity of currentActivities) {
+    entryFor(activity).yearsSoFar += calculateActivityYears(activity.hours, Math.max(0, aliveDays - eraDays), activity.daysPerWeek, activity.recurrence);
+  }
+
+  // Split the future at era boundaries; each span uses the era covering it, or today's mix
+  const boundaries = Array.from(new Set([
+    age,
+    LIFE_TABLE_MAX_AGE,
+    ...eras.flatMap(era => [era.startAge, era.endAge]).filter(boundary => boundary > age && boundary < LIFE_TABLE_MAX_AGE)
+  ])).sort((a, b) => a - b);
+  for (let i = 0; i < boundaries.length - 1; i++) {
+    const from = boundaries[i];
+    const to = boundaries[i + 1];
+    const era = eras.find(candidate => candidate.startAge <= from && candidate.endAge >= to);
+    const expectedYears = survivalProbability(lifeTable, age, from) * expectedYearsLived(lifeTable, from, to);
+    for (const activity of era ? era.activities : currentActivities) {
+      entryFor(activity).yearsRemaining += calculateAverageDailyHours(activity) / 24 * expectedYears;
+    }
+  }
+
+  return Array.from(totals.values());
+}
+
+// Only weekly activities can be painted in the weekly calendar
+export function isWeeklyActivity(activity: ActivityData): boolean {
+  return (activity.recurrence?.frequency ?? 'weekly') === 'weekly';
+}
+
+// Average hours on active days and the number of active days for a painted weekly schedule
+export function scheduleToHours(schedule: number[]): { hours: number; daysPerWeek: number } {
+  const days = new Set(schedule.map(slot => Math.floor(slot / 24))).size;
+  if (days === 0) {
+    return { hours: 0, daysPerWeek: 7 };
+  }
+  return { hours: Math.round((schedule.length / days) * 100) / 100, daysPerWeek: days };
+}
+
+export interface ScheduleSummary {
+  overlapHours: number; // Hours of the week painted for more than one activity
+  unassignedHours: number; // Hours of the week no activity accounts for
+}
+
+/**
+ * Checks the weekly calendar for double-booked and unaccounted hours. Activities without a
+ * schedule still use up their hours × days per week, they just aren't placed on the grid.
+ * Concurrent activities are painted over their host's hours, so they are left out.
+ */
+export function summarizeSchedule(activities: ActivityData[]): ScheduleSummary {
+  const counts = new Array<number>(WEEK_HOURS).fill(0);
+  let unscheduledHours = 0;
+  for (const activity of activities.filter(activity => !activity.concurrentWith)) {
+    if (activity.schedule) {
+      new Set(activity.schedule).forEach(slot => counts[slot]++);
+    } else {
+      unscheduledHours += calculateAverageDailyHours(activity) * 7;
+    }
+  }
+  const overlapHours = counts.filter(count => count > 1).length;
+  const paintedHours = counts.filter(count => count > 0).length;
+  return {
+    overlapHours,
+    unassignedHours: Math.max(0, WEEK_HOURS - paintedHours - unscheduledHours)
+  };
+}
+
+/**
+ * Gives every weekly activity without a schedule one built from its hours and days per week,
+ * filling each active day from midnight onwards around hours already painted
+ */
+export function layOutSchedules(activities: ActivityData[]): ActivityData[] {
+  const taken = new Set(activities.flatMap(activity => activity.schedule ?? []));
+  return activities.map(activity => {
+    if (activity.schedule || activity.concurrentWith || !isWeeklyActivity(activity)) return activity;
+    const schedule: number[] = [];
+    for (let day = 0; day < activity.daysPerWeek; day++) {
+      let needed = Math.round(activity.hours);
+      for (let hour = 0; hour < 24 && needed > 0; hour++) {
+        const slot = day * 24 + hour;
+        if (!taken.has(slot)) {
+          taken.add(slot);
+          schedule.push(slot);
+          needed--;
+        }
+      }
+    }
+    return { ...activity, schedule, ...scheduleToHours(schedule) };
+  });
+}
+
+// Expected remaining years given survival to the current age, not expectancy at birth minus age
 export function calculateRemainingYears(
   birthdate: Date,
-  lifeExpectancy: number
+  lifeTable: LifeTable
 ): number {
   const ageInYears = calculateAge(birthdate);
-  return Math.max(0, lifeExpectancy - ageInYears);
+  return Math.max(0, remainingLifeExpectancy(lifeTable, ageInYears));
 }
 
 export function calculateRemainingWeeks(
   birthdate: Date,
-  lifeExpectancy: number
+  lifeTable: LifeTable
 ): number {
-  return Math.max(0, calculateRemainingYears(birthdate, lifeExpectancy) * 52);
+  return Math.max(0, calculateRemainingYears(birthdate, lifeTable) * 52);
 }
 
 export function calculateTotalWeeks(lifeExpectancy: number): number {
@@ -56,6 +222,27 @@ export function formatNumber(num: number): string {
   return num.toLocaleString(undefined, { maximumFractionDigits: 1 });
 }
 
+// 32-bit FNV-1a: a small, stable string hash for seeding selections
+function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Orders items pseudo-randomly but reproducibly: the same seed always gives the same order,
+ * and each item's place depends only on the seed and its own key, not on the rest of the list
+ */
+export function rankBySeed<T>(items: T[], seed: string, key: (item: T) => string = String): T[] {
+  return items
+    .map(item => ({ item, rank: hashString(`${seed}|${key(item)}`) }))
+    .sort((a, b) => a.rank - b.rank)
+    .map(({ item }) => item);
+}
+
 export function getRandomColorHex(): string {
   const colors = [
     "#3B82F6", // blue
@@ -72,7 +259,8 @@ export function getRandomColorHex(): string {
   return colors[Math.floor(Math.random() * colors.length)];
 }
 
-export function getActivityIcon(activityName: string): string {
+// A few well-known names get their own icon; anything else gets its category's
+export function getActivityIcon(activityName: string, category: ActivityCategory = inferActivityCategory(activityName)): string {
   const activityIcons: Record<string, string> = {
     Sleep: "fa-bed",
     Work: "fa-briefcase",
@@ -96,18 +284,13 @@ export function getActivityIcon(activityName: string): string {
   };
 
   const normalizedName = activityName.trim().toLowerCase();
+  const named = Object.keys(activityIcons).find(key => key.toLowerCase() === normalizedName);
   
-  for (const [key, icon] of Object.entries(activityIcons)) {
-    if (normalizedName.includes(key.toLowerCase())) {
-      return icon;
-    }
-  }
-  
-  return "fa-circle"; // Default icon
+  return named ? activityIcons[named] : getActivityCategoryInfo(category).icon;
 }
 
 export function generateActivityInsights(
-  activityStats: Array<{ name: string; years: number; percentage: number }>,
+  activityStats: Array<{ name: string; years: number; percentage: number; category?: ActivityCategory }>,
   age: number,
   lifeExpectancy: number
 ): Array<{
@@ -138,7 +321,7 @@ export function generateActivityInsights(
       text: `You spend ${topActivity.percentage.toFixed(1)}% of your life on ${topActivity.name}. Consider if this aligns with your life priorities.`,
       activityName: topActivity.name,
       type: 'balance',
-      icon: getActivityIcon(topActivity.name),
+      icon: getActivityIcon(topActivity.name, activityCategoryOf(topActivity)),
       priority: 9
     });
   }
@@ -151,19 +334,19 @@ export function generateActivityInsights(
         text: `You spend ${ratio.toFixed(1)}x more time on ${topActivity.name} than on ${secondActivity.name}. Is this intentional?`,
         activityName: topActivity.name,
         type: 'comparison',
-        icon: getActivityIcon(topActivity.name),
+        icon: getActivityIcon(topActivity.name, activityCategoryOf(topActivity)),
         priority: 8
       });
     }
   }
   
   // Check for sleep patterns
-  const sleep = activityStats.find(a => a.name.toLowerCase() === 'sleep');
+  const sleep = activityStats.find(a => activityCategoryOf(a) === 'sleep');
   if (sleep) {
     if (sleep.percentage < 25) {
       insights.push({
         text: `You spend less than 25% of your time sleeping. Most health experts recommend about 33% (8 hours daily).`,
-        activityName: 'Sleep',
+        activityName: sleep.name,
         type: 'pattern',
         icon: 'fa-bed',
         priority: 10
@@ -171,7 +354,7 @@ export function generateActivityInsights(
     } else if (sleep.percentage > 40) {
       insights.push({
         text: `You spend over 40% of your time sleeping. This is above the average of 33% (8 hours daily).`,
-        activityName: 'Sleep',
+        activityName: sleep.name,
         type: 'pattern',
         icon: 'fa-bed',
         priority: 7
@@ -180,12 +363,12 @@ export function generateActivityInsights(
   }
   
   // Check for work-life balance
-  const work = activityStats.find(a => a.name.toLowerCase() === 'work');
+  const work = activityStats.find(a => activityCategoryOf(a) === 'work');
   if (work) {
     if (work.percentage > 33) {
       insights.push({
         text: `Work occupies over a third of your life. Consider ways to make your work more fulfilling or find better work-life balance.`,
-        activityName: 'Work',
+        activityName: work.name,
         type: 'balance',
         icon: 'fa-briefcase',
         priority: 8
@@ -194,11 +377,7 @@ export function generateActivityInsights(
   }
   
   // Check for exercise
-  const exercise = activityStats.find(a => 
-    a.name.toLowerCase() === 'exercise' || 
-    a.name.toLowerCase().includes('workout') || 
-    a.name.toLowerCase().includes('fitness')
-  );
+  const exercise = activityStats.find(a => activityCategoryOf(a) === 'exercise');
   
   if (exercise) {
     if (exercise.percentage < 4) {
@@ -224,25 +403,21 @@ export function generateActivityInsights(
   const yearsRemaining = lifeExpectancy - age;
   
   if (yearsRemaining > 0) {
-    // Random activity for projection insight
-    const randomActivity = activityStats[Math.floor(Math.random() * activityStats.length)];
-    const futureYearsOnActivity = (randomActivity.percentage / 100) * yearsRemaining;
+    // Activity for the projection insight, picked per profile so it doesn't change between renders
+    const [projectedActivity] = rankBySeed(activityStats, `${age.toFixed(1)}|${lifeExpectancy}`, stat => stat.name);
+    const futureYearsOnActivity = (projectedActivity.percentage / 100) * yearsRemaining;
     
     insights.push({
-      text: `At your current rate, you'll spend about ${futureYearsOnActivity.toFixed(1)} more years on ${randomActivity.name} in your lifetime.`,
-      activityName: randomActivity.name,
+      text: `At your current rate, you'll spend about ${futureYearsOnActivity.toFixed(1)} more years on ${projectedActivity.name} in your lifetime.`,
+      activityName: projectedActivity.name,
       type: 'projection',
-      icon: getActivityIcon(randomActivity.name),
+      icon: getActivityIcon(projectedActivity.name, activityCategoryOf(projectedActivity)),
       priority: 6
     });
   }
   
   // Social media insights
-  const socialMedia = activityStats.find(a => 
-    a.name.toLowerCase().includes('social media') || 
-    a.name.toLowerCase().includes('phone') ||
-    a.name.toLowerCase().includes('internet')
-  );
+  const socialMedia = activityStats.find(a => activityCategoryOf(a) === 'screen');
   
   if (socialMedia && socialMedia.percentage > 10) {
     insights.push({
@@ -255,12 +430,7 @@ export function generateActivityInsights(
   }
   
   // Personal development insights
-  const personalDevActivities = activityStats.filter(a => 
-    a.name.toLowerCase().includes('read') || 
-    a.name.toLowerCase().includes('study') ||
-    a.name.toLowerCase().includes('learn') ||
-    a.name.toLowerCase().includes('education')
-  );
+  const personalDevActivities = activityStats.filter(a => activityCategoryOf(a) === 'learning');
   
   const totalPersonalDevPercentage = personalDevActivities.reduce((sum, act) => sum + act.percentage, 0);
   
@@ -269,7 +439,7 @@ export function generateActivityInsights(
       text: `You allocate ${totalPersonalDevPercentage.toFixed(1)}% of your time to personal development activities. Small increases here compound over time.`,
       activityName: personalDevActivities[0].name,
       type: 'motivation',
-      icon: getActivityIcon(personalDevActivities[0].name),
+      icon: getActivityIcon(personalDevActivities[0].name, activityCategoryOf(personalDevActivities[0])),
       priority: 7
     });
   }
@@ -0,0 +1,38 @@
+/**
+ * Round trips of visualization exports, including names a spreadsheet would run as formulas.
+ */
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createVisualizationExport, exportToCsv, exportToJson, parseVisualizationExport, type VisualizationInput } from './visualization-export';
+
+const input: VisualizationInput = {
+  birthdate: '1990-01-01',
+  country: 'USA',
+  sex: 'total',
+  activities: [
+    { id: 'sleep', name: 'Sleep', hours: 8, daysPerWeek: 7, icon: 'fa-bed', color: '#6366F1' },
+    { id: 'formula', name: '=HYPERLINK("http://example.com","Work")', hours: 8, daysPerWeek: 5, icon: 'fa-briefcase', color: '#10B981' },
+    { id: 'quoted', name: "'+1 on reading", hours: 1, daysPerWeek: 3, icon: 'fa-book', color: '#F59E0B' }
+  ],
+  eras: []
+};
+
+describe('visualization export', () => {
+  it('quotes formula-like text in CSV so spreadsheets show it as text', () => {
+    const csv = exportToCsv(createVisualizationExport(input, null));
+    assert.ok(csv.includes(`"'=HYPERLINK(""http://example.com"",""Work"")"`));
+    assert.ok(csv.includes(`''+1 on reading`));
+    assert.ok(!/(^|,)[=+\-@]/m.test(csv));
+  });
+
+  it('reads CSV exports back to the same input', () => {
+    const parsed = parseVisualizationExport(exportToCsv(createVisualizationExport(input, null)));
+    assert.deepEqual(parsed.activities.map(activity => activity.name), input.activities.map(activity => activity.name));
+    assert.equal(parsed.birthdate, input.birthdate);
+  });
+
+  it('reads JSON exports back to the same input', () => {
+    const parsed = parseVisualizationExport(exportToJson(createVisualizationExport(input, null)));
+    assert.deepEqual(parsed.activities, input.activities);
+  });
+});
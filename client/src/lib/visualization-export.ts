@@ -0,0 +1,246 @@
+import { z } from 'zod';
+import { activitiesSchema, activitySchema, lifeErasSchema, sexSchema } from '@shared/schema';
+import { activityCategoryOf } from '@shared/activity-categories';
+import type { ActivityData, LifeEraData, VisualizeResult } from '@/types';
+import { parseCsv } from '@/lib/time-import';
+import { getActivityIcon } from '@/lib/utils';
+
+/**
+ * Bump when the file layout changes, and add a migration from the previous version to
+ * MIGRATIONS so files exported by older releases still import.
+ */
+export const EXPORT_VERSION = 1;
+
+const EXPORT_FORMAT = 'life-visualizer-export';
+
+// Upgrades a raw file of version N (the key) to version N + 1
+const MIGRATIONS: Record<number, (file: Record<string, unknown>) => Record<string, unknown>> = {};
+
+// Everything the form needs to reproduce a visualization
+export interface VisualizationInput {
+  birthdate: string;
+  country: string;
+  sex: z.infer<typeof sexSchema>;
+  profession?: string;
+  manualLifeExpectancy?: number; // Set when the life expectancy was entered by hand
+  activities: ActivityData[];
+  eras: LifeEraData[];
+}
+
+export interface VisualizationExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  input: VisualizationInput;
+  result: VisualizeResult | null;
+}
+
+const inputSchema = z.object({
+  birthdate: z.string().refine(date => !isNaN(new Date(date).getTime()), 'Must be a valid date'),
+  country: z.string(),
+  sex: sexSchema.default('total'),
+  profession: z.string().optional(),
+  manualLifeExpectancy: z.number().positive().optional(),
+  // Same rules as saving, so an imported file can't carry activities the form would reject
+  activities: activitiesSchema,
+  eras: lifeErasSchema.default([]),
+});
+
+export function createVisualizationExport(input: VisualizationInput, result: VisualizeResult | null): VisualizationExport {
+  return { format: EXPORT_FORMAT, version: EXPORT_VERSION, exportedAt: new Date().toISOString(), input, result };
+}
+
+export function exportToJson(file: VisualizationExport): string {
+  return JSON.stringify(file, null, 2);
+}
+
+const CSV_COLUMNS = [
+  'section', 'id', 'era', 'name', 'value', 'hours', 'daysPerWeek', 'frequency', 'daysPerPeriod',
+  'activeMonths', 'schedule', 'concurrentWith', 'category', 'icon', 'color', 'startAge', 'endAge',
+  'yearsSoFar', 'yearsRemaining', 'lifePercentage'
+] as const;
+
+type CsvRow = Partial<Record<typeof CSV_COLUMNS[number], string | number | undefined>>;
+
+/**
+ * One table for spreadsheets: `section` says what each row holds. Input rows (meta, input,
+ * activity, era, era-activity) are enough to import the file again; result and projection
+ * rows carry the computed numbers.
+ */
+export function exportToCsv(file: VisualizationExport): string {
+  const { input, result } = file;
+  const activityRow = (section: string, activity: ActivityData, era?: string): CsvRow => ({
+    section,
+    id: activity.id,
+    era,
+    name: activity.name,
+    hours: activity.hours,
+    daysPerWeek: activity.daysPerWeek,
+    frequency: activity.recurrence?.frequency,
+    daysPerPeriod: activity.recurrence?.daysPerPeriod,
+    activeMonths: activity.recurrence?.activeMonths?.join(' '),
+    schedule: activity.schedule?.join(' '),
+    concurrentWith: activity.concurrentWith,
+    category: activity.category,
+    icon: activity.icon,
+    color: activity.color
+  });
+
+  const rows: CsvRow[] = [
+    { section: 'meta', name: 'format', value: file.format },
+    { section: 'meta', name: 'version', value: file.version },
+    { section: 'meta', name: 'exportedAt', value: file.exportedAt },
+    { section: 'input', name: 'birthdate', value: input.birthdate },
+    { section: 'input', name: 'country', value: input.country },
+    { section: 'input', name: 'sex', value: input.sex },
+    { section: 'input', name: 'profession', value: input.profession },
+    { section: 'input', name: 'manualLifeExpectancy', value: input.manualLifeExpectancy },
+    ...input.activities.map(activity => activityRow('activity', activity)),
+    ...input.eras.flatMap(era => [
+      { section: 'era', id: era.id, name: era.name, startAge: era.startAge, endAge: era.endAge },
+      ...era.activities.map(activity => activityRow('era-activity', activity, era.id))
+    ]),
+  ];
+
+  if (result) {
+    const scalars: (keyof VisualizeResult)[] = [
+      'age', 'lifeExpectancy', 'lifeExpectancyAtBirth', 'weeksLived', 'weeksTotal', 'weeksRemaining'
+    ];
+    rows.push(...scalars.map(name => ({ section: 'result', name, value: result[name] as number | undefined })));
+    rows.push(...result.futureProjections.map(projection => ({
+      section: 'projection',
+      name: projection.activity,
+      concurrentWith: projection.concurrentWith,
+      yearsSoFar: round(projection.yearsSoFar),
+      yearsRemaining: round(projection.yearsRemaining),
+      lifePercentage: round(result.activityStats.find(stat => stat.name === projection.activity)?.percentage)
+    })));
+  }
+
+  return [CSV_COLUMNS.join(','), ...rows.map(row => CSV_COLUMNS.map(column => toCsvField(row[column])).join(','))]
+    .join('\n');
+}
+
+/**
+ * Reads a JSON or CSV export back into form input, migrating files from older versions.
+ * Results aren't read back; importing recomputes them from the input.
+ */
+export function parseVisualizationExport(content: string): VisualizationInput {
+  const text = content.replace(/^\uFEFF/, '').trim();
+  const raw = text.startsWith('{') ? parseJsonExport(text) : parseCsvExport(text);
+
+  if (raw.format !== EXPORT_FORMAT) {
+    throw new Error('This is not a Life Visualizer export');
+  }
+  let file = raw;
+  let version = Number(file.version);
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error('The file has no valid version');
+  }
+  if (version > EXPORT_VERSION) {
+    throw new Error(`The file is from a newer version of the app (format ${version}); please update and try again`);
+  }
+  while (version < EXPORT_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`Files of format ${version} can no longer be imported`);
+    file = { ...migrate(file), version: ++version };
+  }
+
+  const parsed = inputSchema.safeParse(file.input);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`Invalid ${issue.path.join('.') || 'input'}: ${issue.message}`);
+  }
+  const { activities, eras, ...rest } = parsed.data;
+  return {
+    ...rest,
+    activities: toFormActivities(activities),
+    eras: eras.map(era => ({ ...era, activities: toFormActivities(era.activities) }))
+  };
+}
+
+function parseJsonExport(text: string): Record<string, unknown> {
+  try {
+    const data = JSON.parse(text);
+    if (data && typeof data === 'object' && !Array.isArray(data)) return data;
+  } catch {
+    // Reported below
+  }
+  throw new Error('The file is not valid JSON');
+}
+
+// Rebuilds the JSON layout from the CSV's input rows
+function parseCsvExport(text: string): Record<string, unknown> {
+  const [header, ...rows] = parseCsv(text);
+  if (!header?.includes('section')) {
+    throw new Error('The file is not a Life Visualizer export');
+  }
+  const records = rows.map(row => Object.fromEntries(header.map((column, i) => [column, fromCsvField(row[i] ?? '')])));
+  const valuesOf = (section: string) => Object.fromEntries(
+    records.filter(record => record.section === section && record.value !== '').map(record => [record.name, record.value])
+  );
+  const number = (value: string) => value === '' ? undefined : Number(value);
+  const numbers = (value: string) => value === '' ? undefined : value.split(' ').map(Number);
+  const toActivity = (record: Record<string, string>) => ({
+    id: record.id,
+    name: record.name,
+    hours: number(record.hours),
+    daysPerWeek: number(record.daysPerWeek),
+    icon: record.icon || undefined,
+    color: record.color || undefined,
+    schedule: numbers(record.schedule),
+    concurrentWith: record.concurrentWith || undefined,
+    category: record.category || undefined,
+    recurrence: record.frequency ? {
+      frequency: record.frequency,
+      daysPerPeriod: number(record.daysPerPeriod),
+      activeMonths: numbers(record.activeMonths)
+    } : undefined
+  });
+
+  const meta = valuesOf('meta');
+  const input = valuesOf('input');
+  return {
+    ...meta,
+    input: {
+      ...input,
+      manualLifeExpectancy: input.manualLifeExpectancy ? Number(input.manualLifeExpectancy) : undefined,
+      activities: records.filter(record => record.section === 'activity').map(toActivity),
+      eras: records.filter(record => record.section === 'era').map(era => ({
+        id: era.id,
+        name: era.name,
+        startAge: Number(era.startAge),
+        endAge: Number(era.endAge),
+        activities: records.filter(record => record.section === 'era-activity' && record.era === era.id).map(toActivity)
+      }))
+    }
+  };
+}
+
+// Exported activities may omit icon/color, the form always has them
+function toFormActivities(activities: z.infer<typeof activitySchema>[]): ActivityData[] {
+  return activities.map(activity => ({
+    ...activity,
+    icon: activity.icon || getActivityIcon(activity.name, activityCategoryOf(activity)),
+    color: activity.color || '#3B82F6'
+  }));
+}
+
+function round(value: number | undefined): number | undefined {
+  return value === undefined ? undefined : Math.round(value * 100) / 100;
+}
+
+// Text a spreadsheet would run as a formula, after any quote marks already added to escape it
+const FORMULA_PREFIX = /^'*[=+\-@]/;
+
+// Text that looks like a formula gets a leading quote mark, so spreadsheets show it as text
+function toCsvField(value: string | number | undefined): string {
+  if (value === undefined) return '';
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Removes the quote mark toCsvField adds to formula-like text
+function fromCsvField(text: string): string {
+  return text.startsWith("'") && FORMULA_PREFIX.test(text) ? text.slice(1) : text;
+}
@@ -3,8 +3,9 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { v4 as uuidv4 } from 'uuid';
-import Chart from 'chart.js/auto';
+import Chart, { type Plugin } from 'chart.js/auto';
 import html2canvas from 'html2canvas';
+import { Link, useRoute } from 'wouter';
 import { 
   Moon, 
   Sun, 
@@ -19,7 +20,10 @@ import {
   Share2,
   Sparkles,
   BarChart3,
-  PieChart
+  PieChart,
+  CalendarRange,
+  FileDown,
+  FileUp
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { 
@@ -62,29 +66,62 @@ import {
 } from '@/components/ui/dialog';
 import { Separator } from '@/components/ui/separator';
 import { SEO } from '@/components/SEO';
-import { fetchCountries, fetchLifeExpectancy } from '@/services/WorldBankApi';
+import { fetchCountries, fetchLifeExpectancy, fetchLifeTable } from '@/services/WorldBankApi';
 import { 
   CountryInfo, 
   ActivityData, 
+  LifeEraData,
   VisualizeResult, 
   ActivityStat 
 } from '@/types';
 import { 
   calculateAliveDays, 
-  calculateActivityYears, 
+  calculateLifetimeActivityYears,
   calculateAge, 
   calculateLivedWeeks, 
+  calculateRemainingYears, 
   calculateRemainingWeeks, 
   calculateTotalWeeks, 
   getActivityIcon, 
   getRandomColorHex,
-  formatNumber
+  formatNumber,
+  summarizeSchedule,
+  calculateEffectiveDailyHours,
+  findConcurrentHostName
 } from '@/lib/utils';
 import { apiRequest } from '@/lib/queryClient';
+import {
+  lifeErasSchema,
+  recurrenceSchema,
+  sexSchema,
+  type CountryLifeTable,
+  type LifeExpectancyFigure,
+  type Sex,
+  type SharedLifeData
+} from '@shared/schema';
+import { buildModelLifeTable, expectedAgeAtDeath, remainingLifeExpectancy, survivalDistribution, type LifeTable } from '@shared/life-table';
+import { activityCategoryOf, activityCategorySchema } from '@shared/activity-categories';
 import { DailyQuote } from '@/components/DailyQuote';
+import { AccountMenu } from '@/components/AccountMenu';
+import { SavedProfiles, ProfileSnapshot, toActivityData, toLifeEraData } from '@/components/SavedProfiles';
 import { ActivityInput } from '@/components/ActivityInput';
+import { LifeErasEditor } from '@/components/LifeErasEditor';
+import { WeeklyScheduleEditor } from '@/components/WeeklyScheduleEditor';
+import { TimeTrackingImport } from '@/components/TimeTrackingImport';
+import { LifeReportButton, type ReportSources } from '@/components/LifeReport';
+import {
+  createVisualizationExport,
+  exportToCsv,
+  exportToJson,
+  parseVisualizationExport
+} from '@/lib/visualization-export';
 import { LifeTimeline } from '@/components/LifeTimeline';
+import { SurvivalCurve } from '@/components/SurvivalCurve';
+import { LifeExpectancyHistoryChart } from '@/components/LifeExpectancyHistoryChart';
 import { TrendAnalysis } from '@/components/TrendAnalysis';
+import { ScheduleOptimizer } from '@/components/ScheduleOptimizer';
+import { ImpactCitation } from '@/components/ImpactCitation';
+import { IMPACT_MODEL, evaluateOptimization, remainingYearsRange, type ProjectionRange } from '@/lib/impact-model';
 import { 
   useLifeProjections, 
   generateDynamicComparisons,
@@ -102,6 +139,7 @@ const formSchema = z.object({
     message: "Please enter a valid birthdate in the past"
   }),
   country: z.string().min(1, "Please select a country"),
+  sex: sexSchema,
   profession: z.string().optional(),
   activities: z.array(
     z.object({
@@ -115,10 +153,15 @@ const formSchema = z.object({
         .max(7, "Days per week cannot exceed 7")
         .default(7),
       icon: z.string().optional(),
-      color: z.string().optional()
+      color: z.string().optional(),
+      category: activityCategorySchema.optional(),
+      schedule: z.array(z.number()).optional(),
+      concurrentWith: z.string().optional(),
+      recurrence: recurrenceSchema.optional()
     })
   )
   .min(1, "At least one activity is required"),
+  eras: lifeErasSchema,
 });
 
 type FormData = z.infer<typeof formSchema>;
@@ -203,6 +246,13 @@ const PROFESSION_OPTIONS = [
   { value: 'other', label: 'Other' },
 ];
 
+// Sex options for picking the sex-specific World Bank life expectancy
+const SEX_OPTIONS: { value: Sex; label: string }[] = [
+  { value: 'total', label: 'Not specified (population average)' },
+  { value: 'female', label: 'Female' },
+  { value: 'male', label: 'Male' },
+];
+
 // Country-specific work culture and lifestyle adjustments
 const getCountryAdjustments = (country: string) => {
   // Work culture adjustments based on country
@@ -244,8 +294,10 @@ const getSuggestedTemplate = (age: number, country: string, profession?: string)
   const adjustedTemplate = baseTemplate.map(activity => {
     let adjustedActivity = { ...activity, id: uuidv4() };
     
+    const category = activityCategoryOf(activity);
+    
     // Adjust work hours based on country culture
-    if (activity.name.toLowerCase().includes('work') || activity.name.toLowerCase().includes('business')) {
+    if (category === 'work') {
       if (countryAdjustments.hasLongWorkHours) {
         adjustedActivity.hours = Math.min(24, adjustedActivity.hours + 1); // Add 1 hour for work-intensive countries
       } else if (countryAdjustments.hasWorkLifeBalance) {
@@ -254,7 +306,7 @@ const getSuggestedTemplate = (age: number, country: string, profession?: string)
     }
     
     // Adjust sleep based on work culture
-    if (activity.name.toLowerCase().includes('sleep')) {
+    if (category === 'sleep') {
       if (countryAdjustments.hasLongWorkHours) {
         adjustedActivity.hours = Math.max(5, adjustedActivity.hours - 1); // Less sleep in work-intensive countries
       } else if (countryAdjustments.hasWorkLifeBalance) {
@@ -266,9 +318,7 @@ const getSuggestedTemplate = (age: number, country: string, profession?: string)
   }).filter(activity => activity.hours > 0);
   
   // Add commute if applicable and not already present
-  const hasCommute = adjustedTemplate.some(activity => 
-    activity.name.toLowerCase().includes('commute')
-  );
+  const hasCommute = adjustedTemplate.some(activity => activityCategoryOf(activity) === 'commute');
   
   if (!hasCommute && countryAdjustments.hasLongCommute && age >= 18 && age < 65) {
     const commuteHours = countryAdjustments.hasLongCommute ? 2.5 : 1;
@@ -278,14 +328,12 @@ const getSuggestedTemplate = (age: number, country: string, profession?: string)
       hours: commuteHours,
       daysPerWeek: 7,
       icon: 'fa-car',
-      color: '#F59E0B'
+      color: '#F59E0B',
+      category: 'commute'
     });
     
     // Reduce leisure time to accommodate commute
-    const leisureIndex = adjustedTemplate.findIndex(activity => 
-      activity.name.toLowerCase().includes('leisure') || 
-      activity.name.toLowerCase().includes('personal')
-    );
+    const leisureIndex = adjustedTemplate.findIndex(activity => activityCategoryOf(activity) === 'leisure');
     if (leisureIndex !== -1) {
       adjustedTemplate[leisureIndex].hours = Math.max(1, adjustedTemplate[leisureIndex].hours - commuteHours);
     }
@@ -335,6 +383,36 @@ const getRecommendationMessage = (age: number, country: string, profession?: str
   
   return baseMessage + countryContext + '.';
 };
+
+// Vertical error bars over one bar dataset, reading the ranges when drawn so updates pick them up
+const errorBarsPlugin = (datasetIndex: number, getRanges: () => ProjectionRange[]): Plugin<'bar'> => ({
+  id: 'errorBars',
+  afterDatasetsDraw(chart) {
+    if (!chart.isDatasetVisible(datasetIndex)) return;
+    const ranges = getRanges();
+    const { ctx, scales: { y } } = chart;
+    const capHalfWidth = 4;
+    
+    ctx.save();
+    ctx.strokeStyle = '#374151';
+    ctx.lineWidth = 1.5;
+    chart.getDatasetMeta(datasetIndex).data.forEach((bar, index) => {
+      const range = ranges[index];
+      if (!range) return;
+      const top = y.getPixelForValue(range.high);
+      const bottom = y.getPixelForValue(range.low);
+      ctx.beginPath();
+      ctx.moveTo(bar.x, top);
+      ctx.lineTo(bar.x, bottom);
+      ctx.moveTo(bar.x - capHalfWidth, top);
+      ctx.lineTo(bar.x + capHalfWidth, top);
+      ctx.moveTo(bar.x - capHalfWidth, bottom);
+      ctx.lineTo(bar.x + capHalfWidth, bottom);
+      ctx.stroke();
+    });
+    ctx.restore();
+  }
+});
 const LifeVisualizer: React.FC = () => {
 
   const [darkMode, setDarkMode] = useState<boolean>(true);
@@ -342,7 +420,20 @@ const LifeVisualizer: React.FC = () => {
   const [loading, setLoading] = useState<boolean>(false);
   const [countriesLoading, setCountriesLoading] = useState<boolean>(true);
   const [lifeExpectancy, setLifeExpectancy] = useState<number | null>(null);
+  // Year and source of the World Bank figure behind lifeExpectancy
+  const [lifeExpectancyFigure, setLifeExpectancyFigure] = useState<LifeExpectancyFigure | null>(null);
+  const [lifeTable, setLifeTable] = useState<CountryLifeTable | null>(null);
+  // Life table behind the current visualizeResult, kept for timeline projections
+  const [resultLifeTable, setResultLifeTable] = useState<LifeTable | null>(null);
   const [visualizeResult, setVisualizeResult] = useState<VisualizeResult | null>(null);
+  // Data behind visualizeResult, for the PDF report's methodology (null for shared results)
+  const [resultSources, setResultSources] = useState<ReportSources | null>(null);
+  // Shared and older saved results carry no table, so rebuild a model one from their expectancy at birth
+  const projectionLifeTable = useMemo(() => {
+    if (resultLifeTable) return resultLifeTable;
+    if (!visualizeResult) return null;
+    return buildModelLifeTable(visualizeResult.lifeExpectancyAtBirth ?? visualizeResult.lifeExpectancy);
+  }, [resultLifeTable, visualizeResult?.lifeExpectancyAtBirth, visualizeResult?.lifeExpectancy]);
   const [searchTerm, setSearchTerm] = useState<string>('');
   const [timelineSliderValue, setTimelineSliderValue] = useState<number>(0);
   const [projectedAge, setProjectedAge] = useState<number | null>(null);
@@ -353,6 +444,9 @@ const LifeVisualizer: React.FC = () => {
   } | null>(null);
   const [isSharing, setIsSharing] = useState<boolean>(false);
   const resultsRef = useRef<HTMLDivElement>(null);
+  const exportFileRef = useRef<HTMLInputElement>(null);
+  // Set after importing a file, once its life expectancy is in place, to rerun the visualization
+  const [visualizeAfterImport, setVisualizeAfterImport] = useState<boolean>(false);
   
   // Apply dark mode by default on initial render
   useEffect(() => {
@@ -363,25 +457,38 @@ const LifeVisualizer: React.FC = () => {
   const pieChartInstance = useRef<Chart | null>(null);
   const projectionChartRef = useRef<HTMLCanvasElement | null>(null);
   const projectionChartInstance = useRef<Chart | null>(null);
+  const projectionRangesRef = useRef<ProjectionRange[]>([]);
 
   const { toast } = useToast();
 
+  // Public read-only share page: /s/:slug
+  const [, shareParams] = useRoute('/s/:slug');
+  const shareSlug = shareParams?.slug ?? null;
+  const [shareError, setShareError] = useState<string | null>(null);
+
   const form = useForm<FormData>({
     resolver: zodResolver(formSchema),
     defaultValues: {
       birthdate: '',
       country: '',
+      sex: 'total',
       profession: '',
       activities: DEFAULT_ACTIVITIES,
+      eras: [],
     },
   });
   
   // Watch activities array to ensure UI updates when it changes
   const activities = form.watch('activities');
+  const eras = form.watch('eras');
   const birthdate = form.watch('birthdate');
   const country = form.watch('country');
+  const sex = form.watch('sex');
   const profession = form.watch('profession');
 
+  // Weekly calendar editor is opt-in; the activity list stays the default input
+  const [showWeeklyCalendar, setShowWeeklyCalendar] = useState(false);
+
   // State for managing smart suggestions
   const [showSuggestion, setShowSuggestion] = useState(false);
   const [suggestionMessage, setSuggestionMessage] = useState('');
@@ -400,8 +507,10 @@ const LifeVisualizer: React.FC = () => {
     trendAnalysis: any[];
     costBenefitAnalysis: any[];
     lifePhaseOptimization: any;
+    age: number; // The age and expected age at death the analytics used, after any timeline projection
+    lifeExpectancy: number;
   } | null>(null);
-  const [selectedAnalyticsTab, setSelectedAnalyticsTab] = useState<'trends' | 'cost-benefit' | 'life-phases'>('trends');
+  const [selectedAnalyticsTab, setSelectedAnalyticsTab] = useState<'trends' | 'cost-benefit' | 'life-phases' | 'optimizer'>('trends');
 
   // Effect to trigger smart suggestions when inputs change
   useEffect(() => {
@@ -434,7 +543,7 @@ const LifeVisualizer: React.FC = () => {
 
   // Stable key for activities to trigger analytics recalculation (includes all properties)
   const activitiesKey = useMemo(() => 
-    activities.map(a => `${a.id}:${a.name}:${a.hours}:${a.daysPerWeek}:${a.icon}:${a.color}`).join('|'),
+    activities.map(a => `${a.id}:${a.name}:${a.category}:${a.hours}:${a.daysPerWeek}:${a.icon}:${a.color}`).join('|'),
     [activities]
   );
 
@@ -443,13 +552,16 @@ const LifeVisualizer: React.FC = () => {
     if (!visualizeResult) return;
 
     try {
-      const expectancy = visualizeResult.lifeExpectancy;
-      
       // Use projected age if timeline slider is active, otherwise use current age
       const effectiveAge = (timelineSliderValue > 0 && projectedAge !== null) 
         ? projectedAge 
         : visualizeResult.age;
       
+      // Surviving to a later age pushes the expected age at death out too
+      const expectancy = effectiveAge !== visualizeResult.age && projectionLifeTable
+        ? expectedAgeAtDeath(projectionLifeTable, effectiveAge)
+        : visualizeResult.lifeExpectancy;
+      
       // Explicit bail-out: disable analytics when age >= life expectancy (invalid horizon)
       if (effectiveAge >= expectancy) {
         setAnalyticsData(null);
@@ -515,7 +627,9 @@ const LifeVisualizer: React.FC = () => {
       setAnalyticsData({
         trendAnalysis,
         costBenefitAnalysis: costBenefitAnalysis.slice(0, 8),
-        lifePhaseOptimization
+        lifePhaseOptimization,
+        age: effectiveAge,
+        lifeExpectancy: expectancy
       });
 
     } catch (error) {
@@ -523,7 +637,7 @@ const LifeVisualizer: React.FC = () => {
       setAnalyticsData(null);
     }
     // Dependencies: visualizeResult primitives, activitiesKey, timeline state
-  }, [visualizeResult?.age, visualizeResult?.lifeExpectancy, activitiesKey, timelineSliderValue, projectedAge, activities]);
+  }, [visualizeResult?.age, visualizeResult?.lifeExpectancy, projectionLifeTable, activitiesKey, timelineSliderValue, projectedAge, activities]);
 
   // Add manual life expectancy state
   const [manualLifeExpectancy, setManualLifeExpectancy] = useState<string>('');
@@ -557,14 +671,18 @@ const LifeVisualizer: React.FC = () => {
     getCountries();
   }, [toast]);
 
-  // Handle country change
-  const handleCountryChange = async (value: string) => {
+  // Handle country change (also used to refresh the figure when sex changes)
+  const handleCountryChange = async (value: string, sex: Sex = form.getValues('sex')) => {
     form.setValue('country', value);
     
     try {
-      const expectancy = await fetchLifeExpectancy(value);
+      const [figure, table] = await Promise.all([
+        fetchLifeExpectancy(value, sex),
+        // Without a life table, visualizeData falls back to a model table for the expectancy
+        fetchLifeTable(value, sex).catch(() => null)
+      ]);
       
-      if (!expectancy) {
+      if (!figure.lifeExpectancy) {
         toast({
           title: "No life expectancy data available",
           description: "Data is not available for this country. Please use the manual life expectancy input instead.",
@@ -573,10 +691,14 @@ const LifeVisualizer: React.FC = () => {
         // Toggle the manual life expectancy input
         setUseManualLifeExpectancy(true);
         setLifeExpectancy(null);
+        setLifeExpectancyFigure(null);
+        setLifeTable(null);
         return;
       }
       
-      setLifeExpectancy(expectancy);
+      setLifeExpectancy(figure.lifeExpectancy);
+      setLifeExpectancyFigure(figure);
+      setLifeTable(table);
     } catch (error) {
       toast({
         title: "Error fetching life expectancy",
@@ -586,15 +708,139 @@ const LifeVisualizer: React.FC = () => {
       // Toggle the manual life expectancy input
       setUseManualLifeExpectancy(true);
       setLifeExpectancy(null);
+      setLifeExpectancyFigure(null);
+      setLifeTable(null);
     }
   };
 
+  // Load the shared visualization when opened through a share link
+  useEffect(() => {
+    if (!shareSlug) return;
+
+    const getSharedVisualization = async () => {
+      try {
+        const response = await fetch(`/api/share/${encodeURIComponent(shareSlug)}`);
+        if (!response.ok) {
+          setShareError(response.status === 410
+            ? 'This share link has expired.'
+            : 'This share link is invalid or has been revoked.');
+          return;
+        }
+
+        const shared: SharedLifeData = await response.json();
+        form.setValue('country', shared.countryCode);
+        form.setValue('activities', toActivityData(shared.activities));
+        form.setValue('eras', toLifeEraData(shared.eras ?? []));
+        setResultLifeTable(null);
+        setResultSources(null);
+        setVisualizeResult(JSON.parse(shared.result));
+      } catch (error) {
+        setShareError('Unable to load the shared visualization. Please try again later.');
+      }
+    };
+
+    getSharedVisualization();
+  }, [shareSlug]);
+
+  // Snapshot of the form for saving as a profile (null until the required fields are filled)
+  const getCurrentProfile = (): ProfileSnapshot | null => {
+    const values = form.getValues();
+    if (!values.birthdate || !values.country) return null;
+    return {
+      birthdate: values.birthdate,
+      countryCode: values.country,
+      sex: values.sex,
+      activities: values.activities as ActivityData[],
+      eras: values.eras as LifeEraData[],
+      result: visualizeResult
+    };
+  };
+
+  // Load a saved profile back into the form and refresh its life expectancy
+  const loadProfile = (profile: ProfileSnapshot) => {
+    form.reset({
+      ...form.getValues(),
+      birthdate: profile.birthdate,
+      country: profile.countryCode,
+      sex: profile.sex,
+      activities: profile.activities,
+      eras: profile.eras
+    });
+    handleCountryChange(profile.countryCode, profile.sex);
+    toast({
+      title: "Profile loaded",
+      description: "Click Visualize My Life to see the results.",
+    });
+  };
+
+  // Download the form input and current result as a versioned JSON or CSV file
+  const downloadExport = (format: 'json' | 'csv') => {
+    const values = form.getValues();
+    const manual = parseFloat(manualLifeExpectancy);
+    const file = createVisualizationExport({
+      birthdate: values.birthdate,
+      country: values.country,
+      sex: values.sex,
+      profession: values.profession || undefined,
+      manualLifeExpectancy: useManualLifeExpectancy && manual > 0 ? manual : undefined,
+      activities: values.activities as ActivityData[],
+      eras: values.eras as LifeEraData[]
+    }, visualizeResult);
+
+    const blob = format === 'json'
+      ? new Blob([exportToJson(file)], { type: 'application/json' })
+      : new Blob([exportToCsv(file)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.download = `my-life-visualization.${format}`;
+    link.href = url;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Restore the form from an exported file and visualize it again
+  const importVisualization = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const input = parseVisualizationExport(await file.text());
+      form.reset({
+        ...form.getValues(),
+        birthdate: input.birthdate,
+        country: input.country,
+        sex: input.sex,
+        profession: input.profession ?? '',
+        activities: input.activities,
+        eras: input.eras
+      });
+      if (input.manualLifeExpectancy) {
+        setUseManualLifeExpectancy(true);
+        setManualLifeExpectancy(String(input.manualLifeExpectancy));
+      } else {
+        setUseManualLifeExpectancy(false);
+        await handleCountryChange(input.country, input.sex);
+      }
+      setVisualizeAfterImport(true);
+    } catch (error) {
+      toast({
+        title: "Could not import file",
+        description: error instanceof Error ? error.message : "Please check the file and try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  useEffect(() => {
+    if (!visualizeAfterImport) return;
+    setVisualizeAfterImport(false);
+    form.handleSubmit(visualizeData)();
+  }, [visualizeAfterImport]);
+
   // Calculate projected stats at a specific point in time
   const calculateProjectedStats = (
     formData: FormData, 
     birthdate: Date, 
     currentAge: number, 
-    expectancy: number, 
+    table: LifeTable, 
     weeksAdvanced: number
   ) => {
     const yearsAdvanced = weeksAdvanced / 52;
@@ -605,50 +851,58 @@ const LifeVisualizer: React.FC = () => {
     const additionalDays = weeksAdvanced * 7;
     const projectedAliveDays = originalAliveDays + additionalDays;
     
-    // Calculate new activity stats
-    const activityStats: ActivityStat[] = formData.activities.map(activity => {
-      const years = calculateActivityYears(activity.hours, projectedAliveDays, activity.daysPerWeek);
+    // Remaining time for someone who survives to the projected age, each future year
+    // weighted by the chance of being alive to live it
+    const remainingYearsInLife = remainingLifeExpectancy(table, projectedAge);
+
+    // Eras use their own activity mixes for their age spans, past or planned
+    const lifetimeYears = calculateLifetimeActivityYears(
+      formData.activities as ActivityData[],
+      formData.eras as LifeEraData[],
+      projectedAliveDays,
+      table,
+      projectedAge
+    );
+    const concurrentHostName = (activity: ActivityData) =>
+      findConcurrentHostName(activity, formData.activities as ActivityData[], formData.eras as LifeEraData[]);
+
+    // Calculate new activity stats; activities only planned for later have no slice yet
+    const activityStats: ActivityStat[] = lifetimeYears.filter(({ yearsSoFar }) => yearsSoFar > 0).map(({ activity, yearsSoFar: years }) => {
       const percentage = (years / projectedAge) * 100;
       
       // Generate comparisons based on the new values
-      const dynamicComparisons = generateDynamicComparisons(activity.name, years);
+      const category = activityCategoryOf(activity);
+      const dynamicComparisons = generateDynamicComparisons(activity.name, years, category);
       
       return {
         name: activity.name,
         years,
         percentage,
         color: activity.color || getRandomColorHex(),
-        icon: activity.icon || getActivityIcon(activity.name),
+        icon: activity.icon || getActivityIcon(activity.name, category),
+        category,
+        concurrentWith: concurrentHostName(activity),
         comparisons: dynamicComparisons
       };
     });
 
-    // Calculate remaining time (clamped to prevent negative values)
-    const remainingYearsInLife = Math.max(0, expectancy - projectedAge);
-
     // Calculate future projections (with guards for edge cases)
-    const futureProjections = formData.activities.map(activity => {
-      const yearsSoFar = calculateActivityYears(activity.hours, projectedAliveDays, activity.daysPerWeek);
-      const effectiveDailyHours = (activity.hours * activity.daysPerWeek) / 7;
-      const yearsRemaining = Math.max(0, (effectiveDailyHours / 24) * remainingYearsInLife);
-      
-      return {
-        activity: activity.name,
-        yearsSoFar,
-        yearsRemaining
-      };
-    });
-
-    // Calculate free time using effective daily hours (with guards)
-    const dailyActivitiesHours = formData.activities.reduce((sum, activity) => {
-      return sum + (activity.hours * activity.daysPerWeek) / 7;
-    }, 0);
-    const freeHoursDaily = Math.max(0, 24 - dailyActivitiesHours);
+    const futureProjections: VisualizeResult['futureProjections'] = lifetimeYears.map(({ activity, yearsSoFar, yearsRemaining }) => ({
+      activity: activity.name,
+      yearsSoFar,
+      yearsRemaining: Math.max(0, yearsRemaining),
+      concurrentWith: concurrentHostName(activity)
+    }));
+
+    // Free time is whatever lived or expected time no activity takes up; concurrent ones take none
+    const timeTakingYears = lifetimeYears.filter(entry => !entry.activity.concurrentWith);
+    const activityYearsSoFar = timeTakingYears.reduce((sum, entry) => sum + entry.yearsSoFar, 0);
+    const activityYearsRemaining = timeTakingYears.reduce((sum, entry) => sum + entry.yearsRemaining, 0);
     
     futureProjections.push({
       activity: 'Free Time',
-      yearsSoFar: calculateActivityYears(freeHoursDaily, projectedAliveDays, 7),
-      yearsRemaining: Math.max(0, (freeHoursDaily / 24) * remainingYearsInLife)
+      yearsSoFar: Math.max(0, projectedAliveDays / 365 - activityYearsSoFar),
+      yearsRemaining: Math.max(0, remainingYearsInLife - activityYearsRemaining)
     });
 
     return {
@@ -660,10 +914,8 @@ const LifeVisualizer: React.FC = () => {
 
   // Visualize data
   const visualizeData = (data: FormData) => {
-    // Check if total effective activity hours exceed 24 (averaged across the week)
-    const totalEffectiveHours = data.activities.reduce((total, activity) => {
-      return total + (activity.hours * activity.daysPerWeek) / 7;
-    }, 0);
+    // Check if total effective activity hours exceed 24; concurrent activities share their host's time
+    const totalEffectiveHours = calculateEffectiveDailyHours(data.activities as ActivityData[]);
     if (totalEffectiveHours > 24) {
       toast({
         title: "Total hours exceed limit",
@@ -672,6 +924,23 @@ const LifeVisualizer: React.FC = () => {
       });
       return;
     }
+    if (summarizeSchedule(data.activities as ActivityData[]).overlapHours > 0) {
+      toast({
+        title: "Overlapping time blocks",
+        description: "Some hours in your weekly calendar are painted for more than one activity.",
+        variant: "destructive",
+      });
+      return;
+    }
+    const overbookedEra = data.eras.find(era => calculateEffectiveDailyHours(era.activities as ActivityData[]) > 24);
+    if (overbookedEra) {
+      toast({
+        title: "Total hours exceed limit",
+        description: `Activities in "${overbookedEra.name}" add up to more than 24 hours per day (averaged across the week).`,
+        variant: "destructive",
+      });
+      return;
+    }
     
     if (!lifeExpectancy && !useManualLifeExpectancy) {
       toast({
@@ -700,62 +969,81 @@ const LifeVisualizer: React.FC = () => {
       const age = calculateAge(birthdate);
       const aliveDays = calculateAliveDays(birthdate);
       
-      const activityStats: ActivityStat[] = data.activities.map(activity => {
-        const years = calculateActivityYears(activity.hours, aliveDays, activity.daysPerWeek);
+      // Manual inputs and countries without a table get a model table matching the expectancy at birth
+      const table = !useManualLifeExpectancy && lifeTable ? lifeTable : buildModelLifeTable(expectancy);
+
+      // Eras count with their own activity mixes for their age spans, past or planned,
+      // and the rest of life with today's
+      const lifetimeYears = calculateLifetimeActivityYears(
+        data.activities as ActivityData[],
+        data.eras as LifeEraData[],
+        aliveDays,
+        table,
+        age
+      );
+      const concurrentHostName = (activity: ActivityData) =>
+        findConcurrentHostName(activity, data.activities as ActivityData[], data.eras as LifeEraData[]);
+      // Activities only planned for later have no slice yet
+      const activityStats: ActivityStat[] = lifetimeYears.filter(({ yearsSoFar }) => yearsSoFar > 0).map(({ activity, yearsSoFar: years }) => {
         const percentage = (years / age) * 100;
         
         // Use the dynamic comparisons generator for all activities
-        const dynamicComparisons = generateDynamicComparisons(activity.name, years);
+        const category = activityCategoryOf(activity);
+        const dynamicComparisons = generateDynamicComparisons(activity.name, years, category);
         
         return {
           name: activity.name,
           years,
           percentage,
           color: activity.color || getRandomColorHex(),
-          icon: activity.icon || getActivityIcon(activity.name),
+          icon: activity.icon || getActivityIcon(activity.name, category),
+          category,
+          concurrentWith: concurrentHostName(activity),
           comparisons: dynamicComparisons
         };
       });
 
-      // Use the expectancy value we validated earlier
-      const weeksLived = calculateLivedWeeks(birthdate);
-      const weeksTotal = calculateTotalWeeks(expectancy);
-      const weeksRemaining = calculateRemainingWeeks(birthdate, expectancy);
-
-      // Calculate remaining years (clamped to prevent negative values)
-      const remainingLifeYears = Math.max(0, expectancy - age);
+      // Remaining years are conditional on having survived to the current age and weight
+      // each future year by the chance of being alive to live it, so activity projections do too
+      const remainingLifeYears = calculateRemainingYears(birthdate, table);
+      const conditionalExpectancy = Math.round((age + remainingLifeYears) * 10) / 10;
 
-      const futureProjections = data.activities.map(activity => {
-        const yearsSoFar = calculateActivityYears(activity.hours, aliveDays, activity.daysPerWeek);
-        const effectiveDailyHours = (activity.hours * activity.daysPerWeek) / 7;
-        const yearsRemaining = Math.max(0, (effectiveDailyHours / 24) * remainingLifeYears);
-        
-        return {
-          activity: activity.name,
-          yearsSoFar,
-          yearsRemaining
-        };
-      });
+      const weeksLived = calculateLivedWeeks(birthdate);
+      const weeksTotal = calculateTotalWeeks(conditionalExpectancy);
+      const weeksRemaining = calculateRemainingWeeks(birthdate, table);
 
-      // Calculate free time as remaining hours using effective daily hours (with guards)
-      const dailyActivitiesHours = data.activities.reduce((sum, activity) => {
-        return sum + (activity.hours * activity.daysPerWeek) / 7;
-      }, 0);
-      const freeHoursDaily = Math.max(0, 24 - dailyActivitiesHours);
+      const futureProjections: VisualizeResult['futureProjections'] = lifetimeYears.map(({ activity, yearsSoFar, yearsRemaining }) => ({
+        activity: activity.name,
+        yearsSoFar,
+        yearsRemaining: Math.max(0, yearsRemaining),
+        concurrentWith: concurrentHostName(activity)
+      }));
+
+      // Free time is whatever lived or expected time no activity takes up; concurrent ones take none
+      const timeTakingYears = lifetimeYears.filter(entry => !entry.activity.concurrentWith);
+      const activityYearsSoFar = timeTakingYears.reduce((sum, entry) => sum + entry.yearsSoFar, 0);
+      const activityYearsRemaining = timeTakingYears.reduce((sum, entry) => sum + entry.yearsRemaining, 0);
       
       futureProjections.push({
         activity: 'Free Time',
-        yearsSoFar: calculateActivityYears(freeHoursDaily, aliveDays, 7),
-        yearsRemaining: Math.max(0, (freeHoursDaily / 24) * remainingLifeYears)
+        yearsSoFar: Math.max(0, aliveDays / 365 - activityYearsSoFar),
+        yearsRemaining: Math.max(0, remainingLifeYears - activityYearsRemaining)
       });
 
+      setResultLifeTable(table);
+      setResultSources({
+        lifeExpectancy: useManualLifeExpectancy ? null : lifeExpectancyFigure,
+        lifeTable: !useManualLifeExpectancy && lifeTable ? lifeTable.source : 'model'
+      });
       setVisualizeResult({
         age,
-        lifeExpectancy: expectancy,
+        lifeExpectancy: conditionalExpectancy,
+        lifeExpectancyAtBirth: expectancy,
         activityStats,
         weeksLived,
         weeksTotal,
         weeksRemaining,
+        survival: survivalDistribution(table, age),
         futureProjections
       });
 
@@ -782,12 +1070,20 @@ const LifeVisualizer: React.FC = () => {
   // Function to create or update the pie chart
   const updatePieChart = (activityStats: ActivityStat[]) => {
     if (!pieChartRef.current) return;
+
+    // Concurrent activities overlap time already in the pie, so they get their own inner ring
+    const ownTime = activityStats.map(a => a.concurrentWith ? 0 : a.percentage);
+    const concurrentTime = activityStats.map(a => a.concurrentWith ? a.percentage : 0);
+    const hasConcurrent = activityStats.some(a => a.concurrentWith);
     
     // If chart exists, update its data smoothly instead of destroying it
     if (pieChartInstance.current) {
       pieChartInstance.current.data.labels = activityStats.map(a => a.name);
-      pieChartInstance.current.data.datasets[0].data = activityStats.map(a => a.percentage);
+      pieChartInstance.current.data.datasets[0].data = ownTime;
       pieChartInstance.current.data.datasets[0].backgroundColor = activityStats.map(a => a.color);
+      pieChartInstance.current.data.datasets[1].data = concurrentTime;
+      pieChartInstance.current.data.datasets[1].backgroundColor = activityStats.map(a => a.color);
+      pieChartInstance.current.setDatasetVisibility(1, hasConcurrent);
       pieChartInstance.current.update('active'); // Smooth animation
       return;
     }
@@ -801,9 +1097,17 @@ const LifeVisualizer: React.FC = () => {
       data: {
         labels: activityStats.map(a => a.name),
         datasets: [{
-          data: activityStats.map(a => a.percentage),
+          label: 'Own time',
+          data: ownTime,
           backgroundColor: activityStats.map(a => a.color),
           borderWidth: 0
+        }, {
+          label: 'Alongside other activities',
+          data: concurrentTime,
+          backgroundColor: activityStats.map(a => a.color),
+          borderColor: '#FFFFFF',
+          borderWidth: 1,
+          hidden: !hasConcurrent
         }]
       },
       options: {
@@ -830,7 +1134,8 @@ const LifeVisualizer: React.FC = () => {
                 const label = context.label || '';
                 const value = context.raw as number || 0;
                 const years = activityStats[context.dataIndex].years;
-                return `${label}: ${value.toFixed(1)}% (${years.toFixed(1)} years)`;
+                const host = activityStats[context.dataIndex].concurrentWith;
+                return `${label}: ${value.toFixed(1)}% (${years.toFixed(1)} years)${host ? ` while ${host}` : ''}`;
               }
             }
           }
@@ -840,14 +1145,25 @@ const LifeVisualizer: React.FC = () => {
   };
   
   // Function to create or update the projection chart
-  const updateProjectionChart = (projections: VisualizeResult['futureProjections']) => {
+  const updateProjectionChart = (projections: VisualizeResult['futureProjections'], age: number) => {
     if (!projectionChartRef.current) return;
     
+    // Error bars on the remaining years cover the middle 80% of lifetimes in the life table
+    projectionRangesRef.current = projectionLifeTable
+      ? projections.map(p => remainingYearsRange(p.yearsRemaining, projectionLifeTable, age))
+      : [];
+    // Long-lived outcomes reach well above the bars, so the axis has to make room for them
+    const rangeTop = Math.max(0, ...projectionRangesRef.current.map(range => range.high));
+    
     // If chart exists, update its data smoothly instead of destroying it
+    // Concurrent activities are labelled with the activity whose time they share
+    const labels = projections.map(p => p.concurrentWith ? `${p.activity} (while ${p.concurrentWith})` : p.activity);
+
     if (projectionChartInstance.current) {
-      projectionChartInstance.current.data.labels = projections.map(p => p.activity);
+      projectionChartInstance.current.data.labels = labels;
       projectionChartInstance.current.data.datasets[0].data = projections.map(p => p.yearsSoFar);
       projectionChartInstance.current.data.datasets[1].data = projections.map(p => p.yearsRemaining);
+      projectionChartInstance.current.options.scales!.y!.suggestedMax = rangeTop;
       projectionChartInstance.current.update('active'); // Smooth animation
       return;
     }
@@ -859,7 +1175,7 @@ const LifeVisualizer: React.FC = () => {
     projectionChartInstance.current = new Chart(ctx, {
       type: 'bar',
       data: {
-        labels: projections.map(p => p.activity),
+        labels,
         datasets: [{
           label: 'Years Spent So Far',
           data: projections.map(p => p.yearsSoFar),
@@ -888,6 +1204,8 @@ const LifeVisualizer: React.FC = () => {
           },
           y: {
             stacked: false,
+            suggestedMax: rangeTop,
+            grace: '5%', // Room for the error bar caps
             title: {
               display: true,
               text: 'Years'
@@ -897,9 +1215,20 @@ const LifeVisualizer: React.FC = () => {
         plugins: {
           legend: {
             position: 'top'
+          },
+          tooltip: {
+            callbacks: {
+              afterLabel: (item) => {
+                const range = projectionRangesRef.current[item.dataIndex];
+                return item.datasetIndex === 1 && range
+                  ? `80% range: ${range.low.toFixed(1)} to ${range.high.toFixed(1)} years`
+                  : '';
+              }
+            }
           }
         }
-      }
+      },
+      plugins: [errorBarsPlugin(1, () => projectionRangesRef.current)]
     });
   };
 
@@ -909,7 +1238,7 @@ const LifeVisualizer: React.FC = () => {
 
     // Initialize both charts with initial data
     updatePieChart(visualizeResult.activityStats);
-    updateProjectionChart(visualizeResult.futureProjections);
+    updateProjectionChart(visualizeResult.futureProjections, visualizeResult.age);
   }, [visualizeResult]);
   
   // Update charts when projected stats change
@@ -918,42 +1247,36 @@ const LifeVisualizer: React.FC = () => {
     
     // Update both charts with projected data
     updatePieChart(projectedStats.activityStats);
-    updateProjectionChart(projectedStats.futureProjections);
+    updateProjectionChart(projectedStats.futureProjections, projectedAge ?? visualizeResult!.age);
   }, [projectedStats, timelineSliderValue]);
 
   // Calculate exercise optimization - only returns data if there's meaningful improvement opportunity
   const calculateExerciseOptimization = () => {
     if (!visualizeResult) return null;
     
-    const exerciseActivity = visualizeResult.activityStats.find(a => 
-      a.name.toLowerCase().includes('exercise') || 
-      a.name.toLowerCase().includes('workout') || 
-      a.name.toLowerCase().includes('fitness') ||
-      a.name.toLowerCase().includes('gym')
-    );
+    const exerciseActivity = visualizeResult.activityStats.find(a => activityCategoryOf(a) === 'exercise');
     if (!exerciseActivity) return null;
 
     const currentExercise = (exerciseActivity.years * 8760) / (visualizeResult.age * 365);
     const weeklyHours = currentExercise * 7;
     const recommendedWeekly = 2.5; // WHO recommends 150 minutes = 2.5 hours per week
     
-    // If already in optimal range (2.5-10 hours/week), don't show recommendations
-    // Expanded to ~1.5 hours/day max to avoid flagging healthy active lifestyles
-    if (weeklyHours >= 2.5 && weeklyHours <= 10) {
+    // Levels, lifespan impacts and targets come from the impact model. The optimal range
+    // (2.5-10 hours/week) reaches ~1.5 hours/day to avoid flagging healthy active lifestyles.
+    const optimization = evaluateOptimization('exercise', weeklyHours);
+    if (optimization.level === 'optimal') {
       return null;
     }
     
+    const yearsImpact = optimization.yearsImpact;
+    const optimizedHours = optimization.targetHoursPerDay ?? currentExercise;
     let fitnessLevel = '';
     let healthImpact = '';
     let recommendations: string[] = [];
-    let yearsImpact = 0;
-    let optimizedHours = currentExercise;
 
-    if (weeklyHours < 1.25) { // Less than 75 minutes per week
+    if (optimization.level === 'sedentary') { // Less than 75 minutes per week
       fitnessLevel = 'Sedentary';
       healthImpact = 'Significantly increased risk of cardiovascular disease, diabetes, and premature death';
-      yearsImpact = -2.5;
-      optimizedHours = 0.36; // ~25 minutes daily
       recommendations = [
         'Start with 10-minute walks after meals',
         'Take stairs instead of elevators',
@@ -961,11 +1284,9 @@ const LifeVisualizer: React.FC = () => {
         'Try bodyweight exercises during TV breaks',
         'Set reminders to move every hour'
       ];
-    } else if (weeklyHours < 2.5) { // 75-150 minutes per week
+    } else if (optimization.level === 'lightly-active') { // 75-150 minutes per week
       fitnessLevel = 'Lightly Active';
       healthImpact = 'Some health benefits, but below optimal levels for longevity';
-      yearsImpact = -1;
-      optimizedHours = 0.5; // 30 minutes daily
       recommendations = [
         'Gradually increase to 30 minutes of moderate activity daily',
         'Add strength training 2 days per week',
@@ -973,11 +1294,9 @@ const LifeVisualizer: React.FC = () => {
         'Join group fitness classes for motivation',
         'Use fitness apps to track progress'
       ];
-    } else if (weeklyHours > 10) { // More than 10 hours per week - potentially overtraining
+    } else if (optimization.level === 'highly-active') { // More than 10 hours per week - potentially overtraining
       fitnessLevel = 'Highly Active';
       healthImpact = 'Consider monitoring for overtraining - excessive volume may lead to burnout';
-      yearsImpact = 0; // Neutral to slightly negative
-      optimizedHours = 1; // Suggest 7 hours/week = 1 hour daily
       recommendations = [
         'Ensure adequate recovery time between sessions',
         'Monitor for overtraining symptoms (fatigue, decreased performance)',
@@ -987,8 +1306,9 @@ const LifeVisualizer: React.FC = () => {
       ];
     }
 
+    const { gainPerHour } = IMPACT_MODEL.optimizations.exercise;
     const potentialGain = optimizedHours > currentExercise ? 
-      ((optimizedHours - currentExercise) / 24) * 365 * (visualizeResult.lifeExpectancy - visualizeResult.age) / 365 * 3 : 0;
+      ((optimizedHours - currentExercise) / 24) * 365 * (visualizeResult.lifeExpectancy - visualizeResult.age) / 365 * gainPerHour.value : 0;
 
     return {
       currentHours: currentExercise,
@@ -997,9 +1317,11 @@ const LifeVisualizer: React.FC = () => {
       fitnessLevel,
       healthImpact,
       yearsImpact: yearsImpact.toFixed(1),
+      yearsImpactSource: optimization.source,
       recommendations,
       optimizedHours,
       potentialGain: potentialGain.toFixed(1),
+      potentialGainSource: gainPerHour.source,
       isOptimal: false
     };
   };
@@ -1008,14 +1330,15 @@ const LifeVisualizer: React.FC = () => {
   const calculateSleepOptimization = () => {
     if (!visualizeResult) return null;
     
-    const sleepActivity = visualizeResult.activityStats.find(a => a.name.toLowerCase().includes('sleep'));
+    const sleepActivity = visualizeResult.activityStats.find(a => activityCategoryOf(a) === 'sleep');
     if (!sleepActivity) return null;
 
     const currentSleep = (sleepActivity.years * 8760) / (visualizeResult.age * 365);
     const optimalSleep = 8; // Recommended 8 hours
     
-    // If already in optimal range (7-9 hours), don't show recommendations
-    if (currentSleep >= 7 && currentSleep <= 9) {
+    // If already in the impact model's optimal range (7-9 hours), don't show recommendations
+    const optimization = evaluateOptimization('sleep', currentSleep);
+    if (optimization.level === 'optimal') {
       return null;
     }
     
@@ -1023,32 +1346,28 @@ const LifeVisualizer: React.FC = () => {
     let sleepQuality = '';
     let recommendations: string[] = [];
     let healthImpact = '';
-    let yearsImpact = 0;
 
-    if (currentSleep < 6) {
+    if (optimization.level === 'severely-insufficient') {
       sleepQuality = 'Severely Insufficient';
       healthImpact = 'Major negative impact on health, cognitive function, and lifespan';
-      yearsImpact = -3;
       recommendations = [
         'Establish a consistent bedtime routine',
         'Avoid screens 1 hour before bed',
         'Keep bedroom cool (60-67°F/15-19°C)',
         'Consider consulting a sleep specialist'
       ];
-    } else if (currentSleep < 7) {
+    } else if (optimization.level === 'insufficient') {
       sleepQuality = 'Insufficient';
       healthImpact = 'Increased risk of health issues and reduced cognitive performance';
-      yearsImpact = -1.5;
       recommendations = [
         'Gradually increase sleep by 15-30 minutes',
         'Create a dark, quiet sleep environment',
         'Limit caffeine after 2 PM',
         'Try relaxation techniques before bed'
       ];
-    } else if (currentSleep > 9) {
+    } else if (optimization.level === 'excessive') {
       sleepQuality = 'Excessive';
       healthImpact = 'May indicate underlying health issues or poor sleep quality';
-      yearsImpact = -0.5;
       recommendations = [
         'Evaluate sleep quality vs. quantity',
         'Consider sleep study if persistently tired',
@@ -1062,7 +1381,8 @@ const LifeVisualizer: React.FC = () => {
       optimalHours: optimalSleep,
       quality: sleepQuality,
       healthImpact,
-      yearsImpact: yearsImpact.toFixed(1),
+      yearsImpact: optimization.yearsImpact.toFixed(1),
+      yearsImpactSource: optimization.source,
       recommendations,
       sleepDebt: currentSleep < 8 ? (8 - currentSleep).toFixed(1) : null
     };
@@ -1124,18 +1444,21 @@ const LifeVisualizer: React.FC = () => {
             <span itemProp="name">Lifetime Visualizer</span>
             <meta itemProp="description" content="Interactive tool to visualize your lifetime activity allocation based on current habits" />
           </h1>
-          <button 
-            onClick={toggleDarkMode}
-            className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700"
-            aria-label={darkMode ? "Switch to light mode" : "Switch to dark mode"}
-            title={darkMode ? "Switch to light mode" : "Switch to dark mode"}
-          >
-            {darkMode ? (
-              <Sun className="h-5 w-5 text-yellow-400" aria-hidden="true" />
-            ) : (
-              <Moon className="h-5 w-5 text-gray-500" aria-hidden="true" />
-            )}
-          </button>
+          <div className="flex items-center gap-2">
+            <AccountMenu />
+            <button 
+              onClick={toggleDarkMode}
+              className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700"
+              aria-label={darkMode ? "Switch to light mode" : "Switch to dark mode"}
+              title={darkMode ? "Switch to light mode" : "Switch to dark mode"}
+            >
+              {darkMode ? (
+                <Sun className="h-5 w-5 text-yellow-400" aria-hidden="true" />
+              ) : (
+                <Moon className="h-5 w-5 text-gray-500" aria-hidden="true" />
+              )}
+            </button>
+          </div>
         </div>
       </header>
 
@@ -1171,284 +1494,418 @@ const LifeVisualizer: React.FC = () => {
           </div>
         )}
 
+        {/* Shared visualization banner (read-only, replaces the input form) */}
+        {shareSlug && (
+          <Card className="mb-8 shadow-lg border-0 ring-1 ring-gray-200 dark:ring-gray-700">
+            <CardHeader className="bg-gradient-to-r from-blue-50 to-purple-50 dark:from-blue-900/20 dark:to-purple-900/20 rounded-t-lg">
+              <CardTitle className="flex items-center gap-2">
+                <Share2 className="h-5 w-5 text-primary" />
+                Shared Life Visualization
+              </CardTitle>
+              <CardDescription>
+                {shareError
+                  ? shareError
+                  : visualizeResult
+                    ? 'You are viewing a read-only visualization someone shared with you.'
+                    : 'Loading shared visualization...'}
+              </CardDescription>
+            </CardHeader>
+            <CardFooter className="pt-6">
+              <Button asChild data-testid="link-create-own">
+                <Link href="/">Create your own visualization</Link>
+              </Button>
+            </CardFooter>
+          </Card>
+        )}
+
         {/* Input Form */}
-        <Card className="mb-8 shadow-lg border-0 ring-1 ring-gray-200 dark:ring-gray-700">
-          <CardHeader className="bg-gradient-to-r from-blue-50 to-purple-50 dark:from-blue-900/20 dark:to-purple-900/20 rounded-t-lg">
-            <CardTitle className="flex items-center gap-2">
-              <div className="w-8 h-8 bg-blue-100 dark:bg-blue-800 rounded-full flex items-center justify-center">
-                <span className="text-blue-600 dark:text-blue-300 font-bold text-sm">1</span>
-              </div>
-              Tell Us About Yourself
-            </CardTitle>
-            <CardDescription>
-              Enter your basic information to get started with your life visualization
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <Form {...form}>
-              <form onSubmit={form.handleSubmit(visualizeData)} className="space-y-6">
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                  <div className="space-y-4">
-                    <FormField
-                      control={form.control}
-                      name="birthdate"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Birthdate</FormLabel>
-                          <FormControl>
-                            <Input 
-                              type="date" 
-                              {...field} 
-                              max={new Date().toISOString().split('T')[0]}
-                              className="dark:text-white [&::-webkit-calendar-picker-indicator]:dark:filter [&::-webkit-calendar-picker-indicator]:dark:invert"
-                            />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
+        {!shareSlug && (
+          <Card className="mb-8 shadow-lg border-0 ring-1 ring-gray-200 dark:ring-gray-700">
+            <CardHeader className="bg-gradient-to-r from-blue-50 to-purple-50 dark:from-blue-900/20 dark:to-purple-900/20 rounded-t-lg">
+              <CardTitle className="flex items-center gap-2">
+                <div className="w-8 h-8 bg-blue-100 dark:bg-blue-800 rounded-full flex items-center justify-center">
+                  <span className="text-blue-600 dark:text-blue-300 font-bold text-sm">1</span>
+                </div>
+                Tell Us About Yourself
+              </CardTitle>
+              <CardDescription>
+                Enter your basic information to get started with your life visualization
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(visualizeData)} className="space-y-6">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div className="space-y-4">
+                      <FormField
+                        control={form.control}
+                        name="birthdate"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Birthdate</FormLabel>
+                            <FormControl>
+                              <Input 
+                                type="date" 
+                                {...field} 
+                                max={new Date().toISOString().split('T')[0]}
+                                className="dark:text-white [&::-webkit-calendar-picker-indicator]:dark:filter [&::-webkit-calendar-picker-indicator]:dark:invert"
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
                     
-                    <FormField
-                      control={form.control}
-                      name="country"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Country</FormLabel>
-                          <Dialog>
-                            <DialogTrigger asChild>
-                              <FormControl>
-                                <Button 
-                                  variant="outline" 
-                                  className="w-full justify-between"
-                                  type="button"
-                                >
-                                  {field.value ? countries.find(c => c.code === field.value)?.name : 'Select your country'}
+                      <FormField
+                        control={form.control}
+                        name="country"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Country</FormLabel>
+                            <Dialog>
+                              <DialogTrigger asChild>
+                                <FormControl>
+                                  <Button 
+                                    variant="outline" 
+                                    className="w-full justify-between"
+                                    type="button"
+                                  >
+                                    {field.value ? countries.find(c => c.code === field.value)?.name : 'Select your country'}
+                                    <Search className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+                                  </Button>
+                                </FormControl>
+                              </DialogTrigger>
+                              <DialogContent className="sm:max-w-md">
+                                <DialogHeader>
+                                  <DialogTitle>Select Country</DialogTitle>
+                                  <DialogDescription>
+                                    Choose your country to fetch life expectancy data
+                                  </DialogDescription>
+                                </DialogHeader>
+                                <div className="flex items-center border rounded-md p-1">
                                   <Search className="ml-2 h-4 w-4 shrink-0 opacity-50" />
-                                </Button>
+                                  <Input
+                                    placeholder="Search countries..."
+                                    value={searchTerm}
+                                    onChange={(e) => setSearchTerm(e.target.value)}
+                                    className="border-0 focus-visible:ring-0 focus-visible:ring-offset-0"
+                                  />
+                                </div>
+                                <div className="max-h-72 overflow-y-auto">
+                                  {countriesLoading ? (
+                                    <p className="text-center py-4">Loading countries...</p>
+                                  ) : (
+                                    filteredCountries.map(country => (
+                                      <div 
+                                        key={country.code}
+                                        className="flex items-center p-2 cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md"
+                                        onClick={() => {
+                                          handleCountryChange(country.code);
+                                          document.getElementById('closeDialogBtn')?.click();
+                                        }}
+                                      >
+                                        {country.name}
+                                      </div>
+                                    ))
+                                  )}
+                                </div>
+                                <DialogFooter className="sm:justify-end">
+                                  <Button 
+                                    type="button" 
+                                    variant="secondary" 
+                                    id="closeDialogBtn"
+                                    onClick={() => {
+                                      const dialog = document.querySelector('[data-state="open"]');
+                                      if (dialog) {
+                                        const closeEvent = new KeyboardEvent('keydown', {
+                                          key: 'Escape',
+                                          code: 'Escape',
+                                          keyCode: 27,
+                                          which: 27,
+                                          bubbles: true
+                                        });
+                                        dialog.dispatchEvent(closeEvent);
+                                      }
+                                    }}
+                                  >
+                                    Close
+                                  </Button>
+                                </DialogFooter>
+                              </DialogContent>
+                            </Dialog>
+                            <FormMessage />
+                            {lifeExpectancy && (
+                              <p className="text-sm text-muted-foreground mt-1">
+                                Life expectancy at birth: {lifeExpectancy} years
+                                {sex !== 'total' && ` (${sex})`}
+                              </p>
+                            )}
+                          </FormItem>
+                        )}
+                      />
+                    
+                      <FormField
+                        control={form.control}
+                        name="sex"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Sex</FormLabel>
+                            <Select
+                              onValueChange={(value: Sex) => {
+                                field.onChange(value);
+                                if (form.getValues('country')) {
+                                  handleCountryChange(form.getValues('country'), value);
+                                }
+                              }}
+                              value={field.value}
+                            >
+                              <FormControl>
+                                <SelectTrigger data-testid="select-sex">
+                                  <SelectValue />
+                                </SelectTrigger>
                               </FormControl>
-                            </DialogTrigger>
-                            <DialogContent className="sm:max-w-md">
-                              <DialogHeader>
-                                <DialogTitle>Select Country</DialogTitle>
-                                <DialogDescription>
-                                  Choose your country to fetch life expectancy data
-                                </DialogDescription>
-                              </DialogHeader>
-                              <div className="flex items-center border rounded-md p-1">
-                                <Search className="ml-2 h-4 w-4 shrink-0 opacity-50" />
-                                <Input
-                                  placeholder="Search countries..."
-                                  value={searchTerm}
-                                  onChange={(e) => setSearchTerm(e.target.value)}
-                                  className="border-0 focus-visible:ring-0 focus-visible:ring-offset-0"
-                                />
-                              </div>
-                              <div className="max-h-72 overflow-y-auto">
-                                {countriesLoading ? (
-                                  <p className="text-center py-4">Loading countries...</p>
-                                ) : (
-                                  filteredCountries.map(country => (
-                                    <div 
-                                      key={country.code}
-                                      className="flex items-center p-2 cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md"
-                                      onClick={() => {
-                                        handleCountryChange(country.code);
-                                        document.getElementById('closeDialogBtn')?.click();
-                                      }}
-                                    >
-                                      {country.name}
-                                    </div>
-                                  ))
-                                )}
+                              <SelectContent>
+                                {SEX_OPTIONS.map((option) => (
+                                  <SelectItem key={option.value} value={option.value}>
+                                    {option.label}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    
+                      <FormField
+                        control={form.control}
+                        name="profession"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Profession/Lifestyle (Optional)</FormLabel>
+                            <Select onValueChange={field.onChange} defaultValue={field.value}>
+                              <FormControl>
+                                <SelectTrigger data-testid="select-profession">
+                                  <SelectValue placeholder="Select your profession or lifestyle" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {PROFESSION_OPTIONS.map((option) => (
+                                  <SelectItem key={option.value} value={option.value}>
+                                    {option.label}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    
+                      {/* Smart Suggestions */}
+                      {showSuggestion && (
+                        <div className="p-4 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg space-y-3">
+                          <div className="flex items-start gap-3">
+                            <div className="flex-shrink-0 mt-0.5">
+                              <i className="fas fa-lightbulb text-blue-600 dark:text-blue-400"></i>
+                            </div>
+                            <div className="flex-1">
+                              <h4 className="font-medium text-blue-900 dark:text-blue-100 mb-1">
+                                Smart Activity Suggestions
+                              </h4>
+                              <p className="text-sm text-blue-700 dark:text-blue-300 mb-3">
+                                {suggestionMessage}
+                              </p>
+                              <div className="flex flex-wrap gap-2 mb-3">
+                                {suggestedActivities.map((activity, index) => (
+                                  <span 
+                                    key={index}
+                                    className="inline-flex items-center gap-1 px-2 py-1 bg-blue-100 dark:bg-blue-800 text-blue-800 dark:text-blue-200 text-xs rounded-md"
+                                  >
+                                    <i className={`fas ${activity.icon} text-xs`}></i>
+                                    {activity.name} ({activity.hours}h)
+                                  </span>
+                                ))}
                               </div>
-                              <DialogFooter className="sm:justify-end">
-                                <Button 
-                                  type="button" 
-                                  variant="secondary" 
-                                  id="closeDialogBtn"
-                                  onClick={() => {
-                                    const dialog = document.querySelector('[data-state="open"]');
-                                    if (dialog) {
-                                      const closeEvent = new KeyboardEvent('keydown', {
-                                        key: 'Escape',
-                                        code: 'Escape',
-                                        keyCode: 27,
-                                        which: 27,
-                                        bubbles: true
-                                      });
-                                      dialog.dispatchEvent(closeEvent);
-                                    }
-                                  }}
+                              <div className="flex gap-2">
+                                <Button
+                                  type="button"
+                                  variant="default"
+                                  size="sm"
+                                  onClick={applySuggestedActivities}
+                                  data-testid="button-apply-suggestions"
                                 >
-                                  Close
+                                  Apply Suggestions
                                 </Button>
-                              </DialogFooter>
-                            </DialogContent>
-                          </Dialog>
-                          <FormMessage />
-                          {lifeExpectancy && (
-                            <p className="text-sm text-muted-foreground mt-1">
-                              Life expectancy: {lifeExpectancy} years
-                            </p>
-                          )}
-                        </FormItem>
-                      )}
-                    />
-                    
-                    <FormField
-                      control={form.control}
-                      name="profession"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Profession/Lifestyle (Optional)</FormLabel>
-                          <Select onValueChange={field.onChange} defaultValue={field.value}>
-                            <FormControl>
-                              <SelectTrigger data-testid="select-profession">
-                                <SelectValue placeholder="Select your profession or lifestyle" />
-                              </SelectTrigger>
-                            </FormControl>
-                            <SelectContent>
-                              {PROFESSION_OPTIONS.map((option) => (
-                                <SelectItem key={option.value} value={option.value}>
-                                  {option.label}
-                                </SelectItem>
-                              ))}
-                            </SelectContent>
-                          </Select>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    
-                    {/* Smart Suggestions */}
-                    {showSuggestion && (
-                      <div className="p-4 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg space-y-3">
-                        <div className="flex items-start gap-3">
-                          <div className="flex-shrink-0 mt-0.5">
-                            <i className="fas fa-lightbulb text-blue-600 dark:text-blue-400"></i>
-                          </div>
-                          <div className="flex-1">
-                            <h4 className="font-medium text-blue-900 dark:text-blue-100 mb-1">
-                              Smart Activity Suggestions
-                            </h4>
-                            <p className="text-sm text-blue-700 dark:text-blue-300 mb-3">
-                              {suggestionMessage}
-                            </p>
-                            <div className="flex flex-wrap gap-2 mb-3">
-                              {suggestedActivities.map((activity, index) => (
-                                <span 
-                                  key={index}
-                                  className="inline-flex items-center gap-1 px-2 py-1 bg-blue-100 dark:bg-blue-800 text-blue-800 dark:text-blue-200 text-xs rounded-md"
+                                <Button
+                                  type="button"
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => setShowSuggestion(false)}
+                                  data-testid="button-dismiss-suggestions"
                                 >
-                                  <i className={`fas ${activity.icon} text-xs`}></i>
-                                  {activity.name} ({activity.hours}h)
-                                </span>
-                              ))}
-                            </div>
-                            <div className="flex gap-2">
-                              <Button
-                                type="button"
-                                variant="default"
-                                size="sm"
-                                onClick={applySuggestedActivities}
-                                data-testid="button-apply-suggestions"
-                              >
-                                Apply Suggestions
-                              </Button>
-                              <Button
-                                type="button"
-                                variant="outline"
-                                size="sm"
-                                onClick={() => setShowSuggestion(false)}
-                                data-testid="button-dismiss-suggestions"
-                              >
-                                Dismiss
-                              </Button>
+                                  Dismiss
+                                </Button>
+                              </div>
                             </div>
                           </div>
                         </div>
-                      </div>
-                    )}
+                      )}
                     
-                    {/* Manual Life Expectancy */}
-                    <div className="space-y-2">
-                      <div className="flex items-center space-x-2">
+                      {/* Manual Life Expectancy */}
+                      <div className="space-y-2">
+                        <div className="flex items-center space-x-2">
+                          <input
+                            type="checkbox"
+                            id="manual-life-expectancy"
+                            checked={useManualLifeExpectancy}
+                            onChange={(e) => {
+                              setUseManualLifeExpectancy(e.target.checked);
+                              if (e.target.checked) {
+                                setManualLifeExpectancy(lifeExpectancy?.toString() || "");
+                              }
+                            }}
+                            className="h-4 w-4 rounded border-gray-300 dark:border-gray-600 text-primary focus:ring-primary"
+                          />
+                          <Label 
+                            htmlFor="manual-life-expectancy"
+                            className="text-sm font-medium"
+                          >
+                            Enter life expectancy manually
+                          </Label>
+                        </div>
+                      
+                        {useManualLifeExpectancy && (
+                          <div className="flex items-center space-x-2">
+                            <Input
+                              type="number"
+                              value={manualLifeExpectancy}
+                              onChange={(e) => setManualLifeExpectancy(e.target.value)}
+                              placeholder="Enter life expectancy in years"
+                              min="1"
+                              max="150"
+                              step="0.1"
+                              className="w-full"
+                            />
+                            <span className="text-sm dark:text-gray-300">years</span>
+                          </div>
+                        )}
+                      </div>
+
+                      {/* Saved Profiles (logged-in users only) */}
+                      <SavedProfiles
+                        getCurrentProfile={getCurrentProfile}
+                        onLoadProfile={loadProfile}
+                      />
+
+                      {/* Exported JSON/CSV files restore the form and rerun the visualization */}
+                      <div>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => exportFileRef.current?.click()}
+                          data-testid="button-import-visualization"
+                        >
+                          <FileUp className="h-4 w-4 mr-1" />
+                          Open exported file
+                        </Button>
                         <input
-                          type="checkbox"
-                          id="manual-life-expectancy"
-                          checked={useManualLifeExpectancy}
+                          ref={exportFileRef}
+                          type="file"
+                          accept=".json,.csv,application/json,text/csv"
+                          className="hidden"
                           onChange={(e) => {
-                            setUseManualLifeExpectancy(e.target.checked);
-                            if (e.target.checked) {
-                              setManualLifeExpectancy(lifeExpectancy?.toString() || "");
-                            }
+                            importVisualization(e.target.files?.[0]);
+                            e.target.value = '';
                           }}
-                          className="h-4 w-4 rounded border-gray-300 dark:border-gray-600 text-primary focus:ring-primary"
+                          data-testid="input-import-visualization"
                         />
-                        <Label 
-                          htmlFor="manual-life-expectancy"
-                          className="text-sm font-medium"
+                      </div>
+                    </div>
+
+                    {/* Activity Inputs */}
+                    <ActivityInput
+                      activities={activities}
+                      onActivitiesChange={(updated) => form.setValue('activities', updated, { shouldValidate: true, shouldDirty: true, shouldTouch: true })}
+                      minProtectedActivities={DEFAULT_ACTIVITIES.length}
+                    />
+
+                    {/* Weekly calendar for painting when each activity happens, and importing tracked time */}
+                    <div>
+                      <div className="flex flex-wrap gap-2">
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setShowWeeklyCalendar(!showWeeklyCalendar)}
+                          data-testid="button-toggle-weekly-calendar"
                         >
-                          Enter life expectancy manually
-                        </Label>
+                          <CalendarRange className="h-4 w-4 mr-1" />
+                          {showWeeklyCalendar ? 'Hide weekly calendar' : 'Edit in weekly calendar'}
+                        </Button>
+                        <TimeTrackingImport
+                          activities={activities as ActivityData[]}
+                          onImport={(imported, mode) => {
+                            form.setValue('activities', imported, { shouldValidate: true, shouldDirty: true, shouldTouch: true });
+                            toast({
+                              title: mode === 'merge' ? "Activities updated" : "Activities imported",
+                              description: mode === 'merge'
+                                ? `Your imported time was added to your activities, which now number ${imported.length}. Click Visualize My Life to see the results.`
+                                : `${imported.length} ${imported.length === 1 ? 'activity' : 'activities'} from your tracked time. Click Visualize My Life to see the results.`,
+                            });
+                          }}
+                        />
                       </div>
-                      
-                      {useManualLifeExpectancy && (
-                        <div className="flex items-center space-x-2">
-                          <Input
-                            type="number"
-                            value={manualLifeExpectancy}
-                            onChange={(e) => setManualLifeExpectancy(e.target.value)}
-                            placeholder="Enter life expectancy in years"
-                            min="1"
-                            max="150"
-                            step="0.1"
-                            className="w-full"
+                      {showWeeklyCalendar && (
+                        <div className="mt-3">
+                          <WeeklyScheduleEditor
+                            activities={activities as ActivityData[]}
+                            onActivitiesChange={(updated) => form.setValue('activities', updated, { shouldValidate: true, shouldDirty: true, shouldTouch: true })}
                           />
-                          <span className="text-sm dark:text-gray-300">years</span>
                         </div>
                       )}
                     </div>
-                  </div>
 
-                  {/* Activity Inputs */}
-                  <ActivityInput
-                    activities={activities}
-                    onActivitiesChange={(updated) => form.setValue('activities', updated, { shouldValidate: true, shouldDirty: true, shouldTouch: true })}
-                    minProtectedActivities={DEFAULT_ACTIVITIES.length}
-                  />
-                </div>
+                    {/* Past eras with their own activity mixes */}
+                    <LifeErasEditor
+                      eras={eras as LifeEraData[]}
+                      onErasChange={(updated) => form.setValue('eras', updated, { shouldValidate: true, shouldDirty: true, shouldTouch: true })}
+                      currentAge={birthdate && !isNaN(new Date(birthdate).getTime()) ? calculateAge(new Date(birthdate)) : null}
+                    />
+                  </div>
                 
 
                 
-                <div className="flex flex-col sm:flex-row gap-4 items-center">
-                  <Button 
-                    type="submit" 
-                    disabled={loading} 
-                    className="w-full sm:w-auto bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white font-semibold py-3 px-8 rounded-lg shadow-lg hover:shadow-xl transition-all"
-                  >
-                    {loading ? (
-                      <>
-                        <Hourglass className="mr-2 h-4 w-4 animate-spin" />
-                        Calculating...
-                      </>
-                    ) : (
-                      <>
-                        <Hourglass className="mr-2 h-4 w-4" />
-                        Visualize My Life
-                      </>
-                    )}
-                  </Button>
+                  <div className="flex flex-col sm:flex-row gap-4 items-center">
+                    <Button 
+                      type="submit" 
+                      disabled={loading} 
+                      className="w-full sm:w-auto bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white font-semibold py-3 px-8 rounded-lg shadow-lg hover:shadow-xl transition-all"
+                    >
+                      {loading ? (
+                        <>
+                          <Hourglass className="mr-2 h-4 w-4 animate-spin" />
+                          Calculating...
+                        </>
+                      ) : (
+                        <>
+                          <Hourglass className="mr-2 h-4 w-4" />
+                          Visualize My Life
+                        </>
+                      )}
+                    </Button>
                   
-                  {/* Quick Stats Preview */}
-                  <div className="text-sm text-gray-500 dark:text-gray-400">
-                    Total hours: {activities.reduce((sum, activity) => sum + (activity.hours * activity.daysPerWeek) / 7, 0).toFixed(1)}/24
+                    {/* Quick Stats Preview */}
+                    <div className="text-sm text-gray-500 dark:text-gray-400">
+                      Total hours: {calculateEffectiveDailyHours(activities as ActivityData[]).toFixed(1)}/24
+                    </div>
                   </div>
-                </div>
-              </form>
-            </Form>
-          </CardContent>
-        </Card>
+                </form>
+              </Form>
+            </CardContent>
+          </Card>
+        )}
         
         {/* Results Container */}
         {visualizeResult && (
@@ -1495,7 +1952,8 @@ const LifeVisualizer: React.FC = () => {
                     Your Life Visualization
                   </CardTitle>
                   <CardDescription>
-                    Interactive analysis based on your age {visualizeResult.age} years out of expected {visualizeResult.lifeExpectancy} years
+                    Interactive analysis based on your age {visualizeResult.age} years out of expected {visualizeResult.lifeExpectancy.toFixed(1)} years
+                    {visualizeResult.lifeExpectancyAtBirth !== undefined && ` (life expectancy at birth: ${visualizeResult.lifeExpectancyAtBirth} years)`}
                   </CardDescription>
                 </CardHeader>
                 <CardContent className="pt-6">
@@ -1512,6 +1970,7 @@ const LifeVisualizer: React.FC = () => {
                   <LifeTimeline
                     age={visualizeResult.age}
                     lifeExpectancy={visualizeResult.lifeExpectancy}
+                    lifeExpectancyAtBirth={visualizeResult.lifeExpectancyAtBirth}
                     weeksLived={visualizeResult.weeksLived}
                     weeksTotal={visualizeResult.weeksTotal}
                     weeksRemaining={visualizeResult.weeksRemaining}
@@ -1526,22 +1985,24 @@ const LifeVisualizer: React.FC = () => {
                         setProjectedStats(null);
                         if (visualizeResult) {
                           updatePieChart(visualizeResult.activityStats);
-                          updateProjectionChart(visualizeResult.futureProjections);
+                          updateProjectionChart(visualizeResult.futureProjections, visualizeResult.age);
                         }
                       } else {
                         const yearsAdvanced = weeksAdvanced / 52;
                         const projectedAgeValue = visualizeResult.age + yearsAdvanced;
                         setProjectedAge(projectedAgeValue);
                         
-                        const birthdateValue = new Date(form.getValues('birthdate'));
+                        // Share pages omit the birthdate, so approximate it from the weeks lived
+                        const birthdateValue = shareSlug
+                          ? new Date(Date.now() - visualizeResult.weeksLived * 7 * 86400000)
+                          : new Date(form.getValues('birthdate'));
                         const formData = form.getValues();
-                        const expectancy = visualizeResult.lifeExpectancy;
                         
                         const stats = calculateProjectedStats(
                           formData,
                           birthdateValue,
                           visualizeResult.age,
-                          expectancy,
+                          projectionLifeTable!,
                           weeksAdvanced
                         );
                         setProjectedStats(stats);
@@ -1583,6 +2044,7 @@ const LifeVisualizer: React.FC = () => {
                       <p className="text-xs sm:text-sm text-gray-500 dark:text-gray-400">
                         {activity.percentage.toFixed(1)}% of your life 
                         {projectedStats && timelineSliderValue > 0 ? " at this age" : " so far"}
+                        {activity.concurrentWith && `, while ${activity.concurrentWith}`}
                       </p>
                       {/* Show change indicator if projecting into the future */}
                       {projectedStats && timelineSliderValue > 0 && (
@@ -1613,6 +2075,47 @@ const LifeVisualizer: React.FC = () => {
               ))}
             </div>
             
+            {/* Survival Curve */}
+            {visualizeResult.survival && (
+              <Card className="transition-all duration-300 mb-8">
+                <CardHeader>
+                  <CardTitle className="text-base sm:text-lg flex items-center gap-2">
+                    <Hourglass className="h-4 w-4 sm:h-5 sm:w-5" />
+                    How Long You Might Live
+                  </CardTitle>
+                  <CardDescription>
+                    Survival curve from age {visualizeResult.age}, based on age-specific mortality
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <SurvivalCurve age={visualizeResult.age} survival={visualizeResult.survival} />
+                </CardContent>
+              </Card>
+            )}
+            
+            {/* Life Expectancy History (share pages omit the birthdate) */}
+            {!shareSlug && country && birthdate && (
+              <Card className="transition-all duration-300 mb-8">
+                <CardHeader>
+                  <CardTitle className="text-base sm:text-lg flex items-center gap-2">
+                    <BarChart3 className="h-4 w-4 sm:h-5 sm:w-5" />
+                    Life Expectancy Over Your Lifetime
+                  </CardTitle>
+                  <CardDescription>
+                    World Bank life expectancy at birth{sex !== 'total' ? ` (${sex})` : ''} since the year you were born
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <LifeExpectancyHistoryChart
+                    countryCode={country}
+                    countryName={countries.find(c => c.code === country)?.name}
+                    sex={sex}
+                    birthYear={new Date(birthdate).getFullYear()}
+                  />
+                </CardContent>
+              </Card>
+            )}
+            
             {/* Future Projections */}
             <Card className="transition-all duration-300">
               <CardHeader>
@@ -1659,6 +2162,9 @@ const LifeVisualizer: React.FC = () => {
                         <div key={projection.activity} className="bg-gray-50 dark:bg-gray-800 rounded-lg p-3 sm:p-4 transition-all duration-300 hover:shadow-sm">
                           <h4 className="text-xs sm:text-sm font-medium text-gray-500 dark:text-gray-400 mb-1 sm:mb-2">
                             {projection.activity}
+                            {projection.concurrentWith && (
+                              <span className="block text-[11px] italic">while {projection.concurrentWith}</span>
+                            )}
                           </h4>
                           <p className="text-lg sm:text-xl font-semibold transition-all duration-300">
                             {projection.yearsRemaining.toFixed(1)} more years
@@ -1718,6 +2224,17 @@ const LifeVisualizer: React.FC = () => {
                           >
                             Life Phase Optimization
                           </button>
+                          <button
+                            onClick={() => setSelectedAnalyticsTab('optimizer')}
+                            className={`px-3 py-1 rounded-md text-xs sm:text-sm font-medium transition-all ${
+                              selectedAnalyticsTab === 'optimizer'
+                                ? 'bg-primary text-primary-foreground'
+                                : 'bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700'
+                            }`}
+                            data-testid="tab-optimizer"
+                          >
+                            Schedule Optimizer
+                          </button>
                         </div>
                       </CardHeader>
                       <CardContent>
@@ -1764,6 +2281,9 @@ const LifeVisualizer: React.FC = () => {
                                   </div>
                                   <div className="text-sm font-medium mb-2">
                                     Time Value Score: {item.analysis.netImpact.timeValue.toFixed(0)}/100
+                                    <span className="ml-1 text-xs font-normal text-gray-500 dark:text-gray-400">
+                                      (80% range {item.analysis.uncertainty.timeValue.low.toFixed(0)} to {item.analysis.uncertainty.timeValue.high.toFixed(0)})
+                                    </span>
                                   </div>
                                   <div className="text-xs text-gray-600 dark:text-gray-400 mb-2">
                                     {item.analysis.netImpact.recommendation}
@@ -1836,6 +2356,22 @@ const LifeVisualizer: React.FC = () => {
                             </div>
                           </div>
                         )}
+
+                        {selectedAnalyticsTab === 'optimizer' && (
+                          <ScheduleOptimizer
+                            key={(activities as ActivityData[]).map(activity => activity.id).join(',')}
+                            activities={activities as ActivityData[]}
+                            currentAge={analyticsData.age}
+                            lifeExpectancy={analyticsData.lifeExpectancy}
+                            onApply={(recommended) => {
+                              form.setValue('activities', recommended, { shouldValidate: true, shouldDirty: true, shouldTouch: true });
+                              toast({
+                                title: "Schedule updated",
+                                description: "Your activities now use the recommended hours. Click Visualize My Life to see the results.",
+                              });
+                            }}
+                          />
+                        )}
                       </CardContent>
                     </Card>
                   </div>
@@ -1924,6 +2460,7 @@ const LifeVisualizer: React.FC = () => {
                                   : 'text-red-600 dark:text-red-400'
                               }`}>
                                 Lifespan impact: {parseFloat(exerciseOptimization.yearsImpact) > 0 ? '+' : ''}{exerciseOptimization.yearsImpact} years
+                                <ImpactCitation sources={[exerciseOptimization.yearsImpactSource]} />
                               </p>
                             )}
                           </div>
@@ -1952,21 +2489,17 @@ const LifeVisualizer: React.FC = () => {
                             <p className="text-sm text-blue-700 dark:text-blue-300">
                               Increasing to {exerciseOptimization.optimizedHours.toFixed(1)} hours daily could add 
                               <span className="font-semibold"> {exerciseOptimization.potentialGain} years</span> to your lifespan!
+                              <ImpactCitation sources={[exerciseOptimization.potentialGainSource]} />
                             </p>
                           </div>
                         )}
 
                         <div className="flex flex-wrap gap-3">
-                          {!exerciseOptimization.isOptimal && (
+                          {!exerciseOptimization.isOptimal && !shareSlug && (
                             <Button 
                               size="sm"
                               onClick={() => {
-                                const exerciseIndex = activities.findIndex(a => 
-                                  a.name.toLowerCase().includes('exercise') || 
-                                  a.name.toLowerCase().includes('workout') || 
-                                  a.name.toLowerCase().includes('fitness') ||
-                                  a.name.toLowerCase().includes('gym')
-                                );
+                                const exerciseIndex = activities.findIndex(a => activityCategoryOf(a) === 'exercise');
                                 if (exerciseIndex >= 0) {
                                   const updatedActivities = [...activities];
                                   updatedActivities[exerciseIndex].hours = exerciseOptimization.optimizedHours;
@@ -2042,6 +2575,7 @@ const LifeVisualizer: React.FC = () => {
                                   : 'text-red-600 dark:text-red-400'
                               }`}>
                                 Potential lifespan impact: {parseFloat(sleepOptimization.yearsImpact) > 0 ? '+' : ''}{sleepOptimization.yearsImpact} years
+                                <ImpactCitation sources={[sleepOptimization.yearsImpactSource]} />
                               </p>
                             )}
                           </div>
@@ -2119,6 +2653,25 @@ const LifeVisualizer: React.FC = () => {
                           </>
                         )}
                       </Button>
+                      <LifeReportButton
+                        result={visualizeResult}
+                        birthdate={birthdate}
+                        countryName={countries.find(c => c.code === country)?.name ?? country}
+                        sex={sex}
+                        sexLabel={SEX_OPTIONS.find(option => option.value === sex)?.label ?? sex}
+                        activities={activities as ActivityData[]}
+                        eras={eras as LifeEraData[]}
+                        analytics={analyticsData}
+                        sources={resultSources}
+                      />
+                      <Button variant="outline" onClick={() => downloadExport('json')} data-testid="button-export-json">
+                        <FileDown className="w-4 h-4 mr-2" />
+                        Export JSON
+                      </Button>
+                      <Button variant="outline" onClick={() => downloadExport('csv')} data-testid="button-export-csv">
+                        <FileDown className="w-4 h-4 mr-2" />
+                        Export CSV
+                      </Button>
                     </div>
 
                     {/* Medical Disclaimer Footer */}
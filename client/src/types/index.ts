@@ -1,3 +1,7 @@
+import type { SurvivalDistribution } from '@shared/life-table';
+import type { ActivityCategory } from '@shared/activity-categories';
+import type { Recurrence } from '@shared/schema';
+
 export interface CountryInfo {
   code: string;
   name: string;
@@ -18,6 +22,19 @@ export interface ActivityData {
   daysPerWeek: number;
   icon: string;
   color: string;
+  category?: ActivityCategory; // Inferred from the name when not picked
+  schedule?: number[]; // Painted hours of the week (day * 24 + hour); hours/daysPerWeek derive from it
+  concurrentWith?: string; // Id of the activity this one happens alongside, without using up hours
+  recurrence?: Recurrence; // Weekly all year round when omitted
+}
+
+// A past period of life with its own daily activities, from startAge up to endAge (years)
+export interface LifeEraData {
+  id: string;
+  name: string;
+  startAge: number;
+  endAge: number;
+  activities: ActivityData[];
 }
 
 export interface ActivityStat {
@@ -26,6 +43,8 @@ export interface ActivityStat {
   percentage: number;
   color: string;
   icon: string;
+  category?: ActivityCategory; // Missing on results saved before categories were added
+  concurrentWith?: string; // Name of the activity this one happened alongside
   comparisons: {
     icon: string;
     text: string;
@@ -34,14 +53,18 @@ export interface ActivityStat {
 
 export interface VisualizeResult {
   age: number;
-  lifeExpectancy: number;
+  lifeExpectancy: number; // Expected age at death given survival to `age`, from the life table
+  lifeExpectancyAtBirth?: number; // Missing on results saved before life tables were used
   activityStats: ActivityStat[];
   weeksLived: number;
   weeksTotal: number;
   weeksRemaining: number;
+  survival?: SurvivalDistribution; // Missing on results saved before survival curves were added
+  // yearsRemaining is weighted by the chance of being alive to live each future year
   futureProjections: {
     activity: string;
     yearsSoFar: number;
     yearsRemaining: number;
+    concurrentWith?: string; // Name of the activity this one happens alongside
   }[];
 }
@@ -0,0 +1,153 @@
+/**
+ * API tests for saved profiles, share links and ownership, run against the in-memory
+ * storage so no database is needed:
+ *
+ *   npm test
+ */
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import express from "express";
+import { registerRoutes } from "./routes";
+
+const profile = {
+  name: "Test profile",
+  birthdate: "1990-01-01",
+  countryCode: "USA",
+  activities: [{ id: "sleep", name: "Sleep", hours: 8, daysPerWeek: 7 }],
+  result: JSON.stringify({
+    age: 35,
+    lifeExpectancy: 79,
+    weeksLived: 1820,
+    weeksTotal: 4108,
+    weeksRemaining: 2288,
+    activityStats: [{ name: "Sleep", years: 26.3, color: "#6366F1" }]
+  }),
+  createdAt: new Date().toISOString(),
+  updatedAt: new Date().toISOString()
+};
+
+let server: Server;
+let baseUrl: string;
+
+// A client with its own session cookie, like a separate browser
+function createClient() {
+  let cookie = "";
+
+  return async (method: string, path: string, body?: unknown) => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: {
+        ...(body !== undefined ? { "Content-Type": "application/json" } : {}),
+        ...(cookie ? { Cookie: cookie } : {})
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined
+    });
+    const setCookie = response.headers.get("set-cookie");
+    if (setCookie) cookie = setCookie.split(";")[0];
+    const text = await response.text();
+    return { status: response.status, body: text ? JSON.parse(text) : null };
+  };
+}
+
+async function registeredClient(username: string) {
+  const client = createClient();
+  const { status } = await client("POST", "/api/auth/register", { username, password: "correct-horse" });
+  assert.equal(status, 201);
+  return client;
+}
+
+before(async () => {
+  assert.equal(process.env.STORAGE_DRIVER, "memory", "run with STORAGE_DRIVER=memory");
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+describe("registration", () => {
+  it("gives concurrent registrations for one username a single account", async () => {
+    const statuses = await Promise.all([createClient(), createClient()].map(async client =>
+      (await client("POST", "/api/auth/register", { username: "race-user", password: "correct-horse" })).status
+    ));
+    assert.deepEqual(statuses.sort(), [201, 409]);
+  });
+});
+
+describe("saved profiles", () => {
+  it("creates, lists, updates and deletes an owned profile", async () => {
+    const owner = await registeredClient("crud-owner");
+
+    const created = await owner("POST", "/api/life-data", profile);
+    assert.equal(created.status, 201);
+    const id = created.body.data.id;
+    assert.ok(created.body.data.shareSlug);
+
+    const list = await owner("GET", "/api/life-data");
+    assert.equal(list.status, 200);
+    assert.deepEqual(list.body.items.map((item: { id: number }) => item.id), [id]);
+
+    const updated = await owner("PUT", `/api/life-data/${id}`, { name: "Renamed" });
+    assert.equal(updated.status, 200);
+    assert.equal(updated.body.data.name, "Renamed");
+
+    assert.equal((await owner("DELETE", `/api/life-data/${id}`)).status, 204);
+    assert.equal((await owner("GET", `/api/life-data/${id}`)).status, 404);
+  });
+
+  it("rejects results a share card cannot draw", async () => {
+    const owner = await registeredClient("result-owner");
+    const result = JSON.stringify({ ...JSON.parse(profile.result), weeksTotal: 5e8 });
+
+    const created = await owner("POST", "/api/life-data", { ...profile, result });
+    assert.equal(created.status, 400);
+  });
+
+  it("keeps profiles private to their owner", async () => {
+    const owner = await registeredClient("private-owner");
+    const other = await registeredClient("private-other");
+    const id = (await owner("POST", "/api/life-data", profile)).body.data.id;
+
+    assert.equal((await other("GET", `/api/life-data/${id}`)).status, 404);
+    assert.equal((await other("PUT", `/api/life-data/${id}`, { name: "Taken" })).status, 404);
+    assert.equal((await other("DELETE", `/api/life-data/${id}`)).status, 404);
+    assert.equal((await other("POST", `/api/life-data/${id}/share`, {})).status, 404);
+    assert.equal((await other("GET", "/api/life-data")).body.total, 0);
+    assert.equal((await createClient()("GET", `/api/life-data/${id}`)).status, 401);
+  });
+
+  it("requires a login to save a profile", async () => {
+    const created = await createClient()("POST", "/api/life-data", profile);
+    assert.equal(created.status, 401);
+  });
+});
+
+describe("share links", () => {
+  it("shares, rotates and revokes an owned profile", async () => {
+    const owner = await registeredClient("share-owner");
+    const visitor = createClient();
+    const id = (await owner("POST", "/api/life-data", profile)).body.data.id;
+
+    const shared = await owner("POST", `/api/life-data/${id}/share`, { expiresInDays: 7 });
+    assert.equal(shared.status, 200);
+    const slug = shared.body.data.shareSlug;
+    assert.ok(slug);
+    assert.ok(shared.body.data.shareExpiresAt);
+
+    const view = await visitor("GET", `/api/share/${slug}`);
+    assert.equal(view.status, 200);
+    assert.equal(view.body.countryCode, "USA");
+    assert.equal(view.body.birthdate, undefined);
+
+    const rotated = await owner("POST", `/api/life-data/${id}/share`, {});
+    assert.notEqual(rotated.body.data.shareSlug, slug);
+    assert.equal((await visitor("GET", `/api/share/${slug}`)).status, 404);
+
+    assert.equal((await owner("DELETE", `/api/life-data/${id}/share`)).status, 200);
+    assert.equal((await visitor("GET", `/api/share/${rotated.body.data.shareSlug}`)).status, 404);
+  });
+});
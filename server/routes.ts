@@ -1,18 +1,41 @@
 import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
+import { randomBytes } from "crypto";
 import { storage } from "./storage";
-import { fetchCountries, fetchLifeExpectancy } from "./services/worldbank";
-import { insertUserLifeDataSchema } from "@shared/schema";
+import { setupAuth, requireAuth } from "./auth";
+import { fetchCountries, fetchLifeExpectancy, fetchLifeExpectancyHistory } from "./services/worldbank";
+import { getLifeTable } from "./services/life-tables";
+import { parseShareCardResult, renderShareCard } from "./services/share-card";
+import { insertUserLifeDataSchema, updateUserLifeDataSchema, createShareLinkSchema, sexSchema, type SharedLifeData } from "@shared/schema";
 import { z } from "zod";
 
+// 128 bits of randomness, URL-safe, so share links cannot be guessed or enumerated
+function generateShareSlug(): string {
+  return randomBytes(16).toString("base64url");
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
-  // Serve robots.txt
+  // Sessions, passport and the /api/auth/* routes
+  setupAuth(app);
+
+  // Serve robots.txt, the only copy of the crawler policy
   app.get('/robots.txt', (req, res) => {
     res.type('text/plain');
     res.send(`User-agent: *
 Allow: /
+Disallow: /s/
 
-Sitemap: https://lifetime-visualizer.replit.app/sitemap.xml`);
+# Link previews need the share page and its card image
+User-agent: Twitterbot
+User-agent: facebookexternalhit
+User-agent: LinkedInBot
+Allow: /s/
+Allow: /api/share/
+
+Sitemap: https://lifetime-visualizer.replit.app/sitemap.xml
+
+# Crawl delay to control crawl rate
+Crawl-delay: 10`);
   });
 
   // Serve sitemap.xml
@@ -40,12 +63,21 @@ Sitemap: https://lifetime-visualizer.replit.app/sitemap.xml`);
     }
   });
 
-  // API route to get life expectancy by country code
+  // API route to get life expectancy by country code, e.g. ?sex=female (defaults to the total population)
   app.get('/api/life-expectancy/:countryCode', async (req, res) => {
     try {
       const { countryCode } = req.params;
-      const lifeExpectancy = await fetchLifeExpectancy(countryCode);
-      res.json({ countryCode, lifeExpectancy });
+      const sexResult = sexSchema.default('total').safeParse(req.query.sex);
+      
+      if (!sexResult.success) {
+        return res.status(400).json({
+          message: 'Invalid sex provided',
+          errors: sexResult.error.format()
+        });
+      }
+      
+      const sex = sexResult.data;
+      res.json(await fetchLifeExpectancy(countryCode, sex));
     } catch (error: any) {
       res.status(500).json({ 
         message: `Failed to fetch life expectancy data: ${error.message}` 
@@ -53,8 +85,63 @@ Sitemap: https://lifetime-visualizer.replit.app/sitemap.xml`);
     }
   });
 
-  // API route to save user life data
-  app.post('/api/life-data', async (req: Request, res: Response) => {
+  // API route to get the yearly life expectancy series by country code, e.g. ?sex=male
+  app.get('/api/life-expectancy/:countryCode/history', async (req, res) => {
+    try {
+      const sexResult = sexSchema.default('total').safeParse(req.query.sex);
+      
+      if (!sexResult.success) {
+        return res.status(400).json({
+          message: 'Invalid sex provided',
+          errors: sexResult.error.format()
+        });
+      }
+      
+      const history = await fetchLifeExpectancyHistory(req.params.countryCode, sexResult.data);
+      res.json(history);
+    } catch (error: any) {
+      res.status(500).json({
+        message: `Failed to fetch life expectancy history: ${error.message}`
+      });
+    }
+  });
+
+  // API route to get the period life table (age-specific qx) by country code, e.g. ?sex=female
+  app.get('/api/life-table/:countryCode', async (req, res) => {
+    try {
+      const sexResult = sexSchema.default('total').safeParse(req.query.sex);
+      
+      if (!sexResult.success) {
+        return res.status(400).json({
+          message: 'Invalid sex provided',
+          errors: sexResult.error.format()
+        });
+      }
+      
+      const lifeTable = await getLifeTable(req.params.countryCode, sexResult.data);
+      res.json(lifeTable);
+    } catch (error: any) {
+      res.status(500).json({
+        message: `Failed to fetch life table: ${error.message}`
+      });
+    }
+  });
+
+  // API route for activity averages across all saved profiles, e.g. ?activity=sleep
+  app.get('/api/stats/activities', async (req: Request, res: Response) => {
+    try {
+      const activityName = typeof req.query.activity === 'string' ? req.query.activity : undefined;
+      const aggregates = await storage.getActivityAggregates(activityName);
+      res.json(aggregates);
+    } catch (error: any) {
+      res.status(500).json({
+        message: `Failed to fetch activity statistics: ${error.message}`
+      });
+    }
+  });
+
+  // API route to save a life data profile owned by the logged-in user
+  app.post('/api/life-data', requireAuth, async (req: Request, res: Response) => {
     try {
       // Debug the incoming data
       console.log('Received data for saving:', JSON.stringify(req.body, null, 2));
@@ -70,6 +157,9 @@ Sitemap: https://lifetime-visualizer.replit.app/sitemap.xml`);
         req.body.updatedAt = new Date(req.body.updatedAt);
       }
       
+      // Ownership always comes from the session, never from the request body
+      req.body.userId = req.user!.id;
+      
       // Validate request body
       const validationResult = insertUserLifeDataSchema.safeParse(req.body);
       
@@ -81,8 +171,8 @@ Sitemap: https://lifetime-visualizer.replit.app/sitemap.xml`);
         });
       }
       
-      // Save the data
-      const savedData = await storage.saveUserLifeData(validationResult.data);
+      // Save the data along with a fresh share link
+      const savedData = await storage.saveUserLifeData(validationResult.data, generateShareSlug());
       
       res.status(201).json({
         message: 'Life data saved successfully',
@@ -96,8 +186,24 @@ Sitemap: https://lifetime-visualizer.replit.app/sitemap.xml`);
     }
   });
 
-  // API route to get user life data by ID
-  app.get('/api/life-data/:id', async (req: Request, res: Response) => {
+  // API route to list the logged-in user's saved life data, newest first
+  app.get('/api/life-data', requireAuth, async (req: Request, res: Response) => {
+    try {
+      const page = Math.max(1, parseInt(req.query.page as string) || 1);
+      const pageSize = Math.min(50, Math.max(1, parseInt(req.query.pageSize as string) || 10));
+      
+      const { items, total } = await storage.listUserLifeData(req.user!.id, pageSize, (page - 1) * pageSize);
+      
+      res.json({ items, total, page, pageSize });
+    } catch (error: any) {
+      res.status(500).json({
+        message: `Failed to list life data: ${error.message}`
+      });
+    }
+  });
+
+  // API route to get the logged-in user's life data by ID (others use share links)
+  app.get('/api/life-data/:id', requireAuth, async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       
@@ -109,7 +215,7 @@ Sitemap: https://lifetime-visualizer.replit.app/sitemap.xml`);
       
       const lifeData = await storage.getUserLifeData(id);
       
-      if (!lifeData) {
+      if (!lifeData || lifeData.userId !== req.user!.id) {
         return res.status(404).json({
           message: 'Life data not found'
         });
@@ -123,6 +229,216 @@ Sitemap: https://lifetime-visualizer.replit.app/sitemap.xml`);
     }
   });
 
+  // API route to update a saved life data profile owned by the logged-in user
+  app.put('/api/life-data/:id', requireAuth, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        return res.status(400).json({
+          message: 'Invalid ID provided'
+        });
+      }
+      
+      const validationResult = updateUserLifeDataSchema.safeParse(req.body);
+      
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: 'Invalid data provided',
+          errors: validationResult.error.format()
+        });
+      }
+      
+      const existing = await storage.getUserLifeData(id);
+      
+      if (!existing || existing.userId !== req.user!.id) {
+        return res.status(404).json({
+          message: 'Life data not found'
+        });
+      }
+      
+      const updatedData = await storage.updateUserLifeData(id, validationResult.data);
+      
+      res.json({
+        message: 'Life data updated successfully',
+        data: updatedData
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        message: `Failed to update life data: ${error.message}`
+      });
+    }
+  });
+
+  // API route to delete a saved life data profile owned by the logged-in user
+  app.delete('/api/life-data/:id', requireAuth, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        return res.status(400).json({
+          message: 'Invalid ID provided'
+        });
+      }
+      
+      const existing = await storage.getUserLifeData(id);
+      
+      if (!existing || existing.userId !== req.user!.id) {
+        return res.status(404).json({
+          message: 'Life data not found'
+        });
+      }
+      
+      await storage.deleteUserLifeData(id);
+      
+      res.status(204).end();
+    } catch (error: any) {
+      res.status(500).json({
+        message: `Failed to delete life data: ${error.message}`
+      });
+    }
+  });
+
+  // API route to issue (or rotate) the share link of an owned profile
+  app.post('/api/life-data/:id/share', requireAuth, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        return res.status(400).json({
+          message: 'Invalid ID provided'
+        });
+      }
+      
+      const validationResult = createShareLinkSchema.safeParse(req.body ?? {});
+      
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: 'Invalid share settings provided',
+          errors: validationResult.error.format()
+        });
+      }
+      
+      const existing = await storage.getUserLifeData(id);
+      
+      if (!existing || existing.userId !== req.user!.id) {
+        return res.status(404).json({
+          message: 'Life data not found'
+        });
+      }
+      
+      const { expiresInDays } = validationResult.data;
+      const expiresAt = expiresInDays ? new Date(Date.now() + expiresInDays * 86400000) : null;
+      const updatedData = await storage.updateShareLink(id, generateShareSlug(), expiresAt);
+      
+      res.json({
+        message: 'Share link created',
+        data: updatedData
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        message: `Failed to create share link: ${error.message}`
+      });
+    }
+  });
+
+  // API route to revoke the share link of an owned profile
+  app.delete('/api/life-data/:id/share', requireAuth, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        return res.status(400).json({
+          message: 'Invalid ID provided'
+        });
+      }
+      
+      const existing = await storage.getUserLifeData(id);
+      
+      if (!existing || existing.userId !== req.user!.id) {
+        return res.status(404).json({
+          message: 'Life data not found'
+        });
+      }
+      
+      const updatedData = await storage.updateShareLink(id, null, null);
+      
+      res.json({
+        message: 'Share link revoked',
+        data: updatedData
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        message: `Failed to revoke share link: ${error.message}`
+      });
+    }
+  });
+
+  // Public API route to read a shared visualization by its opaque slug
+  app.get('/api/share/:slug', async (req: Request, res: Response) => {
+    try {
+      const lifeData = await storage.getUserLifeDataByShareSlug(req.params.slug);
+      
+      if (!lifeData || !lifeData.result) {
+        return res.status(404).json({
+          message: 'Shared visualization not found'
+        });
+      }
+      
+      if (lifeData.shareExpiresAt && lifeData.shareExpiresAt.getTime() < Date.now()) {
+        return res.status(410).json({
+          message: 'This share link has expired'
+        });
+      }
+      
+      const shared: SharedLifeData = {
+        countryCode: lifeData.countryCode,
+        activities: lifeData.activities,
+        eras: lifeData.eras,
+        result: lifeData.result,
+        createdAt: lifeData.createdAt,
+        shareExpiresAt: lifeData.shareExpiresAt
+      };
+      
+      res.json(shared);
+    } catch (error: any) {
+      res.status(500).json({
+        message: `Failed to fetch shared visualization: ${error.message}`
+      });
+    }
+  });
+
+  // Open Graph card for a share link: weeks lived/remaining and top activities as a PNG
+  app.get('/api/share/:slug/card.png', async (req: Request, res: Response) => {
+    try {
+      const lifeData = await storage.getUserLifeDataByShareSlug(req.params.slug);
+      const result = lifeData?.result ? parseShareCardResult(lifeData.result) : null;
+      
+      if (!lifeData || !result) {
+        return res.status(404).json({
+          message: 'Shared visualization not found'
+        });
+      }
+      
+      if (lifeData.shareExpiresAt && lifeData.shareExpiresAt.getTime() < Date.now()) {
+        return res.status(410).json({
+          message: 'This share link has expired'
+        });
+      }
+      
+      res.set({
+        'Content-Type': 'image/png',
+        // Revoking or rotating a link must stop the card being served, so caches revalidate each time
+        'Cache-Control': 'private, no-cache'
+      });
+      res.send(renderShareCard(result));
+    } catch (error: any) {
+      res.status(500).json({
+        message: `Failed to render share card: ${error.message}`
+      });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
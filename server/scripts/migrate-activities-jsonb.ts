@@ -0,0 +1,96 @@
+/**
+ * One-off migration: converts user_life_data.activities from a JSON string (text)
+ * to a jsonb array validated against activitySchema.
+ *
+ * Run it once before `npm run db:push` on databases created before the column
+ * changed type:
+ *
+ *   npm run db:migrate-activities
+ *
+ * Rows whose activities cannot be parsed keep only the entries that pass
+ * validation; every dropped entry is logged so it can be reviewed.
+ */
+import { activitySchema, type Activity } from "@shared/schema";
+import { pool } from "../db";
+
+function parseLegacyActivities(id: number, raw: string): Activity[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    console.warn(`Row ${id}: activities is not valid JSON, storing an empty list`);
+    return [];
+  }
+
+  if (!Array.isArray(parsed)) {
+    console.warn(`Row ${id}: activities is not an array, storing an empty list`);
+    return [];
+  }
+
+  const activities: Activity[] = [];
+  parsed.forEach((entry, index) => {
+    const result = activitySchema.safeParse(entry);
+    if (result.success) {
+      activities.push(result.data);
+    } else {
+      console.warn(`Row ${id}: dropping invalid activity #${index}: ${result.error.message}`);
+    }
+  });
+  return activities;
+}
+
+async function migrate() {
+  const client = await pool.connect();
+
+  try {
+    const { rows: columns } = await client.query<{ data_type: string }>(
+      `select data_type from information_schema.columns
+       where table_name = 'user_life_data' and column_name = 'activities'`
+    );
+
+    if (columns.length === 0) {
+      console.log("user_life_data.activities does not exist yet, nothing to migrate");
+      return;
+    }
+
+    if (columns[0].data_type === "jsonb") {
+      console.log("user_life_data.activities is already jsonb, nothing to migrate");
+      return;
+    }
+
+    await client.query("begin");
+    await client.query("alter table user_life_data add column activities_jsonb jsonb");
+
+    const { rows } = await client.query<{ id: number; activities: string }>(
+      "select id, activities from user_life_data"
+    );
+
+    for (const row of rows) {
+      const activities = parseLegacyActivities(row.id, row.activities);
+      await client.query(
+        "update user_life_data set activities_jsonb = $1::jsonb where id = $2",
+        [JSON.stringify(activities), row.id]
+      );
+    }
+
+    await client.query("alter table user_life_data drop column activities");
+    await client.query("alter table user_life_data rename column activities_jsonb to activities");
+    await client.query("alter table user_life_data alter column activities set not null");
+    await client.query("commit");
+
+    console.log(`Migrated activities for ${rows.length} saved profiles`);
+  } catch (error) {
+    await client.query("rollback");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+migrate()
+  .then(() => pool.end())
+  .catch(async (error) => {
+    console.error("Activities migration failed:", error);
+    await pool.end();
+    process.exit(1);
+  });
@@ -0,0 +1,282 @@
+/**
+ * Regenerates server/data/worldbank-snapshot.json from downloaded World Bank
+ * exports of the life expectancy at birth indicators (total SP.DYN.LE00.IN,
+ * female SP.DYN.LE00.FE.IN, male SP.DYN.LE00.MA.IN): the most recent non-empty
+ * year per country, plus every year's value for the life expectancy history chart.
+ *
+ * CSV (the "Download CSV" zip from data.worldbank.org/indicator/<indicator>):
+ *
+ *   npm run data:refresh-worldbank -- \
+ *     --total API_SP.DYN.LE00.IN_DS2_en_csv_v2.csv \
+ *     --female API_SP.DYN.LE00.FE.IN_DS2_en_csv_v2.csv \
+ *     --male API_SP.DYN.LE00.MA.IN_DS2_en_csv_v2.csv \
+ *     --countries Metadata_Country_API_SP.DYN.LE00.IN_DS2_en_csv_v2.csv
+ *
+ * JSON (saved API responses, one per indicator):
+ *
+ *   curl -o total.json "https://api.worldbank.org/v2/country/all/indicator/SP.DYN.LE00.IN?format=json&per_page=20000"
+ *   curl -o countries.json "https://api.worldbank.org/v2/country?format=json&per_page=300"
+ *   npm run data:refresh-worldbank -- --total total.json --female female.json --male male.json --countries countries.json
+ *
+ * The countries file is needed to tell countries apart from regional and
+ * income aggregates, which the indicator exports mix in.
+ */
+import { readFileSync, writeFileSync, existsSync } from "fs";
+import path, { dirname } from "path";
+import { fileURLToPath } from "url";
+import { parseArgs } from "util";
+import type { Sex } from "@shared/schema";
+import type { SnapshotCountry, SnapshotHistory, WorldBankSnapshot } from "../services/worldbank-snapshot";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const SNAPSHOT_PATH = path.resolve(__dirname, "..", "data", "worldbank-snapshot.json");
+const INDICATORS: Record<Sex, string> = {
+  total: "SP.DYN.LE00.IN",
+  female: "SP.DYN.LE00.FE.IN",
+  male: "SP.DYN.LE00.MA.IN"
+};
+const WORLD_CODE = "WLD";
+
+interface IndicatorValue {
+  code: string;
+  name: string;
+  value: number;
+  year: number;
+  series: Map<number, number>; // Every year with a value, including the latest
+}
+
+// Picks the most recent year of a country's series as its headline value
+function toIndicatorValue(code: string, name: string, series: Map<number, number>): IndicatorValue | null {
+  if (series.size === 0) return null;
+  const year = Math.max(...Array.from(series.keys()));
+  return { code, name, value: series.get(year)!, year, series };
+}
+
+// Minimal RFC 4180 parser; World Bank exports quote every field
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// The indicator CSV starts with a few metadata lines before the real header
+function findHeader(rows: string[][], column: string): number {
+  const index = rows.findIndex(row => row.includes(column));
+  if (index === -1) {
+    throw new Error(`Could not find a "${column}" header row`);
+  }
+  return index;
+}
+
+function readIndicatorCsv(text: string): IndicatorValue[] {
+  const rows = parseCsv(text.replace(/^\uFEFF/, ""));
+  const headerIndex = findHeader(rows, "Country Code");
+  const header = rows[headerIndex];
+  const codeColumn = header.indexOf("Country Code");
+  const nameColumn = header.indexOf("Country Name");
+  const yearColumns = header
+    .map((label, column) => ({ year: parseInt(label), column }))
+    .filter(({ year }) => !isNaN(year));
+
+  const values: IndicatorValue[] = [];
+  for (const row of rows.slice(headerIndex + 1)) {
+    const code = row[codeColumn];
+    if (!code) continue;
+
+    const series = new Map<number, number>();
+    yearColumns.forEach(({ year, column }) => {
+      const value = parseFloat(row[column]);
+      if (row[column] && !isNaN(value)) series.set(year, value);
+    });
+    const value = toIndicatorValue(code, row[nameColumn], series);
+    if (value) values.push(value);
+  }
+  return values;
+}
+
+function readIndicatorJson(text: string): IndicatorValue[] {
+  const [, records] = JSON.parse(text) as [unknown, Array<{
+    countryiso3code: string;
+    country: { id: string; value: string };
+    date: string;
+    value: number | null;
+  }>];
+
+  // Records come newest first per country, but do not rely on it
+  const byCode = new Map<string, { name: string; series: Map<number, number> }>();
+  for (const record of records ?? []) {
+    if (record.value === null || !record.countryiso3code) continue;
+
+    const entry = byCode.get(record.countryiso3code) ?? { name: record.country.value, series: new Map<number, number>() };
+    entry.series.set(parseInt(record.date), record.value);
+    byCode.set(record.countryiso3code, entry);
+  }
+  return Array.from(byCode.entries())
+    .map(([code, { name, series }]) => toIndicatorValue(code, name, series))
+    .filter((value): value is IndicatorValue => value !== null);
+}
+
+// Returns the codes of real economies, leaving out regional and income aggregates
+function readCountryCodes(file: string, text: string): Set<string> {
+  if (file.endsWith(".json")) {
+    const [, countries] = JSON.parse(text) as [unknown, Array<{ id: string; region: { id: string } }>];
+    return new Set(countries.filter(country => country.region.id !== "NA").map(country => country.id));
+  }
+
+  const rows = parseCsv(text.replace(/^\uFEFF/, ""));
+  const headerIndex = findHeader(rows, "Country Code");
+  const header = rows[headerIndex];
+  const codeColumn = header.indexOf("Country Code");
+  const regionColumn = header.indexOf("Region");
+  if (regionColumn === -1) {
+    throw new Error(`${file} has no "Region" column, is it the Metadata_Country CSV?`);
+  }
+  return new Set(rows.slice(headerIndex + 1).filter(row => row[regionColumn]).map(row => row[codeColumn]));
+}
+
+function formatSnapshot(snapshot: WorldBankSnapshot): string {
+  // One country per line keeps diffs between refreshes readable
+  const { countries, ...header } = snapshot;
+  const headerLines = Object.entries(header).map(([key, value]) => `  ${JSON.stringify(key)}: ${JSON.stringify(value)},`);
+  const countryLines = countries.map(country => `    ${JSON.stringify(country)}`);
+  return ["{", ...headerLines, '  "countries": [', countryLines.join(",\n"), "  ]", "}", ""].join("\n");
+}
+
+function readIndicator(file: string): Map<string, IndicatorValue> {
+  const text = readFileSync(file, "utf8");
+  const values = file.endsWith(".json") ? readIndicatorJson(text) : readIndicatorCsv(text);
+  return new Map(values.map(value => [value.code, value]));
+}
+
+const roundToTenth = (value: number) => Math.round(value * 10) / 10;
+
+// Yearly values from the first year any indicator has, null where an indicator has no estimate
+function buildHistory(total: IndicatorValue, female?: IndicatorValue, male?: IndicatorValue): SnapshotHistory {
+  const years = [total, female, male].flatMap(value => value ? Array.from(value.series.keys()) : []);
+  const firstYear = Math.min(...years);
+  const lastYear = Math.max(...years);
+  const toArray = (value: IndicatorValue) => Array.from({ length: lastYear - firstYear + 1 }, (_, index) => {
+    const yearValue = value.series.get(firstYear + index);
+    return yearValue === undefined ? null : roundToTenth(yearValue);
+  });
+
+  return {
+    firstYear,
+    total: toArray(total),
+    ...(female && { female: toArray(female) }),
+    ...(male && { male: toArray(male) })
+  };
+}
+
+function refresh(files: Record<Sex, string>, countriesFile: string) {
+  const total = readIndicator(files.total);
+  const female = readIndicator(files.female);
+  const male = readIndicator(files.male);
+  const countryCodes = readCountryCodes(countriesFile, readFileSync(countriesFile, "utf8"));
+
+  const world = total.get(WORLD_CODE);
+  const worldFemale = female.get(WORLD_CODE);
+  const worldMale = male.get(WORLD_CODE);
+  if (!world || !worldFemale || !worldMale) {
+    throw new Error(`Every indicator export needs a World (${WORLD_CODE}) row, are they complete exports?`);
+  }
+
+  const countries: SnapshotCountry[] = Array.from(total.values())
+    .filter(value => countryCodes.has(value.code))
+    .map(value => {
+      // Sex-specific values are optional; the server derives them from the total when missing
+      const femaleValue = female.get(value.code);
+      const maleValue = male.get(value.code);
+      return {
+        code: value.code,
+        name: value.name,
+        lifeExpectancy: roundToTenth(value.value),
+        ...(femaleValue && { female: roundToTenth(femaleValue.value) }),
+        ...(maleValue && { male: roundToTenth(maleValue.value) }),
+        dataYear: value.year,
+        history: buildHistory(value, femaleValue, maleValue)
+      };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  if (countries.length === 0) {
+    throw new Error("No country values found, check that the files come from the same export");
+  }
+
+  const previousVersion = existsSync(SNAPSHOT_PATH)
+    ? (JSON.parse(readFileSync(SNAPSHOT_PATH, "utf8")) as WorldBankSnapshot).version
+    : 0;
+
+  const snapshot: WorldBankSnapshot = {
+    version: previousVersion + 1,
+    indicators: INDICATORS,
+    source: `World Bank World Development Indicators (${path.basename(files.total)})`,
+    generatedAt: new Date().toISOString().slice(0, 10),
+    world: {
+      lifeExpectancy: roundToTenth(world.value),
+      female: roundToTenth(worldFemale.value),
+      male: roundToTenth(worldMale.value),
+      dataYear: world.year
+    },
+    countries
+  };
+
+  writeFileSync(SNAPSHOT_PATH, formatSnapshot(snapshot));
+  console.log(`Wrote snapshot v${snapshot.version} with ${countries.length} countries to ${SNAPSHOT_PATH}`);
+}
+
+const { values: args } = parseArgs({
+  options: {
+    total: { type: "string" },
+    female: { type: "string" },
+    male: { type: "string" },
+    countries: { type: "string" }
+  }
+});
+
+if (!args.total || !args.female || !args.male || !args.countries) {
+  console.error("Usage: npm run data:refresh-worldbank -- --total <file> --female <file> --male <file> --countries <file>");
+  process.exit(1);
+}
+
+try {
+  refresh({ total: args.total, female: args.female, male: args.male }, args.countries);
+} catch (error) {
+  console.error("World Bank snapshot refresh failed:", error);
+  process.exit(1);
+}
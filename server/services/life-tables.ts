@@ -0,0 +1,44 @@
+import type { CountryLifeTable, Sex } from '@shared/schema';
+import { buildModelLifeTable, remainingLifeExpectancy } from '@shared/life-table';
+import { fetchLifeExpectancy } from './worldbank';
+import lifeTableData from '../data/life-tables.json';
+
+// Shape of server/data/life-tables.json: single-year qx from age 0 per country (ISO3) and sex,
+// e.g. { "tables": { "USA": { "female": [0.0052, 0.0004, ...] } } }. The file ships empty, so
+// every country gets a model table until published tables are added to it.
+interface LifeTableDataset {
+  version: number;
+  source: string;
+  tables: Record<string, Partial<Record<Sex, number[]>>>;
+}
+
+const dataset: LifeTableDataset = lifeTableData;
+
+/**
+ * Returns the life table for a country and sex, from the bundled dataset when it has one,
+ * otherwise a model table calibrated to the World Bank life expectancy at birth
+ */
+export async function getLifeTable(countryCode: string, sex: Sex): Promise<CountryLifeTable> {
+  const publishedQx = dataset.tables[countryCode.toUpperCase()]?.[sex];
+
+  if (publishedQx && publishedQx.length > 0) {
+    // Close the table: nobody survives past its last age
+    const qx = [...publishedQx.slice(0, -1), 1];
+    return {
+      countryCode,
+      sex,
+      source: 'dataset',
+      lifeExpectancyAtBirth: Math.round(remainingLifeExpectancy({ qx }, 0) * 10) / 10,
+      qx
+    };
+  }
+
+  const { lifeExpectancy: lifeExpectancyAtBirth } = await fetchLifeExpectancy(countryCode, sex);
+  return {
+    countryCode,
+    sex,
+    source: 'model',
+    lifeExpectancyAtBirth,
+    qx: buildModelLifeTable(lifeExpectancyAtBirth).qx
+  };
+}
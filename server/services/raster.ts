@@ -0,0 +1,192 @@
+import { deflateSync } from 'zlib';
+
+// 5x7 bitmap font, one 5-bit row per entry (most significant bit leftmost). Covers what
+// share cards print: upper-case letters, digits and common punctuation.
+const FONT: Record<string, number[]> = {
+  A: [0x0e, 0x11, 0x11, 0x1f, 0x11, 0x11, 0x11],
+  B: [0x1e, 0x11, 0x11, 0x1e, 0x11, 0x11, 0x1e],
+  C: [0x0e, 0x11, 0x10, 0x10, 0x10, 0x11, 0x0e],
+  D: [0x1e, 0x11, 0x11, 0x11, 0x11, 0x11, 0x1e],
+  E: [0x1f, 0x10, 0x10, 0x1e, 0x10, 0x10, 0x1f],
+  F: [0x1f, 0x10, 0x10, 0x1e, 0x10, 0x10, 0x10],
+  G: [0x0e, 0x11, 0x10, 0x17, 0x11, 0x11, 0x0f],
+  H: [0x11, 0x11, 0x11, 0x1f, 0x11, 0x11, 0x11],
+  I: [0x0e, 0x04, 0x04, 0x04, 0x04, 0x04, 0x0e],
+  J: [0x07, 0x02, 0x02, 0x02, 0x02, 0x12, 0x0c],
+  K: [0x11, 0x12, 0x14, 0x18, 0x14, 0x12, 0x11],
+  L: [0x10, 0x10, 0x10, 0x10, 0x10, 0x10, 0x1f],
+  M: [0x11, 0x1b, 0x15, 0x15, 0x11, 0x11, 0x11],
+  N: [0x11, 0x11, 0x19, 0x15, 0x13, 0x11, 0x11],
+  O: [0x0e, 0x11, 0x11, 0x11, 0x11, 0x11, 0x0e],
+  P: [0x1e, 0x11, 0x11, 0x1e, 0x10, 0x10, 0x10],
+  Q: [0x0e, 0x11, 0x11, 0x11, 0x15, 0x12, 0x0d],
+  R: [0x1e, 0x11, 0x11, 0x1e, 0x14, 0x12, 0x11],
+  S: [0x0f, 0x10, 0x10, 0x0e, 0x01, 0x01, 0x1e],
+  T: [0x1f, 0x04, 0x04, 0x04, 0x04, 0x04, 0x04],
+  U: [0x11, 0x11, 0x11, 0x11, 0x11, 0x11, 0x0e],
+  V: [0x11, 0x11, 0x11, 0x11, 0x11, 0x0a, 0x04],
+  W: [0x11, 0x11, 0x11, 0x15, 0x15, 0x15, 0x0a],
+  X: [0x11, 0x11, 0x0a, 0x04, 0x0a, 0x11, 0x11],
+  Y: [0x11, 0x11, 0x11, 0x0a, 0x04, 0x04, 0x04],
+  Z: [0x1f, 0x01, 0x02, 0x04, 0x08, 0x10, 0x1f],
+  '0': [0x0e, 0x11, 0x13, 0x15, 0x19, 0x11, 0x0e],
+  '1': [0x04, 0x0c, 0x04, 0x04, 0x04, 0x04, 0x0e],
+  '2': [0x0e, 0x11, 0x01, 0x02, 0x04, 0x08, 0x1f],
+  '3': [0x1f, 0x02, 0x04, 0x02, 0x01, 0x11, 0x0e],
+  '4': [0x02, 0x06, 0x0a, 0x12, 0x1f, 0x02, 0x02],
+  '5': [0x1f, 0x10, 0x1e, 0x01, 0x01, 0x11, 0x0e],
+  '6': [0x06, 0x08, 0x10, 0x1e, 0x11, 0x11, 0x0e],
+  '7': [0x1f, 0x01, 0x02, 0x04, 0x08, 0x08, 0x08],
+  '8': [0x0e, 0x11, 0x11, 0x0e, 0x11, 0x11, 0x0e],
+  '9': [0x0e, 0x11, 0x11, 0x0f, 0x01, 0x02, 0x0c],
+  ' ': [0, 0, 0, 0, 0, 0, 0],
+  '.': [0, 0, 0, 0, 0, 0x0c, 0x0c],
+  ',': [0, 0, 0, 0, 0x0c, 0x04, 0x08],
+  ':': [0, 0x0c, 0x0c, 0, 0x0c, 0x0c, 0],
+  '-': [0, 0, 0, 0x1f, 0, 0, 0],
+  '%': [0x18, 0x19, 0x02, 0x04, 0x08, 0x13, 0x03],
+  "'": [0x0c, 0x04, 0x08, 0, 0, 0, 0],
+  '(': [0x02, 0x04, 0x08, 0x08, 0x08, 0x04, 0x02],
+  ')': [0x08, 0x04, 0x02, 0x02, 0x02, 0x04, 0x08],
+  '/': [0, 0x01, 0x02, 0x04, 0x08, 0x10, 0],
+  '+': [0, 0x04, 0x04, 0x1f, 0x04, 0x04, 0],
+  '&': [0x0c, 0x12, 0x14, 0x08, 0x15, 0x12, 0x0d],
+  '!': [0x04, 0x04, 0x04, 0x04, 0x04, 0, 0x04],
+  '?': [0x0e, 0x11, 0x01, 0x02, 0x04, 0, 0x04],
+};
+
+const GLYPH_WIDTH = 5;
+const GLYPH_HEIGHT = 7;
+const GLYPH_ADVANCE = GLYPH_WIDTH + 1;
+
+const PLACEHOLDER = '?';
+
+// Upper-cases and strips accents; each run of characters the font lacks becomes one placeholder
+export function toFontText(text: string): string {
+  let fontText = '';
+  let missing = false;
+  Array.from(text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toUpperCase()).forEach(char => {
+    if (FONT[char]) {
+      fontText += char;
+      missing = false;
+    } else if (!missing) {
+      fontText += PLACEHOLDER;
+      missing = true;
+    }
+  });
+  return fontText;
+}
+
+// Whether the font can draw at least one letter or digit of the text
+export function hasFontText(text: string): boolean {
+  return /[A-Z0-9]/.test(toFontText(text));
+}
+
+/**
+ * RGB pixel buffer with just enough drawing to lay out simple cards, encodable as PNG
+ * without a browser or native image library
+ */
+export class Raster {
+  private pixels: Uint8Array;
+
+  constructor(readonly width: number, readonly height: number, background: string) {
+    this.pixels = new Uint8Array(width * height * 3);
+    this.fillRect(0, 0, width, height, background);
+  }
+
+  fillRect(x: number, y: number, width: number, height: number, color: string) {
+    const [r, g, b] = parseColor(color);
+    const left = Math.max(0, Math.round(x));
+    const top = Math.max(0, Math.round(y));
+    const right = Math.min(this.width, Math.round(x + width));
+    const bottom = Math.min(this.height, Math.round(y + height));
+    for (let row = top; row < bottom; row++) {
+      for (let column = left; column < right; column++) {
+        const offset = (row * this.width + column) * 3;
+        this.pixels[offset] = r;
+        this.pixels[offset + 1] = g;
+        this.pixels[offset + 2] = b;
+      }
+    }
+  }
+
+  // Width in pixels of text drawn at the given scale
+  static measureText(text: string, scale: number): number {
+    const length = toFontText(text).length;
+    return length === 0 ? 0 : (length * GLYPH_ADVANCE - 1) * scale;
+  }
+
+  static textHeight(scale: number): number {
+    return GLYPH_HEIGHT * scale;
+  }
+
+  // Draws text with its top-left corner at (x, y), each font pixel `scale` pixels square
+  drawText(x: number, y: number, text: string, scale: number, color: string) {
+    Array.from(toFontText(text)).forEach((char, index) => {
+      const glyph = FONT[char];
+      const left = x + index * GLYPH_ADVANCE * scale;
+      glyph.forEach((bits, row) => {
+        for (let column = 0; column < GLYPH_WIDTH; column++) {
+          if (bits & (1 << (GLYPH_WIDTH - 1 - column))) {
+            this.fillRect(left + column * scale, y + row * scale, scale, scale, color);
+          }
+        }
+      });
+    });
+  }
+
+  toPng(): Buffer {
+    // Each scanline starts with filter type 0 (none)
+    const stride = this.width * 3;
+    const raw = Buffer.alloc((stride + 1) * this.height);
+    for (let row = 0; row < this.height; row++) {
+      raw[row * (stride + 1)] = 0;
+      raw.set(this.pixels.subarray(row * stride, (row + 1) * stride), row * (stride + 1) + 1);
+    }
+
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(this.width, 0);
+    header.writeUInt32BE(this.height, 4);
+    header[8] = 8; // Bit depth
+    header[9] = 2; // Truecolour RGB
+    return Buffer.concat([
+      Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+      pngChunk('IHDR', header),
+      pngChunk('IDAT', deflateSync(raw)),
+      pngChunk('IEND', Buffer.alloc(0)),
+    ]);
+  }
+}
+
+// "#3B82F6" or "#38F"; anything else draws grey
+function parseColor(color: string): [number, number, number] {
+  const hex = color.trim().replace(/^#/, '');
+  const full = hex.length === 3 ? Array.from(hex).map(char => char + char).join('') : hex;
+  if (!/^[0-9a-f]{6}$/i.test(full)) return [128, 128, 128];
+  return [0, 2, 4].map(start => parseInt(full.slice(start, start + 2), 16)) as [number, number, number];
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length, 0);
+  const typeAndData = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(typeAndData), 0);
+  return Buffer.concat([length, typeAndData, crc]);
+}
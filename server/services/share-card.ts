@@ -0,0 +1,99 @@
+import { storedResultSchema, type StoredResult } from '@shared/schema';
+import { Raster, hasFontText } from './raster';
+
+// Open Graph's recommended large image size
+export const SHARE_CARD_WIDTH = 1200;
+export const SHARE_CARD_HEIGHT = 630;
+
+const BACKGROUND = '#0F172A';
+const TEXT = '#F8FAFC';
+const MUTED = '#94A3B8';
+const LIVED = '#3B82F6';
+const REMAINING = '#334155';
+const TOP_ACTIVITIES = 5;
+
+// The parts of a stored visualization result (client VisualizeResult) the card shows
+type ShareCardResult = StoredResult;
+
+/**
+ * Parses a saved profile's result JSON, or returns null when it lacks what the card needs.
+ * Rows stored before results were validated are checked again, and the weeks are kept
+ * consistent, since the grid draws one cell per week.
+ */
+export function parseShareCardResult(result: string): ShareCardResult | null {
+  try {
+    const parsed = storedResultSchema.safeParse(JSON.parse(result));
+    if (!parsed.success) return null;
+    const data = parsed.data;
+    const weeksLived = Math.min(data.weeksLived, data.weeksTotal);
+    return { ...data, weeksLived, weeksRemaining: Math.min(data.weeksRemaining, data.weeksTotal - weeksLived) };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Renders the share card PNG: a life-in-weeks grid (a column per year, a row per week)
+ * beside the activities that have taken the most years
+ */
+export function renderShareCard(result: ShareCardResult): Buffer {
+  const card = new Raster(SHARE_CARD_WIDTH, SHARE_CARD_HEIGHT, BACKGROUND);
+  const margin = 60;
+
+  card.drawText(margin, margin, 'My life in weeks', 6, TEXT);
+  card.drawText(
+    margin,
+    margin + 62,
+    `Age ${Math.floor(result.age)} - ${formatCount(result.weeksLived)} weeks lived - ${formatCount(result.weeksRemaining)} to go`,
+    3,
+    MUTED
+  );
+
+  // Weeks grid
+  const gridTop = 180;
+  const gridWidth = 680;
+  const gridHeight = SHARE_CARD_HEIGHT - gridTop - margin;
+  const years = Math.max(1, Math.ceil(result.weeksTotal / 52));
+  const cell = Math.max(2, Math.floor(Math.min(gridWidth / years, gridHeight / 52)));
+  const gap = cell >= 5 ? 1 : 0;
+  for (let year = 0; year < years; year++) {
+    for (let week = 0; week < 52; week++) {
+      const index = year * 52 + week;
+      if (index >= result.weeksTotal) break;
+      card.fillRect(margin + year * cell, gridTop + week * cell, cell - gap, cell - gap, index < result.weeksLived ? LIVED : REMAINING);
+    }
+  }
+
+  // Top activities by years so far
+  const panelLeft = margin + gridWidth + 50;
+  const panelWidth = SHARE_CARD_WIDTH - panelLeft - margin;
+  card.drawText(panelLeft, gridTop, 'Top activities', 3, MUTED);
+  const top = [...result.activityStats].sort((a, b) => b.years - a.years).slice(0, TOP_ACTIVITIES);
+  top.forEach((stat, index) => {
+    const y = gridTop + 50 + index * 70;
+    card.fillRect(panelLeft, y, 24, 24, stat.color);
+    // Names in scripts the bitmap font lacks get a generic title rather than a row of placeholders
+    const name = hasFontText(stat.name) ? stat.name : `Activity ${index + 1}`;
+    card.drawText(panelLeft + 40, y, truncate(name, panelWidth - 40, 3), 3, TEXT);
+    card.drawText(panelLeft + 40, y + 32, `${stat.years.toFixed(1)} years`, 2, MUTED);
+  });
+
+  const footer = 'Lifetime Visualizer';
+  card.drawText(SHARE_CARD_WIDTH - margin - Raster.measureText(footer, 2), SHARE_CARD_HEIGHT - margin + 20, footer, 2, MUTED);
+
+  return card.toPng();
+}
+
+function formatCount(value: number): string {
+  return Math.round(value).toString().replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+}
+
+// Shortens text with "..." until it fits the width at the given scale
+function truncate(text: string, width: number, scale: number): string {
+  if (Raster.measureText(text, scale) <= width) return text;
+  let shortened = text;
+  while (shortened.length > 0 && Raster.measureText(`${shortened}...`, scale) > width) {
+    shortened = shortened.slice(0, -1);
+  }
+  return `${shortened.trimEnd()}...`;
+}
@@ -0,0 +1,69 @@
+import type { Request } from 'express';
+import { storage } from '../storage';
+import { SHARE_CARD_HEIGHT, SHARE_CARD_WIDTH, parseShareCardResult } from './share-card';
+
+const SHARE_PATH = /^\/s\/([^/?#]+)/;
+
+/**
+ * Gives the index.html served for a share link (/s/:slug) Open Graph and Twitter tags for
+ * that profile, pointing at its rendered card, since link previews don't run the app's
+ * scripts. Other pages, and links that are missing, revoked or expired, keep the defaults.
+ */
+export async function injectShareMeta(html: string, req: Request): Promise<string> {
+  const match = req.originalUrl.match(SHARE_PATH);
+  if (!match) return html;
+
+  try {
+    const slug = decodeURIComponent(match[1]);
+    const lifeData = await storage.getUserLifeDataByShareSlug(slug);
+    if (!lifeData?.result || (lifeData.shareExpiresAt && lifeData.shareExpiresAt.getTime() < Date.now())) {
+      return html;
+    }
+    const result = parseShareCardResult(lifeData.result);
+    if (!result) return html;
+
+    // Proxies terminate TLS, so prefer the protocol the visitor used
+    const protocol = req.get('x-forwarded-proto')?.split(',')[0].trim() || req.protocol;
+    const origin = `${protocol}://${req.get('host')}`;
+    const pageUrl = `${origin}/s/${encodeURIComponent(slug)}`;
+    const imageUrl = `${origin}/api/share/${encodeURIComponent(slug)}/card.png`;
+    const title = `My life in weeks: ${Math.round(result.weeksLived).toLocaleString('en-US')} lived, ${Math.round(result.weeksRemaining).toLocaleString('en-US')} to go`;
+    const topActivities = [...result.activityStats]
+      .sort((a, b) => b.years - a.years)
+      .slice(0, 3)
+      .map(stat => `${stat.name} (${stat.years.toFixed(1)} years)`);
+    const description = `At ${Math.floor(result.age)}, the most time so far has gone to ${topActivities.join(', ')}. See how your own life adds up.`;
+    const imageAlt = 'Grid of weeks lived and remaining, with the activities that have taken the most years';
+
+    const tags: Record<string, string> = {
+      'og:url': pageUrl,
+      'og:title': title,
+      'og:description': description,
+      'og:image': imageUrl,
+      'og:image:width': String(SHARE_CARD_WIDTH),
+      'og:image:height': String(SHARE_CARD_HEIGHT),
+      'og:image:alt': imageAlt,
+      'twitter:card': 'summary_large_image',
+      'twitter:url': pageUrl,
+      'twitter:title': title,
+      'twitter:description': description,
+      'twitter:image': imageUrl,
+      'twitter:image:alt': imageAlt,
+    };
+    return Object.entries(tags).reduce((page, [property, content]) => setMetaTag(page, property, content), html);
+  } catch (error) {
+    console.error('Error adding share link metadata:', error);
+    return html;
+  }
+}
+
+// Replaces the content of an existing <meta property|name="..."> tag, or adds one to <head>
+function setMetaTag(html: string, property: string, content: string): string {
+  const tag = `<meta property="${property}" content="${escapeAttribute(content)}" />`;
+  const existing = new RegExp(`<meta\\s+(?:property|name)="${property.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}"[^>]*>`);
+  return existing.test(html) ? html.replace(existing, () => tag) : html.replace('</head>', () => `  ${tag}\n  </head>`);
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
@@ -0,0 +1,91 @@
+import type { Sex } from '@shared/schema';
+import snapshotData from '../data/worldbank-snapshot.json';
+
+export interface SnapshotCountry {
+  code: string; // ISO 3166-1 alpha-3, as used by the World Bank API
+  name: string;
+  lifeExpectancy: number;
+  female?: number; // SP.DYN.LE00.FE.IN, when the export had a value
+  male?: number; // SP.DYN.LE00.MA.IN, when the export had a value
+  dataYear: number;
+  history?: SnapshotHistory; // Missing until the snapshot is regenerated from a full export
+}
+
+// Yearly life expectancy from firstYear on, null for years without an estimate
+export interface SnapshotHistory {
+  firstYear: number;
+  total: (number | null)[];
+  female?: (number | null)[];
+  male?: (number | null)[];
+}
+
+// Shape of server/data/worldbank-snapshot.json, written by server/scripts/refresh-worldbank-snapshot.ts
+export interface WorldBankSnapshot {
+  version: number;
+  indicators: Record<Sex, string>;
+  source: string;
+  generatedAt: string;
+  world: { lifeExpectancy: number; female: number; male: number; dataYear: number };
+  countries: SnapshotCountry[];
+}
+
+const snapshot: WorldBankSnapshot = snapshotData;
+const countriesByCode = new Map(snapshot.countries.map(country => [country.code, country]));
+
+/**
+ * Countries bundled with the server, sorted by name
+ */
+export function getSnapshotCountries(): SnapshotCountry[] {
+  return snapshot.countries;
+}
+
+/**
+ * Bundled entry for a country, or undefined if the snapshot does not cover it
+ */
+export function getSnapshotCountry(countryCode: string): SnapshotCountry | undefined {
+  return countriesByCode.get(countryCode.toUpperCase());
+}
+
+/**
+ * Year the bundled figure for a country refers to; the world figure's year when the country is missing
+ */
+export function getSnapshotDataYear(countryCode: string): number {
+  return getSnapshotCountry(countryCode)?.dataYear ?? snapshot.world.dataYear;
+}
+
+/**
+ * Bundled yearly life expectancy for a country and sex, oldest year first; empty when the
+ * snapshot has no series for it
+ */
+export function getSnapshotHistory(countryCode: string, sex: Sex): { year: number; lifeExpectancy: number }[] {
+  const history = getSnapshotCountry(countryCode)?.history;
+  const values = history?.[sex];
+  if (!history || !values) return [];
+
+  return values
+    .map((lifeExpectancy, index) => ({ year: history.firstYear + index, lifeExpectancy }))
+    .filter((point): point is { year: number; lifeExpectancy: number } => point.lifeExpectancy !== null);
+}
+
+/**
+ * Bundled life expectancy for a country and sex. Countries without a sex-specific
+ * value get their total scaled by the world female/male to total ratio, and
+ * countries missing from the snapshot get the world figure.
+ */
+export function getSnapshotLifeExpectancy(countryCode: string, sex: Sex): number {
+  const country = getSnapshotCountry(countryCode);
+  const worldValue = sex === 'total' ? snapshot.world.lifeExpectancy : snapshot.world[sex];
+
+  if (!country) {
+    return worldValue;
+  }
+  if (sex === 'total') {
+    return country.lifeExpectancy;
+  }
+
+  const sexValue = country[sex];
+  if (sexValue !== undefined) {
+    return sexValue;
+  }
+  return Math.round(country.lifeExpectancy * (worldValue / snapshot.world.lifeExpectancy) * 10) / 10;
+}
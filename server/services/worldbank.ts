@@ -1,6 +1,7 @@
 import axios from 'axios';
-import { CountryLifeExpectancy } from '@shared/schema';
+import { CountryLifeExpectancy, type LifeExpectancyFigure, type LifeExpectancyHistory, type Sex } from '@shared/schema';
 import { storage } from '../storage';
+import { getSnapshotCountries, getSnapshotCountry, getSnapshotDataYear, getSnapshotHistory, getSnapshotLifeExpectancy } from './worldbank-snapshot';
 
 interface WorldBankCountry {
   id: string;
@@ -16,18 +17,38 @@ interface WorldBankResponse<T> {
 interface LifeExpectancyData {
   indicator: { id: string; value: string };
   country: { id: string; value: string };
-  value: number;
+  value: number | null;
   date: string;
 }
 
 // World Bank API endpoints
 const WORLD_BANK_API_BASE = 'https://api.worldbank.org/v2';
-const LIFE_EXPECTANCY_INDICATOR = 'SP.DYN.LE00.IN'; // Life expectancy at birth, total (years)
+// Life expectancy at birth (years), by sex
+const LIFE_EXPECTANCY_INDICATORS: Record<Sex, string> = {
+  total: 'SP.DYN.LE00.IN',
+  female: 'SP.DYN.LE00.FE.IN',
+  male: 'SP.DYN.LE00.MA.IN'
+};
+
+// The bundled snapshot is the primary source; set WORLD_BANK_LIVE_REFRESH=true to prefer live API values
+const LIVE_REFRESH_ENABLED = process.env.WORLD_BANK_LIVE_REFRESH === 'true';
+
+function getSnapshotCountryList(): any[] {
+  return getSnapshotCountries().map(country => ({
+    code: country.code,
+    name: country.name,
+    lifeExpectancy: country.lifeExpectancy
+  }));
+}
 
 /**
- * Fetches all countries from the World Bank API
+ * Returns all countries, from the bundled snapshot unless live refresh is enabled
  */
 export async function fetchCountries(): Promise<any[]> {
+  if (!LIVE_REFRESH_ENABLED) {
+    return getSnapshotCountryList();
+  }
+
   try {
     // Try to get cached countries first
     const cache = await storage.getCachedCountries();
@@ -48,7 +69,7 @@ export async function fetchCountries(): Promise<any[]> {
       .map(country => ({
         code: country.id,
         name: country.name,
-        lifeExpectancy: 0 // Will be populated on demand
+        lifeExpectancy: getSnapshotCountry(country.id)?.lifeExpectancy ?? 0
       }));
     
     // Cache the country list
@@ -56,25 +77,40 @@ export async function fetchCountries(): Promise<any[]> {
     
     return countries;
   } catch (error) {
-    console.error('Error fetching countries from World Bank API:', error);
-    throw new Error('Failed to fetch countries data');
+    console.error('Error fetching countries from World Bank API, using bundled snapshot:', error);
+    return getSnapshotCountryList();
   }
 }
 
+function getSnapshotFigure(countryCode: string, sex: Sex): LifeExpectancyFigure {
+  return {
+    countryCode,
+    sex,
+    lifeExpectancy: getSnapshotLifeExpectancy(countryCode, sex),
+    dataYear: getSnapshotDataYear(countryCode),
+    source: 'snapshot'
+  };
+}
+
 /**
- * Fetches life expectancy data for a specific country
+ * Returns the life expectancy at birth for a country and sex, and the year it refers to,
+ * from the bundled snapshot unless live refresh is enabled
  */
-export async function fetchLifeExpectancy(countryCode: string): Promise<number> {
+export async function fetchLifeExpectancy(countryCode: string, sex: Sex = 'total'): Promise<LifeExpectancyFigure> {
+  if (!LIVE_REFRESH_ENABLED) {
+    return getSnapshotFigure(countryCode, sex);
+  }
+
   try {
     // Try to get cached life expectancy first
-    const cachedData = await storage.getCachedLifeExpectancy(countryCode);
+    const cachedData = await storage.getCachedLifeExpectancy(countryCode, sex);
     if (cachedData) {
-      return cachedData.lifeExpectancy;
+      return { countryCode, sex, lifeExpectancy: cachedData.lifeExpectancy, dataYear: cachedData.dataYear, source: 'live' };
     }
 
     // Fetch most recent life expectancy data
     const response = await axios.get<WorldBankResponse<LifeExpectancyData>>(
-      `${WORLD_BANK_API_BASE}/country/${countryCode}/indicator/${LIFE_EXPECTANCY_INDICATOR}?format=json&per_page=1&MRV=1`
+      `${WORLD_BANK_API_BASE}/country/${countryCode}/indicator/${LIFE_EXPECTANCY_INDICATORS[sex]}?format=json&per_page=1&MRV=1`
     );
     
     if (response.data[1] && response.data[1][0] && response.data[1][0].value) {
@@ -85,32 +121,73 @@ export async function fetchLifeExpectancy(countryCode: string): Promise<number>
       // Cache the fetched data
       await storage.cacheLifeExpectancy({
         countryCode,
+        sex,
         countryName,
         lifeExpectancy,
         dataYear,
         updatedAt: new Date()
       });
       
-      return lifeExpectancy;
-    } else {
-      // Fallback values if no data available
-      const fallbackLifeExpectancy = {
-        USA: 78.5,
-        GBR: 81.2,
-        CAN: 82.3,
-        AUS: 83.4,
-        DEU: 80.9,
-        FRA: 82.5,
-        JPN: 84.3,
-        CHN: 76.9,
-        IND: 69.7,
-        BRA: 75.5,
+      return { countryCode, sex, lifeExpectancy, dataYear, source: 'live' };
+    }
+
+    // No live value for this country, fall back to the snapshot
+    return getSnapshotFigure(countryCode, sex);
+  } catch (error) {
+    console.error(`Error fetching life expectancy for ${countryCode}, using bundled snapshot:`, error);
+    return getSnapshotFigure(countryCode, sex);
+  }
+}
+
+function getSnapshotHistorySeries(countryCode: string, sex: Sex): LifeExpectancyHistory {
+  return { countryCode, sex, points: getSnapshotHistory(countryCode, sex), source: 'snapshot' };
+}
+
+/**
+ * Returns the full yearly life expectancy series for a country and sex, from the bundled
+ * snapshot unless live refresh is enabled
+ */
+export async function fetchLifeExpectancyHistory(countryCode: string, sex: Sex = 'total'): Promise<LifeExpectancyHistory> {
+  if (!LIVE_REFRESH_ENABLED) {
+    return getSnapshotHistorySeries(countryCode, sex);
+  }
+
+  try {
+    // Try to get the cached series first
+    const cachedRows = await storage.getCachedLifeExpectancyHistory(countryCode, sex);
+    if (cachedRows.length > 0) {
+      return {
+        countryCode,
+        sex,
+        points: cachedRows.map(row => ({ year: row.year, lifeExpectancy: row.lifeExpectancy })),
+        source: 'live'
       };
-      
-      return fallbackLifeExpectancy[countryCode as keyof typeof fallbackLifeExpectancy] || 72.0; // Global average
     }
+
+    // Without MRV the API returns every year, newest first, with null for missing years
+    const response = await axios.get<WorldBankResponse<LifeExpectancyData>>(
+      `${WORLD_BANK_API_BASE}/country/${countryCode}/indicator/${LIFE_EXPECTANCY_INDICATORS[sex]}?format=json&per_page=200`
+    );
+
+    const points = (response.data[1] ?? [])
+      .filter(entry => entry.value !== null)
+      .map(entry => ({ year: parseInt(entry.date), lifeExpectancy: entry.value as number }))
+      .sort((a, b) => a.year - b.year);
+
+    // No live series for this country, fall back to the snapshot
+    if (points.length === 0) {
+      return getSnapshotHistorySeries(countryCode, sex);
+    }
+
+    // Cache the fetched series
+    const updatedAt = new Date();
+    await storage.cacheLifeExpectancyHistory(
+      points.map(point => ({ countryCode, sex, ...point, updatedAt }))
+    );
+
+    return { countryCode, sex, points, source: 'live' };
   } catch (error) {
-    console.error(`Error fetching life expectancy for ${countryCode}:`, error);
-    throw new Error('Failed to fetch life expectancy data');
+    console.error(`Error fetching life expectancy history for ${countryCode}, using bundled snapshot:`, error);
+    return getSnapshotHistorySeries(countryCode, sex);
   }
 }
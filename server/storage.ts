@@ -1,21 +1,45 @@
-import { users, userLifeData, countryLifeExpectancy, type User, type InsertUser, type UserLifeData, type InsertUserLifeData, type CountryLifeExpectancy, type InsertCountryLifeExpectancy } from "@shared/schema";
-import { db } from "./db";
-import { eq } from "drizzle-orm";
+import { users, calculateAverageDailyHours, userLifeData, countryLifeExpectancy, countryLifeExpectancyHistory, type User, type InsertUser, type UserLifeData, type InsertUserLifeData, type UpdateUserLifeData, type CountryLifeExpectancy, type InsertCountryLifeExpectancy, type CountryLifeExpectancyHistory, type InsertCountryLifeExpectancyHistory, type ActivityAggregate, type Sex } from "@shared/schema";
+import { db, pool } from "./db";
+import { eq, and, asc, desc, count, sql } from "drizzle-orm";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+
+const PostgresSessionStore = connectPg(session);
+const MemoryStore = createMemoryStore(session);
 
 export interface IStorage {
+  sessionStore: session.Store;
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
-  createUser(user: InsertUser): Promise<User>;
-  saveUserLifeData(data: InsertUserLifeData): Promise<UserLifeData>;
+  // Undefined when the username is already taken, including by a concurrent registration
+  createUser(user: InsertUser): Promise<User | undefined>;
+  saveUserLifeData(data: InsertUserLifeData, shareSlug?: string): Promise<UserLifeData>;
   getUserLifeData(id: number): Promise<UserLifeData | undefined>;
+  listUserLifeData(userId: number, limit: number, offset: number): Promise<{ items: UserLifeData[]; total: number }>;
+  updateUserLifeData(id: number, data: UpdateUserLifeData): Promise<UserLifeData | undefined>;
+  deleteUserLifeData(id: number): Promise<boolean>;
+  getUserLifeDataByShareSlug(shareSlug: string): Promise<UserLifeData | undefined>;
+  updateShareLink(id: number, shareSlug: string | null, shareExpiresAt: Date | null): Promise<UserLifeData | undefined>;
+  getActivityAggregates(activityName?: string): Promise<ActivityAggregate[]>;
   getCachedCountries(): Promise<any[]>;
   cacheCountries(countries: any[]): Promise<void>;
-  getCachedLifeExpectancy(countryCode: string): Promise<CountryLifeExpectancy | undefined>;
+  getCachedLifeExpectancy(countryCode: string, sex: Sex): Promise<CountryLifeExpectancy | undefined>;
   cacheLifeExpectancy(data: InsertCountryLifeExpectancy): Promise<CountryLifeExpectancy>;
+  getCachedLifeExpectancyHistory(countryCode: string, sex: Sex): Promise<CountryLifeExpectancyHistory[]>;
+  cacheLifeExpectancyHistory(rows: InsertCountryLifeExpectancyHistory[]): Promise<void>;
 }
 
 export class DatabaseStorage implements IStorage {
   private countryCache: any[] = [];
+  sessionStore: session.Store;
+
+  constructor() {
+    this.sessionStore = new PostgresSessionStore({
+      pool,
+      createTableIfMissing: true,
+    });
+  }
 
   async getUser(id: number): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
@@ -27,13 +51,14 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
-  async createUser(insertUser: InsertUser): Promise<User> {
-    const [user] = await db.insert(users).values(insertUser).returning();
+  async createUser(insertUser: InsertUser): Promise<User | undefined> {
+    // The unique index decides between concurrent registrations, so the loser inserts nothing
+    const [user] = await db.insert(users).values(insertUser).onConflictDoNothing({ target: users.username }).returning();
     return user;
   }
   
-  async saveUserLifeData(data: InsertUserLifeData): Promise<UserLifeData> {
-    const [savedData] = await db.insert(userLifeData).values(data).returning();
+  async saveUserLifeData(data: InsertUserLifeData, shareSlug?: string): Promise<UserLifeData> {
+    const [savedData] = await db.insert(userLifeData).values({ ...data, shareSlug }).returning();
     return savedData;
   }
   
@@ -42,6 +67,83 @@ export class DatabaseStorage implements IStorage {
     return data;
   }
 
+  async listUserLifeData(userId: number, limit: number, offset: number): Promise<{ items: UserLifeData[]; total: number }> {
+    const items = await db.select()
+      .from(userLifeData)
+      .where(eq(userLifeData.userId, userId))
+      .orderBy(desc(userLifeData.createdAt), desc(userLifeData.id))
+      .limit(limit)
+      .offset(offset);
+    const [{ total }] = await db.select({ total: count() })
+      .from(userLifeData)
+      .where(eq(userLifeData.userId, userId));
+    return { items, total };
+  }
+
+  async updateUserLifeData(id: number, data: UpdateUserLifeData): Promise<UserLifeData | undefined> {
+    const [updated] = await db.update(userLifeData)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(userLifeData.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteUserLifeData(id: number): Promise<boolean> {
+    const deleted = await db.delete(userLifeData)
+      .where(eq(userLifeData.id, id))
+      .returning({ id: userLifeData.id });
+    return deleted.length > 0;
+  }
+
+  async getUserLifeDataByShareSlug(shareSlug: string): Promise<UserLifeData | undefined> {
+    const [data] = await db.select().from(userLifeData).where(eq(userLifeData.shareSlug, shareSlug));
+    return data;
+  }
+
+  async updateShareLink(id: number, shareSlug: string | null, shareExpiresAt: Date | null): Promise<UserLifeData | undefined> {
+    const [updated] = await db.update(userLifeData)
+      .set({ shareSlug, shareExpiresAt, updatedAt: new Date() })
+      .where(eq(userLifeData.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getActivityAggregates(activityName?: string): Promise<ActivityAggregate[]> {
+    // Unnest the jsonb activities of every profile and group them by normalised name
+    const activity = sql`lower(trim(a->>'name'))`;
+    // Share of all days the activity happens on, mirroring calculateAverageDailyHours in shared/schema.ts
+    const activeShareOfYear = sql`coalesce(nullif((select count(distinct m) from jsonb_array_elements(a->'recurrence'->'activeMonths') as m), 0)::numeric / 12, 1)`;
+    const activeDayShare = sql`case coalesce(a->'recurrence'->>'frequency', 'weekly')
+        when 'yearly' then (a->'recurrence'->>'daysPerPeriod')::numeric / 365
+        when 'monthly' then (a->'recurrence'->>'daysPerPeriod')::numeric * 12 / 365 * ${activeShareOfYear}
+        else (a->>'daysPerWeek')::numeric / 7 * ${activeShareOfYear}
+      end`;
+    const nameFilter = activityName
+      ? sql`where ${activity} = ${activityName.trim().toLowerCase()}`
+      : sql``;
+    const result = await db.execute<{
+      activity: string;
+      average_daily_hours: string;
+      average_hours_per_active_day: string;
+      profile_count: string;
+    }>(sql`
+      select ${activity} as activity,
+             avg((a->>'hours')::numeric * ${activeDayShare}) as average_daily_hours,
+             avg((a->>'hours')::numeric) as average_hours_per_active_day,
+             count(distinct ${userLifeData.id}) as profile_count
+      from ${userLifeData}, jsonb_array_elements(${userLifeData.activities}) as a
+      ${nameFilter}
+      group by ${activity}
+      order by profile_count desc, activity
+    `);
+    return result.rows.map(row => ({
+      activity: row.activity,
+      averageDailyHours: Number(row.average_daily_hours),
+      averageHoursPerActiveDay: Number(row.average_hours_per_active_day),
+      profileCount: Number(row.profile_count)
+    }));
+  }
+
   async getCachedCountries(): Promise<any[]> {
     return this.countryCache;
   }
@@ -50,8 +152,10 @@ export class DatabaseStorage implements IStorage {
     this.countryCache = countries;
   }
 
-  async getCachedLifeExpectancy(countryCode: string): Promise<CountryLifeExpectancy | undefined> {
-    const [data] = await db.select().from(countryLifeExpectancy).where(eq(countryLifeExpectancy.countryCode, countryCode));
+  async getCachedLifeExpectancy(countryCode: string, sex: Sex): Promise<CountryLifeExpectancy | undefined> {
+    const [data] = await db.select().from(countryLifeExpectancy).where(
+      and(eq(countryLifeExpectancy.countryCode, countryCode), eq(countryLifeExpectancy.sex, sex))
+    );
     return data;
   }
 
@@ -59,7 +163,7 @@ export class DatabaseStorage implements IStorage {
     const [cached] = await db.insert(countryLifeExpectancy)
       .values(data)
       .onConflictDoUpdate({
-        target: countryLifeExpectancy.countryCode,
+        target: [countryLifeExpectancy.countryCode, countryLifeExpectancy.sex],
         set: { 
           lifeExpectancy: data.lifeExpectancy,
           dataYear: data.dataYear,
@@ -69,6 +173,209 @@ export class DatabaseStorage implements IStorage {
       .returning();
     return cached;
   }
+
+  async getCachedLifeExpectancyHistory(countryCode: string, sex: Sex): Promise<CountryLifeExpectancyHistory[]> {
+    return db.select().from(countryLifeExpectancyHistory)
+      .where(and(eq(countryLifeExpectancyHistory.countryCode, countryCode), eq(countryLifeExpectancyHistory.sex, sex)))
+      .orderBy(asc(countryLifeExpectancyHistory.year));
+  }
+
+  async cacheLifeExpectancyHistory(rows: InsertCountryLifeExpectancyHistory[]): Promise<void> {
+    if (rows.length === 0) return;
+
+    await db.insert(countryLifeExpectancyHistory)
+      .values(rows)
+      .onConflictDoUpdate({
+        target: [countryLifeExpectancyHistory.countryCode, countryLifeExpectancyHistory.sex, countryLifeExpectancyHistory.year],
+        set: {
+          lifeExpectancy: sql`excluded.life_expectancy`,
+          updatedAt: new Date()
+        }
+      });
+  }
+}
+
+/**
+ * In-memory storage for running the app and its API without Postgres.
+ * Everything, sessions included, is lost when the process exits.
+ */
+export class MemStorage implements IStorage {
+  private users = new Map<number, User>();
+  private lifeData = new Map<number, UserLifeData>();
+  private lifeExpectancies = new Map<string, CountryLifeExpectancy>();
+  private lifeExpectancyHistory = new Map<string, CountryLifeExpectancyHistory>();
+  private countryCache: any[] = [];
+  private nextUserId = 1;
+  private nextLifeDataId = 1;
+  private nextLifeExpectancyId = 1;
+  private nextLifeExpectancyHistoryId = 1;
+  sessionStore: session.Store;
+
+  constructor() {
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000, // prune expired sessions daily
+    });
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(user => user.username === username);
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User | undefined> {
+    if (await this.getUserByUsername(insertUser.username)) return undefined;
+    const user: User = { ...insertUser, id: this.nextUserId++ };
+    this.users.set(user.id, user);
+    return user;
+  }
+
+  async saveUserLifeData(data: InsertUserLifeData, shareSlug?: string): Promise<UserLifeData> {
+    const savedData: UserLifeData = {
+      id: this.nextLifeDataId++,
+      userId: data.userId ?? null,
+      name: data.name ?? null,
+      birthdate: data.birthdate,
+      countryCode: data.countryCode,
+      sex: data.sex ?? null,
+      activities: data.activities,
+      eras: data.eras ?? null,
+      result: data.result ?? null,
+      shareSlug: shareSlug ?? null,
+      shareExpiresAt: null,
+      createdAt: data.createdAt,
+      updatedAt: data.updatedAt
+    };
+    this.lifeData.set(savedData.id, savedData);
+    return savedData;
+  }
+
+  async getUserLifeData(id: number): Promise<UserLifeData | undefined> {
+    return this.lifeData.get(id);
+  }
+
+  async listUserLifeData(userId: number, limit: number, offset: number): Promise<{ items: UserLifeData[]; total: number }> {
+    const owned = Array.from(this.lifeData.values())
+      .filter(data => data.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+    return { items: owned.slice(offset, offset + limit), total: owned.length };
+  }
+
+  async updateUserLifeData(id: number, data: UpdateUserLifeData): Promise<UserLifeData | undefined> {
+    const existing = this.lifeData.get(id);
+    if (!existing) return undefined;
+
+    // Match the database behaviour of ignoring fields that were not provided
+    const changes = Object.fromEntries(
+      Object.entries(data).filter(([, value]) => value !== undefined)
+    ) as UpdateUserLifeData;
+    const updated: UserLifeData = { ...existing, ...changes, updatedAt: new Date() };
+    this.lifeData.set(id, updated);
+    return updated;
+  }
+
+  async deleteUserLifeData(id: number): Promise<boolean> {
+    return this.lifeData.delete(id);
+  }
+
+  async getUserLifeDataByShareSlug(shareSlug: string): Promise<UserLifeData | undefined> {
+    return Array.from(this.lifeData.values()).find(data => data.shareSlug === shareSlug);
+  }
+
+  async updateShareLink(id: number, shareSlug: string | null, shareExpiresAt: Date | null): Promise<UserLifeData | undefined> {
+    const existing = this.lifeData.get(id);
+    if (!existing) return undefined;
+
+    const updated: UserLifeData = { ...existing, shareSlug, shareExpiresAt, updatedAt: new Date() };
+    this.lifeData.set(id, updated);
+    return updated;
+  }
+
+  async getActivityAggregates(activityName?: string): Promise<ActivityAggregate[]> {
+    const groups = new Map<string, { dailyHours: number[]; activeDayHours: number[]; profileIds: Set<number> }>();
+    const filter = activityName?.trim().toLowerCase();
+
+    this.lifeData.forEach(data => {
+      data.activities.forEach(activity => {
+        const name = activity.name.trim().toLowerCase();
+        if (filter && name !== filter) return;
+
+        const group = groups.get(name) ?? { dailyHours: [], activeDayHours: [], profileIds: new Set<number>() };
+        group.dailyHours.push(calculateAverageDailyHours(activity));
+        group.activeDayHours.push(activity.hours);
+        group.profileIds.add(data.id);
+        groups.set(name, group);
+      });
+    });
+
+    const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+    return Array.from(groups.entries())
+      .map(([activity, group]) => ({
+        activity,
+        averageDailyHours: average(group.dailyHours),
+        averageHoursPerActiveDay: average(group.activeDayHours),
+        profileCount: group.profileIds.size
+      }))
+      .sort((a, b) => b.profileCount - a.profileCount || a.activity.localeCompare(b.activity));
+  }
+
+  async getCachedCountries(): Promise<any[]> {
+    return this.countryCache;
+  }
+
+  async cacheCountries(countries: any[]): Promise<void> {
+    this.countryCache = countries;
+  }
+
+  async getCachedLifeExpectancy(countryCode: string, sex: Sex): Promise<CountryLifeExpectancy | undefined> {
+    return this.lifeExpectancies.get(`${countryCode}:${sex}`);
+  }
+
+  async cacheLifeExpectancy(data: InsertCountryLifeExpectancy): Promise<CountryLifeExpectancy> {
+    const key = `${data.countryCode}:${data.sex}`;
+    const existing = this.lifeExpectancies.get(key);
+    const cached: CountryLifeExpectancy = {
+      ...data,
+      id: existing?.id ?? this.nextLifeExpectancyId++,
+      updatedAt: existing ? new Date() : data.updatedAt
+    };
+    this.lifeExpectancies.set(key, cached);
+    return cached;
+  }
+
+  async getCachedLifeExpectancyHistory(countryCode: string, sex: Sex): Promise<CountryLifeExpectancyHistory[]> {
+    return Array.from(this.lifeExpectancyHistory.values())
+      .filter(row => row.countryCode === countryCode && row.sex === sex)
+      .sort((a, b) => a.year - b.year);
+  }
+
+  async cacheLifeExpectancyHistory(rows: InsertCountryLifeExpectancyHistory[]): Promise<void> {
+    rows.forEach(row => {
+      const key = `${row.countryCode}:${row.sex}:${row.year}`;
+      const existing = this.lifeExpectancyHistory.get(key);
+      this.lifeExpectancyHistory.set(key, {
+        ...row,
+        id: existing?.id ?? this.nextLifeExpectancyHistoryId++,
+        updatedAt: existing ? new Date() : row.updatedAt
+      });
+    });
+  }
+}
+
+// STORAGE_DRIVER=memory runs without Postgres; the default needs DATABASE_URL
+function createStorage(): IStorage {
+  const driver = process.env.STORAGE_DRIVER ?? "database";
+
+  if (driver === "memory") {
+    return new MemStorage();
+  }
+  if (driver === "database") {
+    return new DatabaseStorage();
+  }
+  throw new Error(`Unknown STORAGE_DRIVER "${driver}", expected "database" or "memory"`);
 }
 
-export const storage = new DatabaseStorage();
+export const storage = createStorage();
@@ -0,0 +1,242 @@
+import { z } from "zod";
+
+// What an activity is, independent of what the user named it; analysis and advice key off this
+export const activityCategorySchema = z.enum([
+  "sleep",
+  "work",
+  "commute",
+  "exercise",
+  "learning",
+  "social",
+  "leisure",
+  "screen",
+  "meals",
+  "household",
+  "self-care",
+  "other"
+]);
+
+export type ActivityCategory = z.infer<typeof activityCategorySchema>;
+
+export interface ActivityCategoryInfo {
+  id: ActivityCategory;
+  label: string;
+  icon: string; // Font Awesome icon for activities in the category
+  // Words and phrases that name the category, in English, Spanish, French, German, Italian and
+  // Portuguese; matched as whole words against the activity name with case and accents ignored
+  aliases: string[];
+}
+
+export const ACTIVITY_CATEGORIES: ActivityCategoryInfo[] = [
+  {
+    id: "sleep",
+    label: "Sleep",
+    icon: "fa-bed",
+    aliases: [
+      "sleep", "sleeping", "nap", "naps", "napping", "rest", "bed", "bedtime",
+      "dormir", "sueno", "siesta", "descanso",
+      "sommeil", "dodo", "sieste",
+      "schlaf", "schlafen", "nickerchen",
+      "sonno", "riposo", "pisolino",
+      "sono", "cochilo"
+    ]
+  },
+  {
+    id: "work",
+    label: "Work",
+    icon: "fa-briefcase",
+    aliases: [
+      "work", "working", "job", "career", "office", "business", "meetings", "meeting", "client work",
+      "teaching", "grading", "lesson planning", "networking", "shift", "overtime", "freelance",
+      "trabajo", "trabajar", "oficina", "empleo",
+      "travail", "travailler", "bureau", "boulot",
+      "arbeit", "arbeiten", "buro",
+      "lavoro", "lavorare", "ufficio",
+      "trabalho", "trabalhar", "escritorio", "emprego"
+    ]
+  },
+  {
+    id: "commute",
+    label: "Commute",
+    icon: "fa-car",
+    aliases: [
+      "commute", "commuting", "driving", "drive", "transit", "train ride", "bus ride",
+      "trayecto", "desplazamiento", "viaje al trabajo",
+      "trajet", "trajets", "transport", "transports",
+      "pendeln", "arbeitsweg", "fahrt",
+      "pendolarismo", "tragitto",
+      "deslocamento", "trajeto", "transito"
+    ]
+  },
+  {
+    id: "exercise",
+    label: "Exercise",
+    icon: "fa-dumbbell",
+    aliases: [
+      "exercise", "exercising", "fitness", "workout", "workouts", "training", "gym", "sport", "sports",
+      "yoga", "pilates", "running", "run", "jogging", "cycling", "biking", "swimming", "walking", "hiking",
+      "cardio", "strength", "strength training", "weights", "weightlifting", "lifting", "crossfit",
+      "climbing", "tennis", "football", "soccer", "basketball", "dance", "dancing", "martial arts",
+      "ejercicio", "gimnasio", "deporte", "correr", "natacion", "caminar", "entrenamiento",
+      "exercice", "salle de sport", "natation", "musculation", "velo", "marche",
+      "ubung", "fitnessstudio", "laufen", "joggen", "schwimmen", "radfahren", "krafttraining", "wandern",
+      "esercizio", "palestra", "allenamento", "corsa", "nuoto", "camminata",
+      "exercicio", "academia", "treino", "corrida", "natacao", "caminhada", "musculacao"
+    ]
+  },
+  {
+    id: "learning",
+    label: "Learning",
+    icon: "fa-graduation-cap",
+    aliases: [
+      "learning", "learn", "study", "studying", "studies", "reading", "read", "books", "education",
+      "school", "classes", "class", "course", "courses", "homework", "skills", "skill", "practice", "lessons",
+      "estudiar", "estudio", "estudios", "lectura", "leer", "aprender", "clases", "escuela",
+      "etudes", "etudier", "lecture", "lire", "apprentissage", "apprendre", "cours", "ecole",
+      "lernen", "studium", "lesen", "schule", "unterricht", "weiterbildung",
+      "studio", "studiare", "lettura", "leggere", "imparare", "scuola",
+      "estudo", "estudar", "leitura", "ler", "aulas", "escola"
+    ]
+  },
+  {
+    id: "social",
+    label: "Family & Friends",
+    icon: "fa-users",
+    aliases: [
+      "social", "socializing", "family", "family time", "friends", "relationship", "relationships",
+      "partner", "kids", "children", "childcare", "parenting", "date night", "social activities", "social time",
+      "familia", "amigos", "pareja", "hijos", "ninos",
+      "famille", "amis", "enfants", "couple",
+      "familie", "freunde", "kinder", "partnerin",
+      "famiglia", "amici", "figli", "bambini",
+      "filhos", "criancas", "namorada", "namorado"
+    ]
+  },
+  {
+    id: "leisure",
+    label: "Leisure",
+    icon: "fa-tv",
+    aliases: [
+      "leisure", "entertainment", "tv", "television", "netflix", "movies", "films", "gaming", "games",
+      "video games", "hobbies", "hobby", "music", "personal time", "free time", "relaxing", "relax",
+      "ocio", "peliculas", "videojuegos", "pasatiempos", "tiempo libre",
+      "loisirs", "loisir", "tele", "jeux video", "temps libre",
+      "freizeit", "fernsehen", "spiele", "hobbys",
+      "svago", "tempo libero", "televisione", "videogiochi",
+      "lazer", "televisao", "jogos", "tempo livre"
+    ]
+  },
+  {
+    id: "screen",
+    label: "Phone & Social Media",
+    icon: "fa-mobile-screen",
+    aliases: [
+      "social media", "phone", "smartphone", "internet", "browsing", "scrolling", "instagram", "tiktok",
+      "facebook", "twitter", "youtube", "reddit", "phone calls", "screen time",
+      "redes sociales", "movil", "celular", "telefono",
+      "reseaux sociaux", "telephone", "portable",
+      "soziale medien", "handy", "telefon",
+      "cellulare",
+      "redes sociais"
+    ]
+  },
+  {
+    id: "meals",
+    label: "Meals",
+    icon: "fa-utensils",
+    aliases: [
+      "eating", "meals", "meal", "breakfast", "lunch", "dinner", "cooking", "food",
+      "comer", "comidas", "cocinar", "desayuno", "almuerzo", "cena",
+      "repas", "manger", "cuisine", "cuisiner", "dejeuner", "diner",
+      "essen", "kochen", "mahlzeiten", "fruhstuck", "mittagessen", "abendessen",
+      "mangiare", "pasti", "cucinare", "pranzo",
+      "refeicoes", "cozinhar", "almoco", "jantar"
+    ]
+  },
+  {
+    id: "household",
+    label: "Household",
+    icon: "fa-broom",
+    aliases: [
+      "household", "chores", "cleaning", "laundry", "shopping", "groceries", "errands", "housework", "admin",
+      "limpieza", "limpiar", "compras", "tareas domesticas",
+      "menage", "lessive", "taches menageres",
+      "haushalt", "putzen", "einkaufen", "wasche",
+      "faccende", "pulizie", "spesa", "bucato",
+      "limpeza", "tarefas domesticas", "lavanderia"
+    ]
+  },
+  {
+    id: "self-care",
+    label: "Self-care",
+    icon: "fa-spa",
+    aliases: [
+      "self care", "meditation", "meditating", "mindfulness", "grooming", "shower", "hygiene", "therapy", "journaling",
+      "personal care",
+      "meditacion", "cuidado personal", "ducha",
+      "soins", "douche",
+      "meditieren", "korperpflege", "duschen",
+      "meditazione", "cura di se", "doccia",
+      "meditacao", "autocuidado", "banho"
+    ]
+  },
+  {
+    id: "other",
+    label: "Other",
+    icon: "fa-circle",
+    aliases: []
+  }
+];
+
+// Lower case, no accents, words separated by single spaces and padded for whole-word matching
+const normalize = (text: string) =>
+  ` ${text.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase().replace(/[^a-z0-9]+/g, " ").trim()} `;
+
+const NORMALIZED_ALIASES = ACTIVITY_CATEGORIES.flatMap(category =>
+  category.aliases.map(alias => ({ category: category.id, alias: normalize(alias) }))
+);
+
+export function getActivityCategoryInfo(category: ActivityCategory): ActivityCategoryInfo {
+  return ACTIVITY_CATEGORIES.find(info => info.id === category) ?? ACTIVITY_CATEGORIES[ACTIVITY_CATEGORIES.length - 1];
+}
+
+/**
+ * Guesses the category from an activity's free-text name. The longest matching alias wins, so
+ * "Social media" is screen time rather than social and "Strength training" is exercise.
+ */
+export function inferActivityCategory(name: string): ActivityCategory {
+  const normalized = normalize(name);
+  let best: { category: ActivityCategory; length: number } | null = null;
+  for (const { category, alias } of NORMALIZED_ALIASES) {
+    if (normalized.includes(alias) && (!best || alias.length > best.length)) {
+      best = { category, length: alias.length };
+    }
+  }
+  return best?.category ?? "other";
+}
+
+// The category the user picked, or one inferred from the name for activities saved without it
+export function activityCategoryOf(activity: { name: string; category?: ActivityCategory }): ActivityCategory {
+  return activity.category ?? inferActivityCategory(activity.name);
+}
+
+export type ExerciseStyle = "strength" | "aerobic" | "mixed";
+
+const STRENGTH_ALIASES = [
+  "strength", "weights", "weight", "weightlifting", "lifting", "resistance", "crossfit", "calisthenics",
+  "musculacion", "pesas", "musculation", "krafttraining", "kraft", "pesi", "musculacao"
+].map(normalize);
+
+const AEROBIC_ALIASES = [
+  "cardio", "aerobic", "running", "run", "jogging", "cycling", "biking", "swimming", "rowing", "hiking",
+  "correr", "natacion", "ciclismo", "course", "natation", "velo", "laufen", "joggen", "schwimmen",
+  "radfahren", "corsa", "nuoto", "corrida", "natacao"
+].map(normalize);
+
+// Whether an exercise activity is resistance work, aerobic work or unspecified, from its name
+export function exerciseStyleOf(name: string): ExerciseStyle {
+  const normalized = normalize(name);
+  if (STRENGTH_ALIASES.some(alias => normalized.includes(alias))) return "strength";
+  if (AEROBIC_ALIASES.some(alias => normalized.includes(alias))) return "aerobic";
+  return "mixed";
+}
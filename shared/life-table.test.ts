@@ -0,0 +1,36 @@
+/**
+ * Checks model life tables against published period life tables: matched to a table's life
+ * expectancy at birth, the model must reproduce its life expectancy at 65.
+ */
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { buildModelLifeTable, remainingLifeExpectancy, survivalDistribution } from "./life-table";
+
+// Life expectancy at birth and at 65, in years
+const PUBLISHED_TABLES = [
+  // Arias E, Xu J. United States life tables, 2019. National Vital Statistics Reports; vol 70 no 19. NCHS; 2022
+  { table: "United States 2019, total", e0: 78.8, e65: 19.6 },
+  { table: "United States 2019, female", e0: 81.4, e65: 20.8 },
+  { table: "United States 2019, male", e0: 76.3, e65: 18.2 },
+  // Ministry of Health, Labour and Welfare. Abridged life tables for Japan 2019
+  { table: "Japan 2019, female", e0: 87.45, e65: 24.63 },
+  { table: "Japan 2019, male", e0: 81.41, e65: 19.83 }
+];
+
+describe("model life tables", () => {
+  for (const { table, e0, e65 } of PUBLISHED_TABLES) {
+    it(`reproduces e(65) of ${table}`, () => {
+      const model = buildModelLifeTable(e0);
+      assert.ok(Math.abs(remainingLifeExpectancy(model, 0) - e0) < 0.01, "life expectancy at birth");
+      const modelE65 = remainingLifeExpectancy(model, 65);
+      assert.ok(Math.abs(modelE65 - e65) < 1, `e(65) ${modelE65.toFixed(2)}, published ${e65}`);
+    });
+  }
+
+  it("puts the median age at death near the expected age at death", () => {
+    const model = buildModelLifeTable(78.8);
+    const { percentile10, median, percentile90 } = survivalDistribution(model, 35);
+    assert.ok(percentile10 < median && median < percentile90);
+    assert.ok(Math.abs(median - (35 + remainingLifeExpectancy(model, 35))) < 5);
+  });
+});
@@ -0,0 +1,168 @@
+// Period life tables: annual probabilities of death by single year of age,
+// shared by the server (bundled tables, /api/life-table) and the client (remaining years)
+
+// Oldest age in a table; everyone still alive dies during this year
+export const LIFE_TABLE_MAX_AGE = 110;
+
+export interface LifeTable {
+  // qx[x] = probability that someone who reached exact age x dies before x + 1
+  qx: number[];
+}
+
+// Siler mortality hazard (child mortality falling with age, background risk and Gompertz
+// ageing; Siler W. A competing-risk model for animal mortality. Ecology. 1979;60(4):750-757,
+// doi:10.2307/1936612). Scaling it by a single level parameter gives a family of plausible
+// life tables where poorer mortality raises child and early adult deaths faster than old-age
+// deaths. The levels and AGEING_RATE are a least-squares fit so that, matched to each table's
+// life expectancy at birth, model tables reproduce the published life expectancy at 65 of the
+// United States 2019 (NCHS) and Japan 2019 (MHLW) period life tables; life-table.test.ts keeps
+// the fit within a year. AGEING_RATE doubles the old-age hazard every 6.6 years, a little faster
+// than the roughly 8 years quoted for adults (Kirkwood TBL. Deciphering death: a commentary on
+// Gompertz (1825). Phil Trans R Soc B. 2015;370:20140379, doi:10.1098/rstb.2014.0379), which
+// fits old-age mortality better.
+const CHILD_LEVEL = 0.02;
+const CHILD_DECLINE = 1.2;
+const BACKGROUND_LEVEL = 0.0002;
+const AGEING_LEVEL = 0.00001;
+const AGEING_RATE = 0.105;
+
+function modelHazard(age: number, level: number): number {
+  return Math.pow(level, 4) * CHILD_LEVEL * Math.exp(-CHILD_DECLINE * age) +
+    Math.pow(level, 2) * BACKGROUND_LEVEL +
+    level * AGEING_LEVEL * Math.exp(AGEING_RATE * age);
+}
+
+function buildModelQx(level: number): number[] {
+  const qx: number[] = [];
+  for (let age = 0; age < LIFE_TABLE_MAX_AGE; age++) {
+    // Cumulative hazard over the year, midpoint rule on quarter-year steps
+    let hazard = 0;
+    for (let step = 0; step < 4; step++) {
+      hazard += modelHazard(age + (step + 0.5) / 4, level) / 4;
+    }
+    qx.push(Math.min(1, 1 - Math.exp(-hazard)));
+  }
+  qx.push(1);
+  return qx;
+}
+
+// Survivors to each whole age out of one newborn (lx), ending with 0 after the last age
+function survivorsByAge(table: LifeTable): number[] {
+  const lx = [1];
+  for (const q of table.qx) {
+    lx.push(lx[lx.length - 1] * (1 - q));
+  }
+  return lx;
+}
+
+// Survivors at a fractional age; deaths are spread evenly over each year, so lx is linear within it
+function survivorsAt(lx: number[], age: number): number {
+  const clampedAge = Math.min(Math.max(0, age), lx.length - 1);
+  const wholeAge = Math.min(Math.floor(clampedAge), lx.length - 2);
+  const fraction = clampedAge - wholeAge;
+  return lx[wholeAge] + (lx[wholeAge + 1] - lx[wholeAge]) * fraction;
+}
+
+/**
+ * Probability that someone alive at `fromAge` is still alive at `toAge`
+ */
+export function survivalProbability(table: LifeTable, fromAge: number, toAge: number): number {
+  const lx = survivorsByAge(table);
+  const alive = survivorsAt(lx, fromAge);
+  return alive > 0 ? survivorsAt(lx, toAge) / alive : 0;
+}
+
+/**
+ * Years someone alive at `fromAge` can expect to live between `fromAge` and `toAge`:
+ * each year counts only as much as the probability of being alive to live it
+ */
+export function expectedYearsLived(table: LifeTable, fromAge: number, toAge: number = Infinity): number {
+  const lx = survivorsByAge(table);
+  const start = Math.min(Math.max(0, fromAge), lx.length - 1);
+  const end = Math.min(toAge, lx.length - 1);
+  const alive = survivorsAt(lx, start);
+  if (alive <= 0 || end <= start) return 0;
+
+  // lx is linear within each year, so the trapezoid rule is exact between breakpoints
+  let personYears = 0;
+  let age = start;
+  while (age < end) {
+    const next = Math.min(Math.floor(age) + 1, end);
+    personYears += (survivorsAt(lx, age) + survivorsAt(lx, next)) / 2 * (next - age);
+    age = next;
+  }
+  return personYears / alive;
+}
+
+/**
+ * Expected remaining years for someone who has survived to `age` (may be fractional)
+ */
+export function remainingLifeExpectancy(table: LifeTable, age: number): number {
+  return expectedYearsLived(table, age);
+}
+
+/**
+ * Expected age at death for someone who has survived to `age`
+ */
+export function expectedAgeAtDeath(table: LifeTable, age: number): number {
+  return age + remainingLifeExpectancy(table, age);
+}
+
+export interface SurvivalDistribution {
+  percentile10: number; // Age at death that 10% of people alive at this age don't reach
+  median: number;
+  percentile90: number;
+  // Probability of being alive at each whole age from the current age onwards
+  curve: { age: number; probability: number }[];
+}
+
+/**
+ * Distribution of the age at death for someone alive at `age`
+ */
+export function survivalDistribution(table: LifeTable, age: number): SurvivalDistribution {
+  const lx = survivorsByAge(table);
+  const alive = survivorsAt(lx, age);
+
+  // Age by which a share `died` of those alive now have died, inverting the linear lx
+  const ageAtDeathQuantile = (died: number) => {
+    const target = alive * (1 - died);
+    for (let x = Math.floor(age); x < lx.length - 1; x++) {
+      if (lx[x + 1] <= target) {
+        const within = lx[x] === lx[x + 1] ? 0 : (lx[x] - target) / (lx[x] - lx[x + 1]);
+        return Math.max(age, x + within);
+      }
+    }
+    return lx.length - 1;
+  };
+
+  const curve: SurvivalDistribution['curve'] = [];
+  for (let x = Math.ceil(age); x < lx.length; x++) {
+    curve.push({ age: x, probability: alive > 0 ? lx[x] / alive : 0 });
+  }
+
+  return {
+    percentile10: ageAtDeathQuantile(0.1),
+    median: ageAtDeathQuantile(0.5),
+    percentile90: ageAtDeathQuantile(0.9),
+    curve
+  };
+}
+
+/**
+ * Model life table whose life expectancy at birth matches `lifeExpectancyAtBirth`,
+ * for countries (or manual inputs) without a published table
+ */
+export function buildModelLifeTable(lifeExpectancyAtBirth: number): LifeTable {
+  // Life expectancy falls as the mortality level rises, so bisect on its logarithm
+  let low = -8;
+  let high = 8;
+  for (let i = 0; i < 50; i++) {
+    const mid = (low + high) / 2;
+    if (remainingLifeExpectancy({ qx: buildModelQx(Math.exp(mid)) }, 0) > lifeExpectancyAtBirth) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return { qx: buildModelQx(Math.exp((low + high) / 2)) };
+}
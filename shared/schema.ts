@@ -1,6 +1,7 @@
-import { pgTable, text, serial, integer, date, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, real, date, timestamp, jsonb, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { activityCategorySchema } from "./activity-categories";
 
 // User Model
 export const users = pgTable("users", {
@@ -14,61 +15,312 @@ export const insertUserSchema = createInsertSchema(users).pick({
   password: true,
 });
 
+// Registration payload with credential rules enforced on both client and server
+export const registerUserSchema = insertUserSchema.extend({
+  username: z.string()
+    .min(3, "Username must be at least 3 characters")
+    .max(32, "Username cannot exceed 32 characters")
+    .regex(/^[a-zA-Z0-9_.-]+$/, "Username may only contain letters, numbers, dots, dashes and underscores"),
+  password: z.string()
+    .min(8, "Password must be at least 8 characters")
+    .max(128, "Password cannot exceed 128 characters"),
+});
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type PublicUser = Pick<User, "id" | "username">;
+
+// Sex used to pick a life expectancy indicator; "total" is the whole population
+export const sexSchema = z.enum(["total", "female", "male"]);
+
+export type Sex = z.infer<typeof sexSchema>;
 
 // Country Life Expectancy Model
 export const countryLifeExpectancy = pgTable("country_life_expectancy", {
   id: serial("id").primaryKey(),
-  countryCode: text("country_code").notNull().unique(),
+  countryCode: text("country_code").notNull(),
+  sex: text("sex").$type<Sex>().notNull().default("total"),
   countryName: text("country_name").notNull(),
-  lifeExpectancy: integer("life_expectancy").notNull(),
+  lifeExpectancy: real("life_expectancy").notNull(), // Years, e.g. 78.5
   dataYear: integer("data_year").notNull(),
   updatedAt: timestamp("updated_at").notNull()
-});
+}, (table) => ({
+  countrySex: unique("country_life_expectancy_country_sex_unique").on(table.countryCode, table.sex)
+}));
 
 export const insertCountryLifeExpectancySchema = createInsertSchema(countryLifeExpectancy).pick({
   countryCode: true,
+  sex: true,
   countryName: true,
   lifeExpectancy: true,
   dataYear: true,
   updatedAt: true
+}).extend({
+  sex: sexSchema
 });
 
 export type CountryLifeExpectancy = typeof countryLifeExpectancy.$inferSelect;
 export type InsertCountryLifeExpectancy = z.infer<typeof insertCountryLifeExpectancySchema>;
 
+// Life expectancy at birth as served by /api/life-expectancy
+export interface LifeExpectancyFigure {
+  countryCode: string;
+  sex: Sex;
+  lifeExpectancy: number;
+  dataYear: number; // Year the World Bank estimate refers to
+  source: "snapshot" | "live"; // Bundled snapshot or the live World Bank API
+}
+
+// Country Life Expectancy History Model - one row per country, sex and year
+export const countryLifeExpectancyHistory = pgTable("country_life_expectancy_history", {
+  id: serial("id").primaryKey(),
+  countryCode: text("country_code").notNull(),
+  sex: text("sex").$type<Sex>().notNull(),
+  year: integer("year").notNull(),
+  lifeExpectancy: real("life_expectancy").notNull(),
+  updatedAt: timestamp("updated_at").notNull()
+}, (table) => ({
+  countrySexYear: unique("country_life_expectancy_history_country_sex_year_unique").on(table.countryCode, table.sex, table.year)
+}));
+
+export const insertCountryLifeExpectancyHistorySchema = createInsertSchema(countryLifeExpectancyHistory).pick({
+  countryCode: true,
+  sex: true,
+  year: true,
+  lifeExpectancy: true,
+  updatedAt: true
+}).extend({
+  sex: sexSchema
+});
+
+export type CountryLifeExpectancyHistory = typeof countryLifeExpectancyHistory.$inferSelect;
+export type InsertCountryLifeExpectancyHistory = z.infer<typeof insertCountryLifeExpectancyHistorySchema>;
+
+// Yearly life expectancy at birth for a country and sex, oldest year first
+export interface LifeExpectancyHistory {
+  countryCode: string;
+  sex: Sex;
+  points: { year: number; lifeExpectancy: number }[];
+  source: "snapshot" | "live"; // Bundled snapshot or the live World Bank API
+}
+
+// Activity schema, shared by the frontend form and the server-side activities column
+export const WEEK_HOURS = 7 * 24;
+
+export const recurrenceFrequencySchema = z.enum(["weekly", "monthly", "yearly"]);
+export type RecurrenceFrequency = z.infer<typeof recurrenceFrequencySchema>;
+
+// How often an activity happens when it isn't simply every week of the year, e.g. a monthly
+// volunteering day, two weeks of vacation a year or weekend skiing from December to February
+export const recurrenceSchema = z.object({
+  frequency: recurrenceFrequencySchema,
+  daysPerPeriod: z.number().int().min(1, "Days must be at least 1").max(366, "Days cannot exceed 366").optional(), // Monthly and yearly only; weekly uses daysPerWeek
+  activeMonths: z.array(z.number().int().min(1).max(12)).min(1, "Pick at least one month").max(12).optional() // 1 = January; every month when omitted
+}).refine(recurrence => recurrence.frequency === "weekly" || recurrence.daysPerPeriod !== undefined, {
+  message: "Days per month or year are required",
+  path: ["daysPerPeriod"]
+}).refine(recurrence => recurrence.frequency !== "monthly" || (recurrence.daysPerPeriod ?? 0) <= 31, {
+  message: "Days per month cannot exceed 31",
+  path: ["daysPerPeriod"]
+});
+
+export type Recurrence = z.infer<typeof recurrenceSchema>;
+
+export const activitySchema = z.object({
+  id: z.string(),
+  name: z.string().min(1, "Activity name is required"),
+  hours: z.number().min(0, "Hours must be greater than or equal to 0").max(24, "Hours must be less than or equal to 24"),
+  daysPerWeek: z.number().min(1, "Days per week must be at least 1").max(7, "Days per week cannot exceed 7").default(7),
+  icon: z.string().optional(),
+  color: z.string().optional(),
+  category: activityCategorySchema.optional(), // Inferred from the name when omitted
+  // Hours of the week painted in the weekly calendar (day * 24 + hour, Monday 00:00 = 0)
+  schedule: z.array(z.number().int().min(0).max(WEEK_HOURS - 1)).max(WEEK_HOURS).optional(),
+  recurrence: recurrenceSchema.optional(), // Weekly all year round when omitted
+  // Id of the activity this one happens alongside (e.g. podcasts during a commute); it then
+  // counts towards its own total without using up any of the day's 24 hours
+  concurrentWith: z.string().optional()
+});
+
+export type Activity = z.infer<typeof activitySchema>;
+
+const activeShareOfYear = (recurrence?: Recurrence) =>
+  recurrence?.activeMonths ? new Set(recurrence.activeMonths).size / 12 : 1;
+
+/**
+ * Hours a day an activity takes up, averaged over a whole year. Active months scale weekly and
+ * monthly activities; a yearly activity's days count in full whichever months they fall in.
+ */
+export function calculateAverageDailyHours(activity: Pick<Activity, "hours" | "daysPerWeek" | "recurrence">): number {
+  const { recurrence } = activity;
+  switch (recurrence?.frequency ?? "weekly") {
+    case "yearly":
+      return (activity.hours * (recurrence?.daysPerPeriod ?? 0)) / 365;
+    case "monthly":
+      return (activity.hours * (recurrence?.daysPerPeriod ?? 0) * 12) / 365 * activeShareOfYear(recurrence);
+    default:
+      return (activity.hours * activity.daysPerWeek) / 7 * activeShareOfYear(recurrence);
+  }
+}
+
+// Concurrent activities must point at another activity in the same list that is not concurrent itself
+const hasValidConcurrency = (activities: Activity[]) => activities.every(activity => {
+  if (!activity.concurrentWith) return true;
+  const host = activities.find(candidate => candidate.id === activity.concurrentWith);
+  return !!host && host.id !== activity.id && !host.concurrentWith;
+});
+
+const concurrencyMessage = { message: "A concurrent activity must happen alongside another, non-concurrent activity" };
+
+export const activitiesSchema = z.array(activitySchema)
+  .min(1, "At least one activity is required")
+  .refine(hasValidConcurrency, concurrencyMessage);
+
+// A past period of life (e.g. school, university) with its own activity mix; ages are in years
+export const lifeEraSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1, "Era name is required"),
+  startAge: z.number().min(0, "Start age cannot be negative"),
+  endAge: z.number().max(150, "End age cannot exceed 150"),
+  activities: z.array(activitySchema).refine(hasValidConcurrency, concurrencyMessage)
+}).refine(era => era.endAge > era.startAge, {
+  message: "An era must end after it starts",
+  path: ["endAge"]
+});
+
+export type LifeEra = z.infer<typeof lifeEraSchema>;
+
+export const lifeErasSchema = z.array(lifeEraSchema).max(12, "At most 12 eras are supported").refine(eras => {
+  const sorted = [...eras].sort((a, b) => a.startAge - b.startAge);
+  return sorted.every((era, index) => index === 0 || era.startAge >= sorted[index - 1].endAge);
+}, {
+  message: "Eras cannot overlap"
+});
+
+// Longest life a stored result may describe, in weeks; bounds what share cards draw
+export const MAX_RESULT_WEEKS = 150 * 52;
+
+// The parts of a computed VisualizeResult the server reads back; other fields pass through
+export const storedResultSchema = z.object({
+  age: z.number().finite().min(0).max(150),
+  lifeExpectancy: z.number().finite().min(0).max(150),
+  weeksLived: z.number().finite().min(0).max(MAX_RESULT_WEEKS),
+  weeksTotal: z.number().finite().min(0).max(MAX_RESULT_WEEKS),
+  weeksRemaining: z.number().finite().min(0).max(MAX_RESULT_WEEKS),
+  activityStats: z.array(z.object({
+    name: z.string(),
+    years: z.number().finite(),
+    color: z.string(),
+    concurrentWith: z.string().optional()
+  }).passthrough())
+}).passthrough();
+
+export type StoredResult = z.infer<typeof storedResultSchema>;
+
+// The result column holds the VisualizeResult as JSON text, checked before it is stored
+const resultTextSchema = z.string().max(500_000).superRefine((text, ctx) => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Result must be valid JSON" });
+    return;
+  }
+  if (!storedResultSchema.safeParse(data).success) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Result is not a valid visualization" });
+  }
+});
+
 // UserLifeData Model - for saving user profile and visualization data
 export const userLifeData = pgTable("user_life_data", {
   id: serial("id").primaryKey(),
   userId: integer("user_id"),
+  name: text("name"), // Optional label shown in the saved profiles list
   birthdate: date("birthdate").notNull(),
   countryCode: text("country_code").notNull(),
-  activities: text("activities").notNull(), // JSON string of activities array
+  sex: text("sex").$type<Sex>(), // Null for profiles saved before sex selection existed
+  activities: jsonb("activities").$type<Activity[]>().notNull(), // Validated against activitySchema on write
+  eras: jsonb("eras").$type<LifeEra[]>(), // Past life eras; null when the profile has none
+  result: text("result"), // JSON string of the computed VisualizeResult, shown on share pages
+  shareSlug: text("share_slug").unique(), // Opaque public token, null when sharing is revoked
+  shareExpiresAt: timestamp("share_expires_at"),
   createdAt: timestamp("created_at").notNull(),
   updatedAt: timestamp("updated_at").notNull()
 });
 
 export const insertUserLifeDataSchema = createInsertSchema(userLifeData).pick({
   userId: true,
+  name: true,
   birthdate: true,
   countryCode: true,
+  sex: true,
   activities: true,
+  eras: true,
+  result: true,
   createdAt: true,
   updatedAt: true
+}).extend({
+  sex: sexSchema.nullish(),
+  activities: activitiesSchema,
+  eras: lifeErasSchema.nullish(),
+  result: resultTextSchema.nullish()
 });
 
+// Fields an owner may change on a saved profile; timestamps and ownership are server-managed
+export const updateUserLifeDataSchema = createInsertSchema(userLifeData).pick({
+  name: true,
+  birthdate: true,
+  countryCode: true,
+  sex: true,
+  activities: true,
+  eras: true,
+  result: true
+}).extend({
+  sex: sexSchema.nullable(),
+  activities: activitiesSchema,
+  eras: lifeErasSchema.nullable(),
+  result: resultTextSchema.nullable()
+}).partial();
+
 export type UserLifeData = typeof userLifeData.$inferSelect;
 export type InsertUserLifeData = z.infer<typeof insertUserLifeDataSchema>;
+export type UpdateUserLifeData = z.infer<typeof updateUserLifeDataSchema>;
 
-// Activity schema for frontend validation
-export const activitySchema = z.object({
-  id: z.string(),
-  name: z.string().min(1, "Activity name is required"),
-  hours: z.number().min(0, "Hours must be greater than or equal to 0").max(24, "Hours must be less than or equal to 24"),
-  daysPerWeek: z.number().min(1, "Days per week must be at least 1").max(7, "Days per week cannot exceed 7").default(7),
-  icon: z.string().optional(),
-  color: z.string().optional()
+// Owner request to (re)issue a share link; omit expiresInDays for a link that never expires
+export const createShareLinkSchema = z.object({
+  expiresInDays: z.number().int().min(1).max(365).optional()
 });
 
-export type Activity = z.infer<typeof activitySchema>;
+// Public, read-only view of a shared profile (no birthdate or owner details)
+export interface SharedLifeData {
+  countryCode: string;
+  activities: Activity[];
+  eras: LifeEra[] | null;
+  result: string;
+  createdAt: Date;
+  shareExpiresAt: Date | null;
+}
+
+// Aggregate of one activity (matched case-insensitively by name) across all saved profiles
+export interface ActivityAggregate {
+  activity: string;
+  averageDailyHours: number;
+  averageHoursPerActiveDay: number;
+  profileCount: number;
+}
+
+// Period life table for a country and sex, see shared/life-table.ts for the maths
+export interface CountryLifeTable {
+  countryCode: string;
+  sex: Sex;
+  source: "dataset" | "model"; // "model" tables are calibrated to the World Bank life expectancy at birth
+  lifeExpectancyAtBirth: number;
+  qx: number[];
+}
+
+export interface UserLifeDataPage {
+  items: UserLifeData[];
+  total: number;
+  page: number;
+  pageSize: number;
+}